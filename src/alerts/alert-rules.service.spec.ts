@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertRule } from './alert.interface';
+
+const CHANNELS = [
+  { id: 'hook', type: 'webhook', url: 'https://hooks.example/alerts' },
+];
+
+const RULE = {
+  id: 'usdt-above',
+  type: 'threshold',
+  asset: 'USDT',
+  above: 27000,
+  channels: ['hook'],
+};
+
+describe('AlertRulesService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'alert-rules-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  function load(rules: unknown[]) {
+    const path = join(dir, 'alerts.json');
+    writeFileSync(path, JSON.stringify({ channels: CHANNELS, rules }));
+    const service = new AlertRulesService(
+      new ConfigService({ ALERTS_CONFIG_PATH: path }),
+      { db: new Database(':memory:') } as never,
+      { get: (id: string) => (id === 'USDT' ? { id } : undefined) } as never,
+    );
+    service.onModuleInit();
+    return service;
+  }
+
+  it('loads rules and their channels from the config file', () => {
+    const service = load([RULE]);
+
+    expect(service.forAsset('USDT')).toEqual([RULE]);
+    expect(service.getChannels(['hook'])).toEqual(CHANNELS);
+  });
+
+  it('rejects a rule without channels when loading', () => {
+    expect(() => load([{ ...RULE, channels: [] }])).toThrow(
+      'Alert rule "usdt-above" needs at least one channel in "channels"',
+    );
+  });
+
+  it('rejects unknown channels and assets', () => {
+    expect(() => load([{ ...RULE, channels: ['hook', 'pager'] }])).toThrow(
+      'Alert rule "usdt-above" uses unknown channels pager',
+    );
+    expect(() => load([{ ...RULE, asset: 'BTC' }])).toThrow(
+      'Alert rule "usdt-above" watches unknown asset "BTC"',
+    );
+  });
+
+  it('stores API rules next to config rules', () => {
+    const service = load([RULE]);
+
+    service.add({ ...RULE, id: 'usdt-below', below: 25000 } as AlertRule);
+
+    expect(service.list().map(({ rule, origin }) => [rule.id, origin])).toEqual(
+      [
+        ['usdt-above', 'config'],
+        ['usdt-below', 'api'],
+      ],
+    );
+    expect(() => service.add(RULE as AlertRule)).toThrow(
+      'Alert rule "usdt-above" already exists',
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { DatabaseService } from '../database/database.service';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import {
+  ALERT_RULE_TYPES,
+  AlertRule,
+  CHANNEL_TYPES,
+  ChannelConfig,
+  StoredAlertRule,
+} from './alert.interface';
+
+const DEFAULT_ALERTS_CONFIG_PATH = 'config/alerts.json';
+
+interface AlertsConfigFile {
+  channels?: ChannelConfig[];
+  rules?: AlertRule[];
+}
+
+/**
+ * Rules come from config/alerts.json (read-only) and from the API (stored
+ * in SQLite). Channels are config-only since they carry credentials.
+ */
+@Injectable()
+export class AlertRulesService implements OnModuleInit {
+  private readonly logger = new Logger(AlertRulesService.name);
+  private channels = new Map<string, ChannelConfig>();
+  private configRules: AlertRule[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly database: DatabaseService,
+    private readonly assetRegistry: AssetRegistryService,
+  ) {}
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id TEXT PRIMARY KEY,
+        rule TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `);
+
+    const path = resolve(
+      this.configService.get<string>('ALERTS_CONFIG_PATH') ??
+        DEFAULT_ALERTS_CONFIG_PATH,
+    );
+    if (!existsSync(path)) {
+      this.logger.log(`No alerts config at ${path}, only API rules apply`);
+      return;
+    }
+
+    const file = JSON.parse(readFileSync(path, 'utf8')) as AlertsConfigFile;
+    for (const channel of file.channels ?? []) {
+      if (!CHANNEL_TYPES.includes(channel.type)) {
+        throw new Error(
+          `Alert channel "${channel.id}" has unknown type "${channel.type}"`,
+        );
+      }
+      this.channels.set(channel.id, channel);
+    }
+    this.configRules = (file.rules ?? []).map((rule) => this.check(rule));
+    this.logger.log(
+      `Loaded ${this.channels.size} alert channels and ${this.configRules.length} rules from ${path}`,
+    );
+  }
+
+  list(): StoredAlertRule[] {
+    return [
+      ...this.configRules.map((rule) => ({ rule, origin: 'config' as const })),
+      ...this.apiRules().map((rule) => ({ rule, origin: 'api' as const })),
+    ];
+  }
+
+  forAsset(assetId: string): AlertRule[] {
+    return this.list()
+      .map(({ rule }) => rule)
+      .filter((rule) => rule.asset === assetId && rule.enabled !== false);
+  }
+
+  getChannels(ids: string[]): ChannelConfig[] {
+    return ids.flatMap((id) => this.channels.get(id) ?? []);
+  }
+
+  /** Throws with a readable message when the rule cannot be added. */
+  add(rule: AlertRule): AlertRule {
+    if (this.list().some((stored) => stored.rule.id === rule.id)) {
+      throw new Error(`Alert rule "${rule.id}" already exists`);
+    }
+    this.check(rule);
+    this.database.db
+      .prepare(
+        'INSERT INTO alert_rules (id, rule, created_at) VALUES (?, ?, ?)',
+      )
+      .run(rule.id, JSON.stringify(rule), Date.now());
+    return rule;
+  }
+
+  /** Returns false when no API rule has that id. */
+  remove(id: string): boolean {
+    const { changes } = this.database.db
+      .prepare('DELETE FROM alert_rules WHERE id = ?')
+      .run(id);
+    return changes > 0;
+  }
+
+  isConfigRule(id: string): boolean {
+    return this.configRules.some((rule) => rule.id === id);
+  }
+
+  private apiRules(): AlertRule[] {
+    const rows = this.database.db
+      .prepare('SELECT rule FROM alert_rules ORDER BY created_at')
+      .all() as { rule: string }[];
+    return rows.map((row) => JSON.parse(row.rule) as AlertRule);
+  }
+
+  private check(rule: AlertRule): AlertRule {
+    const label = `Alert rule "${rule.id}"`;
+    if (!ALERT_RULE_TYPES.includes(rule.type)) {
+      throw new Error(`${label} has unknown type "${rule.type}"`);
+    }
+    if (!this.assetRegistry.get(rule.asset)) {
+      throw new Error(`${label} watches unknown asset "${rule.asset}"`);
+    }
+    // A rule without channels would fire into the void on every crawl
+    if (!Array.isArray(rule.channels) || rule.channels.length === 0) {
+      throw new Error(`${label} needs at least one channel in "channels"`);
+    }
+    const unknown = rule.channels.filter((id) => !this.channels.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`${label} uses unknown channels ${unknown.join(', ')}`);
+    }
+
+    switch (rule.type) {
+      case 'threshold':
+        if (rule.above === undefined && rule.below === undefined) {
+          throw new Error(`${label} needs "above" or "below"`);
+        }
+        break;
+      case 'change':
+        if (!(rule.percent > 0)) {
+          throw new Error(`${label} needs a positive "percent"`);
+        }
+        break;
+      case 'premium':
+        if (typeof rule.abovePercent !== 'number') {
+          throw new Error(`${label} needs a numeric "abovePercent"`);
+        }
+        if (
+          rule.referenceAsset === undefined &&
+          rule.referenceFx === undefined &&
+          !rule.referenceValue
+        ) {
+          throw new Error(
+            `${label} needs "referenceAsset", "referenceFx" or "referenceValue"`,
+          );
+        }
+        if (
+          rule.referenceAsset !== undefined &&
+          !this.assetRegistry.get(rule.referenceAsset)
+        ) {
+          throw new Error(
+            `${label} references unknown asset "${rule.referenceAsset}"`,
+          );
+        }
+        break;
+    }
+    return rule;
+  }
+}
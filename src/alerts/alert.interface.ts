@@ -0,0 +1,84 @@
+export const ALERT_RULE_TYPES = ['threshold', 'change', 'premium'] as const;
+
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+interface BaseAlertRule {
+  id: string;
+  asset: string; // Asset id the rule watches
+  channels: string[]; // Channel ids from the alerts config
+  cooldownMinutes?: number; // Defaults to 60
+  enabled?: boolean;
+}
+
+/**
+ * Fires when the value crosses above `above` or below `below`, and again
+ * only after it has been back between the levels.
+ */
+export interface ThresholdAlertRule extends BaseAlertRule {
+  type: 'threshold';
+  above?: number;
+  below?: number;
+}
+
+/** Fires when the value moves more than `percent` since the previous crawl. */
+export interface ChangeAlertRule extends BaseAlertRule {
+  type: 'change';
+  percent: number;
+}
+
+/** Fires when the value trades above a reference by more than `abovePercent`. */
+export interface PremiumAlertRule extends BaseAlertRule {
+  type: 'premium';
+  referenceAsset?: string; // Latest value of another asset, e.g. an official rate
+  referenceFx?: string; // Or a currency converted through FX, e.g. 'USD'
+  referenceValue?: number; // Or a fixed reference
+  abovePercent: number;
+}
+
+export type AlertRule = ThresholdAlertRule | ChangeAlertRule | PremiumAlertRule;
+
+export type AlertRuleOrigin = 'config' | 'api';
+
+export interface StoredAlertRule {
+  rule: AlertRule;
+  origin: AlertRuleOrigin; // Only API rules can be deleted through the API
+}
+
+export const CHANNEL_TYPES = ['telegram', 'email', 'webhook'] as const;
+
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+export interface TelegramChannelConfig {
+  id: string;
+  type: 'telegram';
+  chatId: string;
+  botToken?: string; // Defaults to TELEGRAM_BOT_TOKEN
+}
+
+export interface EmailChannelConfig {
+  id: string;
+  type: 'email';
+  to: string;
+  from?: string; // Defaults to SMTP_FROM
+}
+
+export interface WebhookChannelConfig {
+  id: string;
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type ChannelConfig =
+  | TelegramChannelConfig
+  | EmailChannelConfig
+  | WebhookChannelConfig;
+
+export interface AlertEvent {
+  id: number;
+  ruleId: string;
+  assetId: string;
+  value: number;
+  message: string;
+  firedAt: Date;
+}
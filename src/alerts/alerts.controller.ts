@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../common/api-key.guard';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertsService } from './alerts.service';
+import type { AlertEvent, AlertRule, StoredAlertRule } from './alert.interface';
+import { CreateAlertRuleDto } from './dto/create-alert-rule.dto';
+
+@Controller('alerts')
+export class AlertsController {
+  constructor(
+    private readonly alertRules: AlertRulesService,
+    private readonly alertsService: AlertsService,
+  ) {}
+
+  @Get('rules')
+  getRules(): StoredAlertRule[] {
+    return this.alertRules.list();
+  }
+
+  @Post('rules')
+  @UseGuards(ApiKeyGuard)
+  addRule(@Body() body: CreateAlertRuleDto): AlertRule {
+    try {
+      return this.alertRules.add(body as AlertRule);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  @Delete('rules/:id')
+  @HttpCode(204)
+  @UseGuards(ApiKeyGuard)
+  removeRule(@Param('id') id: string) {
+    if (this.alertRules.isConfigRule(id)) {
+      throw new BadRequestException(
+        `Alert rule "${id}" comes from the alerts config file`,
+      );
+    }
+    if (!this.alertRules.remove(id)) {
+      throw new NotFoundException(`Unknown alert rule "${id}"`);
+    }
+  }
+
+  @Get('events')
+  getEvents(): AlertEvent[] {
+    return this.alertsService.getEvents();
+  }
+}
@@ -0,0 +1,46 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { timedHttpModule } from '../common/timed-http';
+import { DatabaseModule } from '../database/database.module';
+import { AssetsModule } from '../assets/assets.module';
+import { HistoryModule } from '../history/history.module';
+import { DryRunModule } from '../dry-run/dry-run.module';
+import { FxModule } from '../fx/fx.module';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertsService } from './alerts.service';
+import { AlertsController } from './alerts.controller';
+import { NotifierService } from './channels/notifier.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './channels/notification-channel.interface';
+import { TelegramChannel } from './channels/telegram.channel';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+
+const CHANNELS = [TelegramChannel, EmailChannel, WebhookChannel];
+
+@Module({
+  imports: [
+    timedHttpModule(),
+    DatabaseModule,
+    AssetsModule,
+    HistoryModule,
+    DryRunModule,
+    // FX leads back here through sources -> drift
+    forwardRef(() => FxModule),
+  ],
+  controllers: [AlertsController],
+  providers: [
+    ...CHANNELS,
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (...channels: NotificationChannel[]) => channels,
+      inject: CHANNELS,
+    },
+    NotifierService,
+    AlertRulesService,
+    AlertsService,
+  ],
+  exports: [AlertsService, NotifierService, AlertRulesService],
+})
+export class AlertsModule {}
@@ -0,0 +1,135 @@
+import Database from 'better-sqlite3';
+import { AlertsService } from './alerts.service';
+import { AlertRule } from './alert.interface';
+import { AssetConfig } from '../assets/asset.interface';
+
+const USDT: AssetConfig = {
+  id: 'USDT',
+  source: 'binance-price-page',
+  symbol: 'tether',
+  currency: 'VND',
+  schedule: '0 */10 * * * *',
+  sinks: [],
+};
+
+const PREMIUM: AlertRule = {
+  id: 'usdt-premium',
+  type: 'premium',
+  asset: 'USDT',
+  referenceFx: 'USD',
+  abovePercent: 2,
+  channels: ['hook'],
+};
+
+const ABOVE: AlertRule = {
+  id: 'usdt-above',
+  type: 'threshold',
+  asset: 'USDT',
+  above: 27000,
+  channels: ['hook'],
+  cooldownMinutes: 0,
+};
+
+function createService(delivered: number, rules: AlertRule[] = [PREMIUM]) {
+  const db = new Database(':memory:');
+  const notify = jest.fn(() => Promise.resolve(delivered));
+  const convert = jest.fn((amount: number) =>
+    Promise.resolve({ value: amount * 26000 }),
+  );
+  const service = new AlertsService(
+    { db } as never,
+    { forAsset: () => rules, getChannels: () => [] } as never,
+    { notify } as never,
+    { getLatest: () => undefined } as never,
+    { convert } as never,
+  );
+  service.onModuleInit();
+  return { service, notify, convert };
+}
+
+describe('AlertsService', () => {
+  it('compares a premium rule against the FX rate of referenceFx', async () => {
+    const { service, notify, convert } = createService(1);
+
+    await service.evaluate(USDT, 27040);
+
+    expect(convert).toHaveBeenCalledWith(1, 'USD', 'VND');
+    expect(notify).toHaveBeenCalledWith(
+      {
+        title: '[asset-crawler] usdt-premium',
+        text: 'USDT trades at a +4.00% premium over the USD rate (27,040 VND vs 26,000)',
+      },
+      [],
+    );
+    expect(service.getEvents()).toHaveLength(1);
+  });
+
+  it('stays quiet while the premium is within the limit', async () => {
+    const { service, notify } = createService(1);
+
+    await service.evaluate(USDT, 26300);
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('starts the cooldown only after a channel accepted the alert', async () => {
+    const { service, notify } = createService(0);
+
+    await service.evaluate(USDT, 27040);
+    await service.evaluate(USDT, 27040);
+
+    expect(service.getEvents()).toHaveLength(0);
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not notify again during the cooldown', async () => {
+    const { service, notify } = createService(1);
+
+    await service.evaluate(USDT, 27040);
+    await service.evaluate(USDT, 27040);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('fires a threshold rule once per crossing', async () => {
+    const { service, notify } = createService(1, [ABOVE]);
+
+    await service.evaluate(USDT, 27100);
+    await service.evaluate(USDT, 27200);
+    await service.evaluate(USDT, 27300);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith(
+      {
+        title: '[asset-crawler] usdt-above',
+        text: 'USDT is 27,100 VND, above 27,000',
+      },
+      [],
+    );
+  });
+
+  it('fires again after the value went back below the level', async () => {
+    const { service, notify } = createService(1, [ABOVE]);
+
+    await service.evaluate(USDT, 27100);
+    await service.evaluate(USDT, 26900);
+    await service.evaluate(USDT, 27050);
+
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(
+      service
+        .getEvents()
+        .map((event) => event.value)
+        .sort(),
+    ).toEqual([27050, 27100]);
+  });
+
+  it('retries a crossing that reached no channel', async () => {
+    const { service, notify } = createService(0, [ABOVE]);
+
+    await service.evaluate(USDT, 27100);
+    await service.evaluate(USDT, 27200);
+
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+});
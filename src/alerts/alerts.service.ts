@@ -0,0 +1,226 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { PriceHistoryService } from '../history/price-history.service';
+import { FxService } from '../fx/fx.service';
+import { AlertRulesService } from './alert-rules.service';
+import { NotifierService } from './channels/notifier.service';
+import {
+  AlertEvent,
+  AlertRule,
+  PremiumAlertRule,
+  ThresholdAlertRule,
+} from './alert.interface';
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+// Where a value sits relative to a threshold rule's levels
+type ThresholdSide = 'above' | 'below' | 'inside';
+
+interface AlertEventRow {
+  id: number;
+  rule_id: string;
+  asset_id: string;
+  value: number;
+  message: string;
+  fired_at: number;
+}
+
+@Injectable()
+export class AlertsService implements OnModuleInit {
+  private readonly logger = new Logger(AlertsService.name);
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly alertRules: AlertRulesService,
+    private readonly notifier: NotifierService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly fxService: FxService,
+  ) {}
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS alert_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_id TEXT NOT NULL,
+        asset_id TEXT NOT NULL,
+        value REAL NOT NULL,
+        message TEXT NOT NULL,
+        fired_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS alert_events_rule
+        ON alert_events (rule_id, fired_at);
+
+      CREATE TABLE IF NOT EXISTS alert_threshold_sides (
+        rule_id TEXT PRIMARY KEY,
+        side TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Runs after a value has been accepted. `previous` is the value stored
+   * before this crawl. Never throws; notification failures are logged.
+   */
+  async evaluate(asset: AssetConfig, value: number, previous?: number) {
+    for (const rule of this.alertRules.forAsset(asset.id)) {
+      try {
+        const side =
+          rule.type === 'threshold' ? thresholdSide(rule, value) : undefined;
+        const message = await this.check(rule, asset, value, previous);
+        if (!message) {
+          // Back between the levels: the next crossing fires again
+          if (side === 'inside') this.saveSide(rule, side);
+          continue;
+        }
+        if (this.isCoolingDown(rule)) continue;
+
+        this.logger.log(`Alert ${rule.id} fired: ${message}`);
+        const delivered = await this.notifier.notify(
+          { title: `[asset-crawler] ${rule.id}`, text: message },
+          this.alertRules.getChannels(rule.channels),
+        );
+        // The cooldown only starts once someone has actually been told
+        if (delivered === 0) {
+          this.logger.warn(
+            `Alert ${rule.id} reached no channel, retrying on the next crawl`,
+          );
+          continue;
+        }
+        this.recordEvent(rule, value, message);
+        if (side) this.saveSide(rule, side);
+      } catch (error) {
+        this.logger.error(
+          `Failed to evaluate alert ${rule.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  getEvents(limit = 100): AlertEvent[] {
+    const rows = this.database.db
+      .prepare('SELECT * FROM alert_events ORDER BY fired_at DESC LIMIT ?')
+      .all(limit) as AlertEventRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      ruleId: row.rule_id,
+      assetId: row.asset_id,
+      value: row.value,
+      message: row.message,
+      firedAt: new Date(row.fired_at),
+    }));
+  }
+
+  /** Returns the alert message when the rule matches, otherwise null. */
+  private async check(
+    rule: AlertRule,
+    asset: AssetConfig,
+    value: number,
+    previous?: number,
+  ): Promise<string | null> {
+    const price = `${format(value)} ${asset.currency}`;
+
+    switch (rule.type) {
+      case 'threshold': {
+        // Only a crossing fires, not every crawl spent past the level
+        const side = thresholdSide(rule, value);
+        if (side === 'inside' || side === this.lastSide(rule)) return null;
+        return side === 'above'
+          ? `${asset.id} is ${price}, above ${format(rule.above!)}`
+          : `${asset.id} is ${price}, below ${format(rule.below!)}`;
+      }
+
+      case 'change': {
+        if (!previous) return null;
+        const change = ((value - previous) / previous) * 100;
+        if (Math.abs(change) <= rule.percent) return null;
+        return `${asset.id} moved ${signed(change)}% since the last crawl (${format(previous)} → ${price})`;
+      }
+
+      case 'premium': {
+        const reference = await this.reference(rule, asset);
+        if (!reference) return null;
+        const premium = ((value - reference) / reference) * 100;
+        if (premium <= rule.abovePercent) return null;
+        const against =
+          rule.referenceAsset ??
+          (rule.referenceFx
+            ? `the ${rule.referenceFx} rate`
+            : 'the reference rate');
+        return `${asset.id} trades at a ${signed(premium)}% premium over ${against} (${price} vs ${format(reference)})`;
+      }
+    }
+  }
+
+  /** What a premium rule compares against, in the asset's currency. */
+  private async reference(
+    rule: PremiumAlertRule,
+    asset: AssetConfig,
+  ): Promise<number | undefined> {
+    if (rule.referenceAsset) {
+      return this.priceHistory.getLatest(rule.referenceAsset)?.value;
+    }
+    if (rule.referenceFx) {
+      const { value } = await this.fxService.convert(
+        1,
+        rule.referenceFx,
+        asset.currency,
+      );
+      return value;
+    }
+    return rule.referenceValue;
+  }
+
+  private isCoolingDown(rule: AlertRule): boolean {
+    const cooldownMs =
+      (rule.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60 * 1000;
+    const last = this.database.db
+      .prepare(
+        'SELECT MAX(fired_at) AS firedAt FROM alert_events WHERE rule_id = ?',
+      )
+      .get(rule.id) as { firedAt: number | null };
+    return last.firedAt !== null && Date.now() - last.firedAt < cooldownMs;
+  }
+
+  private lastSide(rule: ThresholdAlertRule): ThresholdSide | undefined {
+    const row = this.database.db
+      .prepare('SELECT side FROM alert_threshold_sides WHERE rule_id = ?')
+      .get(rule.id) as { side: ThresholdSide } | undefined;
+    return row?.side;
+  }
+
+  private saveSide(rule: AlertRule, side: ThresholdSide) {
+    this.database.db
+      .prepare(
+        `INSERT INTO alert_threshold_sides (rule_id, side, updated_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (rule_id) DO UPDATE SET
+           side = excluded.side, updated_at = excluded.updated_at`,
+      )
+      .run(rule.id, side, Date.now());
+  }
+
+  private recordEvent(rule: AlertRule, value: number, message: string) {
+    this.database.db
+      .prepare(
+        `INSERT INTO alert_events (rule_id, asset_id, value, message, fired_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(rule.id, rule.asset, value, message, Date.now());
+  }
+}
+
+function thresholdSide(rule: ThresholdAlertRule, value: number): ThresholdSide {
+  if (rule.above !== undefined && value > rule.above) return 'above';
+  if (rule.below !== undefined && value < rule.below) return 'below';
+  return 'inside';
+}
+
+function format(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function signed(percent: number): string {
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}`;
+}
@@ -0,0 +1,16 @@
+import { ChannelConfig, ChannelType } from '../alert.interface';
+
+export interface Notification {
+  title: string;
+  text: string;
+  html?: string; // Richer body for channels that can show it, e.g. email
+}
+
+export interface NotificationChannel<T extends ChannelConfig = ChannelConfig> {
+  readonly type: ChannelType;
+
+  /** Throws when the message could not be delivered. */
+  send(notification: Notification, config: T): Promise<void>;
+}
+
+export const NOTIFICATION_CHANNELS = Symbol('NOTIFICATION_CHANNELS');
@@ -0,0 +1,50 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { DryRunService } from '../../dry-run/dry-run.service';
+import { ChannelConfig, ChannelType } from '../alert.interface';
+import {
+  NOTIFICATION_CHANNELS,
+  Notification,
+  NotificationChannel,
+} from './notification-channel.interface';
+
+@Injectable()
+export class NotifierService {
+  private readonly logger = new Logger(NotifierService.name);
+  private readonly channels = new Map<ChannelType, NotificationChannel>();
+
+  constructor(
+    @Inject(NOTIFICATION_CHANNELS) channels: NotificationChannel[],
+    private readonly dryRun: DryRunService,
+  ) {
+    for (const channel of channels) {
+      this.channels.set(channel.type, channel);
+    }
+  }
+
+  /** Sends to every channel; returns how many accepted the message. */
+  async notify(
+    notification: Notification,
+    configs: ChannelConfig[],
+  ): Promise<number> {
+    let delivered = 0;
+    for (const config of configs) {
+      try {
+        const channel = this.channels.get(config.type);
+        if (!channel) {
+          throw new Error(`No notification channel for "${config.type}"`);
+        }
+        if (this.dryRun.enabled) {
+          await this.dryRun.capture('notification', config.id, notification);
+        } else {
+          await channel.send(notification, config);
+        }
+        delivered++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify ${config.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return delivered;
+  }
+}
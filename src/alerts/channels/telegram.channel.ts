@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { TelegramChannelConfig } from '../alert.interface';
+import {
+  Notification,
+  NotificationChannel,
+} from './notification-channel.interface';
+
+const DEFAULT_TELEGRAM_API_URL = 'https://api.telegram.org';
+
+@Injectable()
+export class TelegramChannel implements NotificationChannel<TelegramChannelConfig> {
+  readonly type = 'telegram';
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(
+    { title, text }: Notification,
+    config: TelegramChannelConfig,
+  ): Promise<void> {
+    const token =
+      config.botToken ?? this.configService.get<string>('TELEGRAM_BOT_TOKEN');
+    if (!token) {
+      throw new Error('TELEGRAM_BOT_TOKEN is not configured');
+    }
+    const baseUrl =
+      this.configService.get<string>('TELEGRAM_API_URL') ??
+      DEFAULT_TELEGRAM_API_URL;
+
+    await firstValueFrom(
+      this.httpService.post(`${baseUrl}/bot${token}/sendMessage`, {
+        chat_id: config.chatId,
+        text: `${title}\n${text}`,
+      }),
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { WebhookChannelConfig } from '../alert.interface';
+import {
+  Notification,
+  NotificationChannel,
+} from './notification-channel.interface';
+
+@Injectable()
+export class WebhookChannel implements NotificationChannel<WebhookChannelConfig> {
+  readonly type = 'webhook';
+
+  constructor(private readonly httpService: HttpService) {}
+
+  async send(
+    notification: Notification,
+    config: WebhookChannelConfig,
+  ): Promise<void> {
+    await firstValueFrom(
+      this.httpService.post(config.url, notification, {
+        headers: config.headers,
+      }),
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+import { ALERT_RULE_TYPES, type AlertRuleType } from '../alert.interface';
+
+export class CreateAlertRuleDto {
+  @Matches(/^[\w.-]+$/, { message: 'id may only use letters, digits, _ . -' })
+  id: string;
+
+  @IsIn(ALERT_RULE_TYPES)
+  type: AlertRuleType;
+
+  @IsString()
+  @IsNotEmpty()
+  asset: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  channels: string[];
+
+  @IsOptional()
+  @IsPositive()
+  cooldownMinutes?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  // threshold
+  @IsOptional()
+  @IsNumber()
+  above?: number;
+
+  @IsOptional()
+  @IsNumber()
+  below?: number;
+
+  // change
+  @IsOptional()
+  @IsPositive()
+  percent?: number;
+
+  // premium
+  @IsOptional()
+  @IsString()
+  referenceAsset?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  referenceFx?: string;
+
+  @IsOptional()
+  @IsPositive()
+  referenceValue?: number;
+
+  @ValidateIf((rule: CreateAlertRuleDto) => rule.type === 'premium')
+  @IsNumber()
+  abovePercent?: number;
+}
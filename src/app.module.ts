@@ -1,20 +1,31 @@
 import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { TasksService } from './tasks/tasks.service';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule } from '@nestjs/config';
-import { HttpModule } from '@nestjs/axios';
+import { validateEnvironment } from './config/env.validation';
+import { AssetsModule } from './assets/assets.module';
+import { TasksModule } from './tasks/tasks.module';
+import { GoldModule } from './gold/gold.module';
+import { HealthModule } from './health/health.module';
+import { SheetSyncModule } from './sheet-sync/sheet-sync.module';
+import { ReportsModule } from './reports/reports.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true, // Makes the env variables available everywhere in your app
+      validate: validateEnvironment, // Fails the boot on invalid variables
     }),
     ScheduleModule.forRoot(),
-    HttpModule,
+    AssetsModule,
+    TasksModule,
+    GoldModule,
+    HealthModule,
+    SheetSyncModule,
+    ReportsModule,
   ],
   controllers: [AppController],
-  providers: [AppService, TasksService],
+  providers: [AppService],
 })
 export class AppModule {}
@@ -0,0 +1,111 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AssetRegistryService } from './asset-registry.service';
+
+const FILE_ASSETS = [
+  {
+    id: 'USDT',
+    source: 'binance-price-page',
+    symbol: 'tether',
+    currency: 'VND',
+    schedule: 'EVERY_10_MINUTES',
+    sinks: [{ type: 'file', path: 'data/usdt.jsonl' }],
+  },
+  {
+    id: 'VCB',
+    source: 'dnse-stock',
+    symbol: 'VCB',
+    currency: 'VND',
+    schedule: 'EVERY_DAY_AT_4PM',
+    sinks: [{ type: 'file', path: 'data/vcb.jsonl' }],
+  },
+];
+
+const SHEET_DEFAULTS = {
+  currency: 'VND',
+  schedule: 'EVERY_HOUR',
+  sinks: [{ type: 'file' as const, path: 'data/sheet.jsonl' }],
+};
+
+describe('AssetRegistryService', () => {
+  let directory: string;
+  let registry: AssetRegistryService;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'assets-'));
+    const path = join(directory, 'assets.json');
+    writeFileSync(path, JSON.stringify({ assets: FILE_ASSETS }));
+    registry = new AssetRegistryService(
+      new ConfigService({ ASSETS_CONFIG_PATH: path }),
+    );
+    registry.onModuleInit();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('applyOverrides', () => {
+    it('applies valid rows and reports the invalid ones', () => {
+      const errors = registry.applyOverrides(
+        [
+          { id: 'VCB', schedule: 'EVERY_DAY_AT_5PM' },
+          { id: 'FPT', source: 'dnse-stock', symbol: 'FPT' },
+          { id: 'BAD', source: 'nowhere' as never, symbol: 'X' },
+          { id: 'USDT', schedule: 'not a schedule' },
+        ],
+        SHEET_DEFAULTS,
+      );
+
+      expect([...errors.keys()]).toEqual(['BAD', 'USDT']);
+      expect(errors.get('BAD')).toContain('unknown source "nowhere"');
+      expect(registry.get('VCB')?.schedule).toBe('0 17 * * *');
+      expect(registry.get('FPT')?.symbol).toBe('FPT');
+      expect(registry.get('USDT')?.schedule).toBe('0 */10 * * * *');
+    });
+
+    it('rejects rows that convert with a rejected row', () => {
+      const errors = registry.applyOverrides(
+        [
+          { id: 'BTC', source: 'binance-ticker', symbol: 'BTCUSDT' },
+          {
+            id: 'BTC_VND',
+            source: 'binance-ticker',
+            symbol: 'BTCUSDT',
+            convertWith: 'USDT_ALT',
+          },
+          { id: 'USDT_ALT', source: 'binance-price-page' },
+          {
+            id: 'PAXG',
+            source: 'binance-ticker',
+            symbol: 'PAXGUSDT',
+            convertWith: 'USDT',
+          },
+        ],
+        SHEET_DEFAULTS,
+      );
+
+      expect(errors.get('USDT_ALT')).toBe(
+        'Asset "USDT_ALT" is missing "symbol"',
+      );
+      expect(errors.get('BTC_VND')).toBe(
+        'Asset "BTC_VND" converts with unknown asset "USDT_ALT"',
+      );
+      expect(registry.getAll().map((asset) => asset.id)).toEqual([
+        'USDT',
+        'VCB',
+        'BTC',
+        'PAXG',
+      ]);
+    });
+
+    it('restores the file entry once its override is gone', () => {
+      registry.applyOverrides([{ id: 'VCB', enabled: false }]);
+      registry.applyOverrides([]);
+
+      expect(registry.get('VCB')?.enabled).toBeUndefined();
+    });
+  });
+});
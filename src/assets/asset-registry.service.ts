@@ -0,0 +1,251 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  ASSET_SOURCE_TYPES,
+  AssetConfig,
+  SINK_TYPES,
+  SinkTarget,
+} from './asset.interface';
+import { isWeightUnit } from '../units/price-unit';
+import { EXCHANGES } from '../calendar/trading-calendar.interface';
+import { resolveSchedule } from './schedule';
+
+const DEFAULT_ASSETS_CONFIG_PATH = 'config/assets.json';
+
+const REQUIRED_SINK_FIELDS: Record<SinkTarget['type'], string[]> = {
+  'google-sheets': ['sheet', 'cell'],
+  file: ['path'],
+  webhook: ['url'],
+  influxdb: ['url', 'org', 'bucket'],
+};
+
+@Injectable()
+export class AssetRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(AssetRegistryService.name);
+  private assets: AssetConfig[] = [];
+  private entries: Partial<AssetConfig>[] = []; // As read from the config file
+  private defaultSinks: SinkTarget[] = [];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    const path = resolve(
+      this.configService.get<string>('ASSETS_CONFIG_PATH') ??
+        DEFAULT_ASSETS_CONFIG_PATH,
+    );
+    const raw = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+    this.parse(raw);
+    this.assets = this.build(this.entries);
+    this.logger.log(`Loaded ${this.assets.length} assets from ${path}`);
+  }
+
+  /**
+   * Layers entries from another place (the spreadsheet's Crawler tab) over
+   * the config file: an entry with a known id replaces the fields it sets,
+   * an unknown id adds an asset on top of `defaults`. Each call starts
+   * again from the file, so dropping an override restores the file's
+   * asset. Invalid entries are skipped and returned by id with the reason.
+   */
+  applyOverrides(
+    overrides: Partial<AssetConfig>[],
+    defaults: Partial<AssetConfig> = {},
+  ): Map<string, string> {
+    const errors = new Map<string, string>();
+    const accepted = new Map<string, Partial<AssetConfig>>();
+
+    overrides.forEach((override, index) => {
+      const base = this.entries.find((entry) => entry.id === override.id);
+      const candidate = base
+        ? { ...base, ...override }
+        : { ...defaults, ...override };
+      try {
+        this.parseAsset(candidate, index, this.defaultSinks);
+        accepted.set(String(candidate.id), candidate);
+      } catch (error) {
+        errors.set(
+          String(override.id),
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    });
+
+    // Rejecting one entry can strand another that converts with it, so
+    // repeat until every convertWith resolves
+    let merged = this.merge(accepted);
+    for (;;) {
+      const ids = new Set(merged.map((entry) => entry.id));
+      const stranded = [...accepted.values()].filter(
+        (entry) => entry.convertWith && !ids.has(entry.convertWith),
+      );
+      if (stranded.length === 0) break;
+      for (const entry of stranded) {
+        errors.set(
+          String(entry.id),
+          `Asset "${entry.id}" converts with unknown asset "${entry.convertWith}"`,
+        );
+        accepted.delete(String(entry.id));
+      }
+      merged = this.merge(accepted);
+    }
+
+    this.assets = this.build(merged);
+    return errors;
+  }
+
+  getAll(): AssetConfig[] {
+    return this.assets;
+  }
+
+  getEnabled(): AssetConfig[] {
+    return this.assets.filter((asset) => asset.enabled !== false);
+  }
+
+  get(id: string): AssetConfig | undefined {
+    return this.assets.find((asset) => asset.id === id);
+  }
+
+  // File entries with their overrides applied, then the new assets
+  private merge(
+    overrides: Map<string, Partial<AssetConfig>>,
+  ): Partial<AssetConfig>[] {
+    const fileIds = new Set(this.entries.map((entry) => entry.id));
+    return [
+      ...this.entries.map((entry) => overrides.get(String(entry.id)) ?? entry),
+      ...[...overrides.values()].filter((entry) => !fileIds.has(entry.id)),
+    ];
+  }
+
+  private parse(raw: unknown) {
+    const list =
+      raw && typeof raw === 'object' && 'assets' in raw ? raw.assets : raw;
+    if (!Array.isArray(list)) {
+      throw new Error('Asset config must be an array or { "assets": [...] }');
+    }
+
+    // Sinks every asset writes to on top of its own, e.g. a JSONL log
+    const defaultSinks =
+      raw && typeof raw === 'object' && 'defaultSinks' in raw
+        ? (raw.defaultSinks as SinkTarget[])
+        : [];
+    defaultSinks.forEach((sink, index) =>
+      this.checkSink(sink, `defaultSinks[${index}]`),
+    );
+
+    this.entries = list as Partial<AssetConfig>[];
+    this.defaultSinks = defaultSinks;
+  }
+
+  private build(entries: Partial<AssetConfig>[]): AssetConfig[] {
+    const assets = entries.map((entry, index) =>
+      this.parseAsset(entry, index, this.defaultSinks),
+    );
+
+    const ids = new Set<string>();
+    for (const asset of assets) {
+      if (ids.has(asset.id)) {
+        throw new Error(`Duplicate asset id "${asset.id}" in asset config`);
+      }
+      ids.add(asset.id);
+    }
+    for (const asset of assets) {
+      if (asset.convertWith && !ids.has(asset.convertWith)) {
+        throw new Error(
+          `Asset "${asset.id}" converts with unknown asset "${asset.convertWith}"`,
+        );
+      }
+    }
+
+    return assets;
+  }
+
+  private parseAsset(
+    entry: Partial<AssetConfig>,
+    index: number,
+    defaultSinks: SinkTarget[],
+  ): AssetConfig {
+    const label = entry?.id ? `"${entry.id}"` : `#${index}`;
+    const required = ['id', 'source', 'symbol', 'currency', 'schedule'];
+    for (const key of required) {
+      if (typeof entry?.[key] !== 'string' || !entry[key]) {
+        throw new Error(`Asset ${label} is missing "${key}"`);
+      }
+    }
+    if (!ASSET_SOURCE_TYPES.includes(entry.source!)) {
+      throw new Error(
+        `Asset ${label} has unknown source "${entry.source}", expected one of ${ASSET_SOURCE_TYPES.join(', ')}`,
+      );
+    }
+    if (entry.per !== undefined && !isWeightUnit(entry.per)) {
+      throw new Error(
+        `Asset ${label} has unknown weight unit "${String(entry.per)}"`,
+      );
+    }
+    if (entry.exchange !== undefined && !EXCHANGES.includes(entry.exchange)) {
+      throw new Error(
+        `Asset ${label} has unknown exchange "${String(entry.exchange)}", expected one of ${EXCHANGES.join(', ')}`,
+      );
+    }
+    if (entry.intradaySchedule && !entry.exchange) {
+      throw new Error(`Asset ${label} needs "exchange" for "intradaySchedule"`);
+    }
+    if (entry.target && (!entry.target.sheet || !entry.target.cell)) {
+      throw new Error(`Asset ${label} is missing "target.sheet"/"target.cell"`);
+    }
+    const sinks: SinkTarget[] = [
+      ...(entry.target
+        ? [{ type: 'google-sheets' as const, ...entry.target }]
+        : []),
+      ...(entry.sinks ?? []),
+      ...defaultSinks,
+    ];
+    sinks.forEach((sink, i) =>
+      this.checkSink(sink, `Asset ${label} sinks[${i}]`),
+    );
+    if (sinks.length === 0) {
+      throw new Error(`Asset ${label} has neither "target" nor "sinks"`);
+    }
+    for (const [key, bound] of Object.entries(entry.validation ?? {})) {
+      if (typeof bound !== 'number' || !Number.isFinite(bound)) {
+        throw new Error(`Asset ${label} has non-numeric "validation.${key}"`);
+      }
+    }
+
+    try {
+      return {
+        ...(entry as AssetConfig),
+        sinks,
+        schedule: resolveSchedule(entry.schedule!),
+        intradaySchedule:
+          entry.intradaySchedule && resolveSchedule(entry.intradaySchedule),
+      };
+    } catch (error) {
+      throw new Error(
+        `Asset ${label}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private checkSink(sink: SinkTarget, label: string) {
+    if (!SINK_TYPES.includes(sink?.type)) {
+      throw new Error(
+        `${label} has unknown type "${sink?.type}", expected one of ${SINK_TYPES.join(', ')}`,
+      );
+    }
+    for (const field of REQUIRED_SINK_FIELDS[sink.type]) {
+      if (!sink[field]) {
+        throw new Error(`${label} (${sink.type}) is missing "${field}"`);
+      }
+    }
+    if (
+      sink.type === 'google-sheets' &&
+      !sink.spreadsheetId &&
+      !this.configService.get<string>('SPREADSHEET_ID')
+    ) {
+      throw new Error(
+        `${label} has no "spreadsheetId" and SPREADSHEET_ID is not set`,
+      );
+    }
+  }
+}
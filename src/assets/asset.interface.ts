@@ -0,0 +1,84 @@
+import { WeightUnit } from '../units/price-unit';
+import { Exchange } from '../calendar/trading-calendar.interface';
+
+export const ASSET_SOURCE_TYPES = [
+  'dnse-stock', // DNSE (Entrade) chart API, daily close
+  'binance-ticker', // Binance REST ticker, e.g. BTCUSDT
+  'doji-gold', // giavang.org DOJI page
+  'binance-price-page', // Binance price page, e.g. tether/VND
+  'html-recipe', // Any recipe in config/recipes.json
+] as const;
+
+export type AssetSourceType = (typeof ASSET_SOURCE_TYPES)[number];
+
+export interface SheetTarget {
+  spreadsheetId?: string; // Defaults to SPREADSHEET_ID
+  sheet: string; // Tab name, e.g. 'Detail'
+  cell: string; // A1 notation, e.g. 'E19'
+}
+
+export const SINK_TYPES = [
+  'google-sheets',
+  'file', // CSV or JSONL append log
+  'webhook', // POSTs the price as JSON
+  'influxdb', // InfluxDB v2 line protocol write API
+] as const;
+
+export type SinkType = (typeof SINK_TYPES)[number];
+
+export interface GoogleSheetsSinkTarget extends SheetTarget {
+  type: 'google-sheets';
+}
+
+export interface FileSinkTarget {
+  type: 'file';
+  path: string;
+  format?: 'csv' | 'jsonl'; // Defaults to jsonl
+}
+
+export interface WebhookSinkTarget {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface InfluxSinkTarget {
+  type: 'influxdb';
+  url: string; // e.g. http://localhost:8086
+  org: string;
+  bucket: string;
+  measurement?: string; // Defaults to asset_price
+  token?: string; // Defaults to INFLUX_TOKEN
+}
+
+export type SinkTarget =
+  | GoogleSheetsSinkTarget
+  | FileSinkTarget
+  | WebhookSinkTarget
+  | InfluxSinkTarget;
+
+export interface PriceBounds {
+  min?: number;
+  max?: number;
+  maxChangePercent?: number; // Versus the last accepted value, however old
+}
+
+export interface AssetConfig {
+  id: string;
+  name?: string;
+  source: AssetSourceType;
+  symbol: string; // Symbol understood by the source (VCB, BTCUSDT, tether, ...)
+  currency: string; // Currency the value is written in
+  per?: WeightUnit; // Weight the value is written per, e.g. chỉ for gold
+  convertWith?: string; // Id of another asset whose price is multiplied in (e.g. USDT -> VND)
+  schedule: string; // Cron expression or a CronExpression key such as EVERY_10_MINUTES
+  exchange?: Exchange; // Skips scheduled crawls when the exchange is closed
+  intradaySchedule?: string; // Extra polling, only while the exchange is in session
+  target?: SheetTarget; // Shorthand for a google-sheets sink
+  sinks: SinkTarget[]; // Every destination, including the target cell
+  validation?: PriceBounds;
+  enabled?: boolean;
+}
+
+// What GET /assets shows; sinks carry tokens and headers, so they stay out
+export type PublicAsset = Omit<AssetConfig, 'target' | 'sinks'>;
@@ -0,0 +1,123 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Server } from 'http';
+import request from 'supertest';
+import { AssetsController } from './assets.controller';
+import { AssetRegistryService } from './asset-registry.service';
+import { AssetConfig } from './asset.interface';
+import { PriceHistoryService } from '../history/price-history.service';
+import { QuarantineService } from '../validation/quarantine.service';
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  target: { sheet: 'Detail', cell: 'E19' },
+  sinks: [{ type: 'webhook', url: 'https://hooks.example/secret-token' }],
+};
+
+describe('AssetsController', () => {
+  let app: INestApplication;
+  let server: Server;
+  const priceHistory = {
+    getLatest: jest.fn(),
+    getHistory: jest.fn(() => []),
+    getDailyOhlc: jest.fn(() => []),
+  };
+  const quarantine = { list: jest.fn(() => []) };
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AssetsController],
+      providers: [
+        {
+          provide: AssetRegistryService,
+          useValue: {
+            getAll: () => [VCB],
+            get: (id: string) => (id === 'VCB' ? VCB : undefined),
+          },
+        },
+        { provide: PriceHistoryService, useValue: priceHistory },
+        { provide: QuarantineService, useValue: quarantine },
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalPipes(
+      new ValidationPipe({ transform: true, whitelist: true }),
+    );
+    await app.init();
+    server = app.getHttpServer() as Server;
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('lists assets without their sheet target or sinks', async () => {
+    const response = await request(server).get('/assets').expect(200);
+
+    expect(response.body).toEqual([
+      {
+        id: 'VCB',
+        source: 'dnse-stock',
+        symbol: 'VCB',
+        currency: 'VND',
+        schedule: '0 0 16 * * *',
+      },
+    ]);
+  });
+
+  it('returns the latest price of an asset', async () => {
+    priceHistory.getLatest.mockReturnValue({ assetId: 'VCB', value: 64600 });
+
+    const response = await request(server).get('/assets/VCB/price').expect(200);
+
+    expect(response.body).toEqual({ assetId: 'VCB', value: 64600 });
+    expect(priceHistory.getLatest).toHaveBeenCalledWith('VCB');
+  });
+
+  it('answers 404 for an unknown asset or one without a price yet', async () => {
+    priceHistory.getLatest.mockReturnValue(undefined);
+
+    await request(server).get('/assets/FPT/price').expect(404);
+    const response = await request(server).get('/assets/VCB/price').expect(404);
+
+    expect((response.body as { message: string }).message).toBe(
+      'No price recorded for asset "VCB" yet',
+    );
+  });
+
+  it('returns raw history by default and daily bars for interval=1d', async () => {
+    await request(server)
+      .get('/assets/VCB/history?from=2025-10-01&to=2025-10-31')
+      .expect(200);
+    await request(server).get('/assets/VCB/history?interval=1d').expect(200);
+
+    expect(priceHistory.getHistory).toHaveBeenCalledWith('VCB', {
+      from: new Date('2025-10-01'),
+      to: new Date('2025-10-31'),
+    });
+    expect(priceHistory.getDailyOhlc).toHaveBeenCalledWith('VCB', {
+      from: undefined,
+      to: undefined,
+    });
+  });
+
+  it('rejects a reversed range, a bad date or an unknown interval', async () => {
+    await request(server)
+      .get('/assets/VCB/history?from=2025-10-31&to=2025-10-01')
+      .expect(400);
+    await request(server).get('/assets/VCB/history?from=yesterday').expect(400);
+    await request(server).get('/assets/VCB/history?interval=1h').expect(400);
+
+    expect(priceHistory.getHistory).not.toHaveBeenCalled();
+  });
+
+  it('lists quarantined quotes of an asset', async () => {
+    await request(server).get('/assets/VCB/quarantine').expect(200);
+
+    expect(quarantine.list).toHaveBeenCalledWith('VCB');
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { AssetRegistryService } from './asset-registry.service';
+import type { AssetConfig, PublicAsset } from './asset.interface';
+import { HistoryQueryDto } from './dto/history-query.dto';
+import { PriceHistoryService } from '../history/price-history.service';
+import type { OhlcBar, QuoteRecord } from '../history/price-history.interface';
+import { QuarantineService } from '../validation/quarantine.service';
+import type { QuarantinedQuote } from '../validation/quarantine.interface';
+
+@Controller('assets')
+export class AssetsController {
+  constructor(
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly quarantine: QuarantineService,
+  ) {}
+
+  @Get()
+  getAssets(): PublicAsset[] {
+    return this.assetRegistry.getAll().map(toPublicAsset);
+  }
+
+  @Get(':id/price')
+  getPrice(@Param('id') id: string): QuoteRecord {
+    const asset = this.getAsset(id);
+    const latest = this.priceHistory.getLatest(asset.id);
+    if (!latest) {
+      throw new NotFoundException(`No price recorded for asset "${id}" yet`);
+    }
+    return latest;
+  }
+
+  @Get(':id/history')
+  getHistory(
+    @Param('id') id: string,
+    @Query() query: HistoryQueryDto,
+  ): QuoteRecord[] | OhlcBar[] {
+    const asset = this.getAsset(id);
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestException('"from" must not be after "to"');
+    }
+
+    const range = { from: query.from, to: query.to };
+    return query.interval === '1d'
+      ? this.priceHistory.getDailyOhlc(asset.id, range)
+      : this.priceHistory.getHistory(asset.id, range);
+  }
+
+  @Get(':id/quarantine')
+  getQuarantine(@Param('id') id: string): QuarantinedQuote[] {
+    return this.quarantine.list(this.getAsset(id).id);
+  }
+
+  private getAsset(id: string): AssetConfig {
+    const asset = this.assetRegistry.get(id);
+    if (!asset) {
+      throw new NotFoundException(`Unknown asset "${id}"`);
+    }
+    return asset;
+  }
+}
+
+function toPublicAsset(asset: AssetConfig): PublicAsset {
+  const visible: Partial<AssetConfig> = { ...asset };
+  delete visible.target;
+  delete visible.sinks;
+  return visible as PublicAsset;
+}
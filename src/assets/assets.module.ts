@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { HistoryModule } from '../history/history.module';
+import { ValidationModule } from '../validation/validation.module';
+import { AssetRegistryService } from './asset-registry.service';
+import { AssetsController } from './assets.controller';
+
+@Module({
+  imports: [HistoryModule, ValidationModule],
+  controllers: [AssetsController],
+  providers: [AssetRegistryService],
+  exports: [AssetRegistryService],
+})
+export class AssetsModule {}
@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsIn, IsOptional } from 'class-validator';
+
+export const HISTORY_INTERVALS = ['raw', '1d'] as const;
+
+export type HistoryInterval = (typeof HISTORY_INTERVALS)[number];
+
+export class HistoryQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  // 'raw' returns every stored quote, '1d' rolls them up into daily OHLC bars
+  @IsOptional()
+  @IsIn(HISTORY_INTERVALS)
+  interval: HistoryInterval = 'raw';
+}
@@ -0,0 +1,20 @@
+import { CronExpression } from '@nestjs/schedule';
+import { validateCronExpression } from 'cron';
+
+/**
+ * Resolves a schedule from config or the API into a cron expression.
+ * Accepts the readable CronExpression keys (EVERY_10_MINUTES, ...) and
+ * throws when the result is not a valid cron expression.
+ */
+export function resolveSchedule(schedule: string): string {
+  const expression =
+    schedule in CronExpression
+      ? CronExpression[schedule as keyof typeof CronExpression]
+      : schedule;
+
+  const { valid, error } = validateCronExpression(expression);
+  if (!valid) {
+    throw new Error(`Invalid schedule "${schedule}": ${error?.message}`);
+  }
+  return expression;
+}
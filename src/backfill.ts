@@ -0,0 +1,62 @@
+import { ConsoleLogger, Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { parseArgs } from 'util';
+import { BackfillModule } from './backfill/backfill.module';
+import { BackfillService } from './backfill/backfill.service';
+
+const USAGE =
+  'Usage: npm run backfill -- --asset VCB [--asset BTC] --from 2024-01-01 [--to 2024-12-31] [--restart]';
+
+async function backfill() {
+  process.env.TZ = 'Asia/Ho_Chi_Minh';
+  const logger = new Logger('Backfill');
+
+  const { values } = parseArgs({
+    options: {
+      asset: { type: 'string', multiple: true },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      restart: { type: 'boolean', default: false },
+    },
+  });
+  const assets = (values.asset ?? []).flatMap((id) => id.split(','));
+  const from = values.from ? new Date(values.from) : undefined;
+  const to = values.to ? new Date(values.to) : undefined;
+  if (
+    assets.length === 0 ||
+    !from ||
+    isNaN(from.getTime()) ||
+    (to && isNaN(to.getTime()))
+  ) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(BackfillModule, {
+    logger: new ConsoleLogger({ json: process.env.LOG_FORMAT === 'json' }),
+  });
+  app.enableShutdownHooks();
+  try {
+    const service = app.get(BackfillService);
+    for (const assetId of assets) {
+      try {
+        const result = await service.backfill(assetId, from, {
+          to,
+          restart: values.restart,
+        });
+        logger.log(
+          `${assetId}: done, ${result.candles} candles in ${result.pages} pages`,
+        );
+      } catch (error) {
+        logger.error(
+          `${assetId}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    await app.close();
+  }
+}
+void backfill();
@@ -0,0 +1,11 @@
+export interface BackfillOptions {
+  to?: Date; // Defaults to now
+  restart?: boolean; // Ignore a saved checkpoint and start again at `from`
+}
+
+export interface BackfillResult {
+  assetId: string;
+  pages: number;
+  candles: number;
+  resumedFrom?: Date; // Set when an interrupted run was picked up
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { validateEnvironment } from '../config/env.validation';
+import { DatabaseModule } from '../database/database.module';
+import { AssetsModule } from '../assets/assets.module';
+import { SourcesModule } from '../sources/sources.module';
+import { HistoryModule } from '../history/history.module';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { FxModule } from '../fx/fx.module';
+import { BackfillService } from './backfill.service';
+
+// Standalone context for the backfill command; no crawlers or HTTP server.
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true, validate: validateEnvironment }),
+    DatabaseModule,
+    AssetsModule,
+    SourcesModule,
+    HistoryModule,
+    ResilienceModule,
+    FxModule,
+  ],
+  providers: [BackfillService],
+})
+export class BackfillModule {}
@@ -0,0 +1,186 @@
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { BackfillService } from './backfill.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { PriceHistoryService } from '../history/price-history.service';
+import { ResilienceService } from '../resilience/resilience.service';
+import { Candle } from '../sources/price-source.interface';
+import { sleep } from '../common/sleep';
+
+jest.mock('../common/sleep', () => ({
+  sleep: jest.fn(() => Promise.resolve()),
+}));
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  sinks: [],
+};
+const BTC: AssetConfig = {
+  id: 'BTC',
+  source: 'binance-ticker',
+  symbol: 'BTCUSDT',
+  currency: 'VND',
+  convertWith: 'USDT',
+  schedule: '0 */5 * * * *',
+  sinks: [],
+};
+const NEWS: AssetConfig = { ...VCB, id: 'NEWS', source: 'html-recipe' };
+
+// Local days, so each candle keeps its date in any time zone
+const day = (date: number, hours = 0) => new Date(2025, 9, date, hours);
+
+// One candle at noon for every day in [from, to), closing at the day number
+function candlesBetween(from: Date, to: Date): Candle[] {
+  const candles: Candle[] = [];
+  for (let at = new Date(from); at < to; at.setDate(at.getDate() + 1)) {
+    const close = at.getDate();
+    const time = new Date(at);
+    time.setHours(12);
+    candles.push({ time, open: close, high: close, low: close, close });
+  }
+  return candles;
+}
+
+function createService() {
+  const database = { db: new Database(':memory:') };
+  const history = new PriceHistoryService(database as never);
+  history.onModuleInit();
+  const fetchCandles = jest.fn((_symbol: string, from: Date, to: Date) =>
+    Promise.resolve({ currency: 'VND', candles: candlesBetween(from, to) }),
+  );
+  const sources: Record<string, object> = {
+    'dnse-stock': { historyPageDays: 2, fetchCandles },
+    'binance-ticker': {
+      historyPageDays: 1000,
+      fetchCandles: jest.fn((_symbol: string, from: Date, to: Date) =>
+        Promise.resolve({
+          currency: 'USDT',
+          candles: candlesBetween(from, to),
+        }),
+      ),
+    },
+    'html-recipe': {},
+  };
+  const assets = new Map([VCB, BTC, NEWS].map((asset) => [asset.id, asset]));
+  const fxService = {
+    convert: jest.fn(() => Promise.resolve({ rate: 26000 })),
+  };
+  const config = new ConfigService({
+    RETRY_MAX_ATTEMPTS: '1',
+    BACKFILL_PAGE_DELAY_MS: '0',
+  });
+
+  const service = new BackfillService(
+    config,
+    database as never,
+    { get: (id: string) => assets.get(id) } as never,
+    { get: (type: string) => sources[type] } as never,
+    history,
+    new ResilienceService(config),
+    fxService as never,
+  );
+  service.onModuleInit();
+  return {
+    service,
+    history,
+    fxService,
+    fetchCandles,
+  };
+}
+
+describe('BackfillService', () => {
+  beforeEach(() => jest.mocked(sleep).mockClear());
+
+  it('pages through the range and stores every candle', async () => {
+    const { service, history, fetchCandles } = createService();
+
+    const result = await service.backfill('VCB', day(1), { to: day(6) });
+
+    expect(result).toEqual({ assetId: 'VCB', pages: 3, candles: 5 });
+    expect(fetchCandles.mock.calls.map((call) => call.slice(1, 3))).toEqual([
+      [day(1), day(3)],
+      [day(3), day(5)],
+      [day(5), day(6)],
+    ]);
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(history.getDailyOhlc('VCB').map((bar) => bar.close)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it('resumes an interrupted run from its checkpoint', async () => {
+    const { service, fetchCandles } = createService();
+    fetchCandles
+      .mockImplementationOnce((_symbol: string, from: Date, to: Date) =>
+        Promise.resolve({ currency: 'VND', candles: candlesBetween(from, to) }),
+      )
+      .mockRejectedValueOnce(new Error('Request failed with status code 404'));
+
+    await expect(
+      service.backfill('VCB', day(1), { to: day(6) }),
+    ).rejects.toThrow('Request failed with status code 404');
+    const result = await service.backfill('VCB', day(1), { to: day(6) });
+
+    expect(result).toEqual({
+      assetId: 'VCB',
+      pages: 3,
+      candles: 5,
+      resumedFrom: day(3),
+    });
+    expect(fetchCandles.mock.calls[2][1]).toEqual(day(3));
+  });
+
+  it('starts again at "from" on restart', async () => {
+    const { service, fetchCandles } = createService();
+    fetchCandles
+      .mockImplementationOnce((_symbol: string, from: Date, to: Date) =>
+        Promise.resolve({ currency: 'VND', candles: candlesBetween(from, to) }),
+      )
+      .mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(
+      service.backfill('VCB', day(1), { to: day(6) }),
+    ).rejects.toThrow();
+
+    const result = await service.backfill('VCB', day(1), {
+      to: day(6),
+      restart: true,
+    });
+
+    expect(result.resumedFrom).toBeUndefined();
+    expect(result.pages).toBe(3);
+  });
+
+  it('converts with the historical close and falls back to FX', async () => {
+    const { service, history, fxService } = createService();
+    history.upsertCandles('USDT', 'binance-price-page', [
+      { time: day(1, 12), open: 1, high: 1, low: 1, close: 26400 },
+    ]);
+
+    await service.backfill('BTC', day(1), { to: day(3) });
+
+    expect(history.getDailyOhlc('BTC').map((bar) => bar.close)).toEqual([
+      1 * 26400,
+      2 * 26000,
+    ]);
+    expect(fxService.convert).toHaveBeenCalledTimes(1);
+    expect(fxService.convert).toHaveBeenCalledWith(1, 'USDT', 'VND');
+  });
+
+  it('rejects unknown assets, sources without history and empty ranges', async () => {
+    const { service } = createService();
+
+    await expect(service.backfill('FPT', day(1))).rejects.toThrow(
+      'Unknown asset "FPT"',
+    );
+    await expect(service.backfill('NEWS', day(1))).rejects.toThrow(
+      'html-recipe has no candle history to backfill',
+    );
+    await expect(
+      service.backfill('VCB', day(6), { to: day(1) }),
+    ).rejects.toThrow('"from" must be before "to"');
+  });
+});
@@ -0,0 +1,230 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { PriceSourceRegistry } from '../sources/price-source.registry';
+import { Candle } from '../sources/price-source.interface';
+import { PriceHistoryService } from '../history/price-history.service';
+import { ResilienceService } from '../resilience/resilience.service';
+import { FxService } from '../fx/fx.service';
+import { sleep } from '../common/sleep';
+import { toDateKey } from '../common/date-key';
+import { BackfillOptions, BackfillResult } from './backfill.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CheckpointRow {
+  next_from: number;
+  candles: number;
+  pages: number;
+}
+
+/**
+ * Pages through a source's daily candles and upserts them into the history
+ * store. Progress is checkpointed after every page, so an interrupted run
+ * with the same asset and start date picks up where it stopped.
+ */
+@Injectable()
+export class BackfillService implements OnModuleInit {
+  private readonly logger = new Logger(BackfillService.name);
+  private readonly pageDelayMs: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly database: DatabaseService,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly priceSources: PriceSourceRegistry,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly resilience: ResilienceService,
+    private readonly fxService: FxService,
+  ) {
+    this.pageDelayMs = Number(
+      configService.get<string>('BACKFILL_PAGE_DELAY_MS') ?? 1000,
+    );
+  }
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS backfill_checkpoints (
+        asset_id TEXT NOT NULL,
+        range_from INTEGER NOT NULL,
+        next_from INTEGER NOT NULL,
+        pages INTEGER NOT NULL,
+        candles INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (asset_id, range_from)
+      );
+    `);
+  }
+
+  async backfill(
+    assetId: string,
+    from: Date,
+    options: BackfillOptions = {},
+  ): Promise<BackfillResult> {
+    const asset = this.assetRegistry.get(assetId);
+    if (!asset) {
+      throw new Error(`Unknown asset "${assetId}"`);
+    }
+    const source = this.priceSources.get(asset.source);
+    if (!source.fetchCandles || !source.historyPageDays) {
+      throw new Error(`${asset.source} has no candle history to backfill`);
+    }
+    const to = options.to ?? new Date();
+    if (from >= to) {
+      throw new Error('"from" must be before "to"');
+    }
+
+    if (options.restart) {
+      this.clearCheckpoint(asset.id, from);
+    }
+    const checkpoint = this.getCheckpoint(asset.id, from);
+    const result: BackfillResult = {
+      assetId: asset.id,
+      pages: checkpoint?.pages ?? 0,
+      candles: checkpoint?.candles ?? 0,
+    };
+    let cursor = from;
+    if (checkpoint) {
+      cursor = new Date(checkpoint.next_from);
+      result.resumedFrom = cursor;
+      this.logger.log(
+        `Resuming ${asset.id} backfill at ${toDateKey(cursor)} (${result.candles} candles so far)`,
+      );
+    }
+
+    const totalMs = to.getTime() - from.getTime();
+    while (cursor < to) {
+      const pageEnd = new Date(
+        Math.min(
+          cursor.getTime() + source.historyPageDays * DAY_MS,
+          to.getTime(),
+        ),
+      );
+      const { value: page } = await this.resilience.execute(
+        `backfill:${asset.source}`,
+        (signal) => source.fetchCandles!(asset.symbol, cursor, pageEnd, signal),
+      );
+      const candles = await this.toAssetCurrency(
+        asset,
+        page.currency,
+        page.candles,
+      );
+      this.priceHistory.upsertCandles(asset.id, asset.source, candles);
+
+      result.pages++;
+      result.candles += candles.length;
+      cursor = pageEnd;
+      this.saveCheckpoint(asset.id, from, cursor, result);
+
+      const done = ((cursor.getTime() - from.getTime()) / totalMs) * 100;
+      this.logger.log(
+        `${asset.id}: ${candles.length} candles up to ${toDateKey(cursor)} (${done.toFixed(0)}%, ${result.candles} total)`,
+      );
+      if (cursor < to) {
+        await sleep(this.pageDelayMs);
+      }
+    }
+
+    this.clearCheckpoint(asset.id, from);
+    return result;
+  }
+
+  /**
+   * Converts candles quoted in another currency (BTC in USDT) the way the
+   * crawler converts quotes: with the `convertWith` asset's close for that
+   * day when history has it, otherwise today's FX rate.
+   */
+  private async toAssetCurrency(
+    asset: AssetConfig,
+    currency: string,
+    candles: Candle[],
+  ): Promise<Candle[]> {
+    if (currency === asset.currency || candles.length === 0) {
+      return candles;
+    }
+
+    const closes = new Map<string, number>();
+    if (asset.convertWith) {
+      const bars = this.priceHistory.getDailyOhlc(asset.convertWith, {
+        from: candles[0].time,
+        to: new Date(candles[candles.length - 1].time.getTime() + DAY_MS),
+      });
+      bars.forEach((bar) => closes.set(bar.date, bar.close));
+    }
+
+    let fallbackRate: number | undefined;
+    let fallbackDays = 0;
+    const converted: Candle[] = [];
+    for (const candle of candles) {
+      let rate = closes.get(toDateKey(candle.time));
+      if (rate === undefined) {
+        fallbackRate ??= (
+          await this.fxService.convert(1, currency, asset.currency)
+        ).rate;
+        rate = fallbackRate;
+        fallbackDays++;
+      }
+      converted.push({
+        ...candle,
+        open: candle.open * rate,
+        high: candle.high * rate,
+        low: candle.low * rate,
+        close: candle.close * rate,
+      });
+    }
+
+    if (fallbackDays > 0) {
+      this.logger.warn(
+        `${asset.id}: converted ${fallbackDays}/${candles.length} days from ${currency} at today's rate, no historical ${asset.convertWith ?? 'rate'} close`,
+      );
+    }
+    return converted;
+  }
+
+  private getCheckpoint(
+    assetId: string,
+    from: Date,
+  ): CheckpointRow | undefined {
+    return this.database.db
+      .prepare(
+        `SELECT next_from, pages, candles FROM backfill_checkpoints
+         WHERE asset_id = ? AND range_from = ?`,
+      )
+      .get(assetId, from.getTime()) as CheckpointRow | undefined;
+  }
+
+  private saveCheckpoint(
+    assetId: string,
+    from: Date,
+    next: Date,
+    progress: BackfillResult,
+  ) {
+    this.database.db
+      .prepare(
+        `INSERT INTO backfill_checkpoints
+           (asset_id, range_from, next_from, pages, candles, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (asset_id, range_from) DO UPDATE SET
+           next_from = excluded.next_from, pages = excluded.pages,
+           candles = excluded.candles, updated_at = excluded.updated_at`,
+      )
+      .run(
+        assetId,
+        from.getTime(),
+        next.getTime(),
+        progress.pages,
+        progress.candles,
+        Date.now(),
+      );
+  }
+
+  private clearCheckpoint(assetId: string, from: Date) {
+    this.database.db
+      .prepare(
+        'DELETE FROM backfill_checkpoints WHERE asset_id = ? AND range_from = ?',
+      )
+      .run(assetId, from.getTime());
+  }
+}
@@ -0,0 +1,206 @@
+import { ConfigService } from '@nestjs/config';
+import { BrowserPoolService, DEFAULT_USER_AGENT } from './browser-pool.service';
+
+const mockLaunch = jest.fn();
+
+jest.mock('puppeteer', () => ({
+  __esModule: true,
+  default: { launch: (...args: unknown[]): unknown => mockLaunch(...args) },
+}));
+
+type Handler = (...args: unknown[]) => void;
+
+function fakePage() {
+  const handlers = new Map<string, Handler>();
+  return {
+    handlers,
+    setUserAgent: jest.fn(() => Promise.resolve()),
+    setRequestInterception: jest.fn(() => Promise.resolve()),
+    on: jest.fn((event: string, handler: Handler) =>
+      handlers.set(event, handler),
+    ),
+    close: jest.fn(() => Promise.resolve()),
+  };
+}
+
+function fakeBrowser() {
+  const pages: ReturnType<typeof fakePage>[] = [];
+  let onDisconnect: Handler | undefined;
+  return {
+    pages,
+    disconnect: () => onDisconnect?.(),
+    newPage: jest.fn(() => {
+      const page = fakePage();
+      pages.push(page);
+      return Promise.resolve(page);
+    }),
+    once: jest.fn((_event: string, handler: Handler) => {
+      onDisconnect = handler;
+    }),
+    removeAllListeners: jest.fn(),
+    close: jest.fn(() => Promise.resolve()),
+  };
+}
+
+function fakeRequest(url: string, resourceType: string) {
+  return {
+    url: () => url,
+    resourceType: () => resourceType,
+    isInterceptResolutionHandled: () => false,
+    abort: jest.fn(() => Promise.resolve()),
+    continue: jest.fn(() => Promise.resolve()),
+  };
+}
+
+function createPool(config: Record<string, string> = {}) {
+  const browsers: ReturnType<typeof fakeBrowser>[] = [];
+  mockLaunch.mockImplementation(() => {
+    const browser = fakeBrowser();
+    browsers.push(browser);
+    return Promise.resolve(browser as never);
+  });
+  const pool = new BrowserPoolService(new ConfigService(config));
+  return { pool, browsers };
+}
+
+describe('BrowserPoolService', () => {
+  beforeEach(() => mockLaunch.mockReset());
+
+  it('launches Chromium on first use and shares it between pages', async () => {
+    const { pool, browsers } = createPool();
+    expect(pool.isRunning()).toBe(false);
+
+    await pool.withPage(() => Promise.resolve());
+    await pool.withPage(() => Promise.resolve());
+
+    expect(mockLaunch).toHaveBeenCalledTimes(1);
+    expect(browsers[0].pages).toHaveLength(2);
+    expect(browsers[0].pages[0].setUserAgent).toHaveBeenCalledWith(
+      DEFAULT_USER_AGENT,
+    );
+    expect(
+      browsers[0].pages.every((page) => page.close.mock.calls.length),
+    ).toBe(true);
+  });
+
+  it('makes pages over the limit wait for a free slot', async () => {
+    const { pool } = createPool({ BROWSER_MAX_PAGES: '1' });
+    let finishFirst!: () => void;
+    const order: string[] = [];
+
+    const first = pool.withPage(
+      () =>
+        new Promise<void>((resolve) => {
+          order.push('first started');
+          finishFirst = resolve;
+        }),
+    );
+    const second = pool.withPage(() => {
+      order.push('second started');
+      return Promise.resolve();
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(pool.getStatus()).toMatchObject({ activePages: 1, waiting: 1 });
+    finishFirst();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first started', 'second started']);
+    expect(pool.getStatus()).toMatchObject({ activePages: 0, waiting: 0 });
+  });
+
+  it('recycles the browser after the configured number of pages', async () => {
+    const { pool, browsers } = createPool({ BROWSER_RECYCLE_AFTER_PAGES: '2' });
+
+    await pool.withPage(() => Promise.resolve());
+    await pool.withPage(() => Promise.resolve());
+    await pool.withPage(() => Promise.resolve());
+
+    expect(browsers).toHaveLength(2);
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(browsers[1].close).not.toHaveBeenCalled();
+  });
+
+  it('relaunches after Chromium disconnects', async () => {
+    const { pool, browsers } = createPool();
+    await pool.withPage(() => Promise.resolve());
+
+    browsers[0].disconnect();
+    expect(pool.isRunning()).toBe(false);
+    await pool.withPage(() => Promise.resolve());
+
+    expect(browsers).toHaveLength(2);
+  });
+
+  it('reports a failed launch and frees the slot', async () => {
+    const { pool } = createPool({ BROWSER_MAX_PAGES: '1' });
+    mockLaunch.mockRejectedValueOnce(new Error('Could not find Chrome'));
+
+    await expect(pool.withPage(() => Promise.resolve())).rejects.toThrow(
+      'Could not find Chrome',
+    );
+    expect(pool.getStatus()).toEqual({
+      running: false,
+      activePages: 0,
+      waiting: 0,
+      lastLaunchError: 'Could not find Chrome',
+    });
+
+    await pool.withPage(() => Promise.resolve());
+    expect(pool.getStatus().lastLaunchError).toBeUndefined();
+  });
+
+  it('closes the page when the signal aborts', async () => {
+    const { pool, browsers } = createPool();
+    const controller = new AbortController();
+
+    // Like puppeteer, anything awaited on a closed page rejects
+    const run = pool.withPage(
+      () =>
+        new Promise((_, reject) => {
+          browsers[0].pages[0].close.mockImplementation(() => {
+            reject(new Error('Target closed'));
+            return Promise.resolve();
+          });
+          controller.abort(new Error('timed out'));
+        }),
+      { signal: controller.signal },
+    );
+
+    await expect(run).rejects.toThrow('Target closed');
+    expect(pool.getStatus().activePages).toBe(0);
+  });
+
+  it('does not open a page for an already aborted signal', async () => {
+    const { pool, browsers } = createPool();
+
+    await expect(
+      pool.withPage(() => Promise.resolve(), {
+        signal: AbortSignal.abort(new Error('timed out')),
+      }),
+    ).rejects.toThrow('timed out');
+    expect(browsers[0]?.pages ?? []).toHaveLength(0);
+  });
+
+  it('blocks images, fonts, media and trackers', async () => {
+    const { pool, browsers } = createPool();
+    await pool.withPage(() => Promise.resolve());
+    const onRequest = browsers[0].pages[0].handlers.get('request')!;
+
+    const image = fakeRequest('https://giavang.org/logo.png', 'image');
+    const tracker = fakeRequest(
+      'https://www.google-analytics.com/analytics.js',
+      'script',
+    );
+    const page = fakeRequest(
+      'https://giavang.org/trong-nuoc/doji/',
+      'document',
+    );
+    [image, tracker, page].forEach((request) => onRequest(request));
+
+    expect(image.abort).toHaveBeenCalled();
+    expect(tracker.abort).toHaveBeenCalled();
+    expect(page.continue).toHaveBeenCalled();
+    expect(page.abort).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import puppeteer, { Browser, HTTPRequest, Page } from 'puppeteer';
+
+export const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+const BLOCKED_RESOURCE_TYPES = new Set(['image', 'font', 'media']);
+
+const BLOCKED_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googlesyndication.com',
+  'doubleclick.net',
+  'facebook.net',
+  'connect.facebook.com',
+  'hotjar.com',
+  'clarity.ms',
+  'adnxs.com',
+  'criteo.com',
+];
+
+export interface BrowserPoolStatus {
+  running: boolean; // Launched lazily, so false until the first page
+  activePages: number;
+  waiting: number;
+  lastLaunchError?: string; // Cleared by the next successful launch
+}
+
+export interface PageOptions {
+  blockResources?: boolean; // Defaults to true
+  signal?: AbortSignal; // Closes the page when aborted
+}
+
+/**
+ * Shares one lazily launched Chromium between scrapers. Pages are handed
+ * out through withPage() with a concurrency limit, and the browser is
+ * recycled after a number of pages or relaunched when it crashes.
+ */
+@Injectable()
+export class BrowserPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(BrowserPoolService.name);
+  private readonly maxPages: number;
+  private readonly recycleAfter: number;
+  private browser: Promise<Browser> | null = null;
+  private lastLaunchError?: string;
+  private activePages = 0;
+  private pagesServed = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(configService: ConfigService) {
+    this.maxPages = Number(configService.get<string>('BROWSER_MAX_PAGES') ?? 2);
+    this.recycleAfter = Number(
+      configService.get<string>('BROWSER_RECYCLE_AFTER_PAGES') ?? 50,
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.close();
+  }
+
+  async withPage<T>(
+    task: (page: Page) => Promise<T>,
+    options: PageOptions = {},
+  ): Promise<T> {
+    await this.acquire();
+    let page: Page | undefined;
+    // Closing the page makes whatever the task is awaiting on it reject
+    const onAbort = () => void page?.close().catch(() => undefined);
+    options.signal?.addEventListener('abort', onAbort);
+    try {
+      options.signal?.throwIfAborted();
+      const browser = await this.getBrowser();
+      page = await browser.newPage();
+      this.pagesServed++;
+      options.signal?.throwIfAborted();
+      await page.setUserAgent(DEFAULT_USER_AGENT);
+      if (options.blockResources ?? true) {
+        await this.blockResources(page);
+      }
+      return await task(page);
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      await page?.close().catch(() => undefined);
+      await this.release();
+    }
+  }
+
+  isRunning(): boolean {
+    return this.browser !== null;
+  }
+
+  getStatus(): BrowserPoolStatus {
+    return {
+      running: this.isRunning(),
+      activePages: this.activePages,
+      waiting: this.waiting.length,
+      lastLaunchError: this.lastLaunchError,
+    };
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.logger.log('Launching Chromium...');
+      this.browser = puppeteer
+        .launch({
+          headless: true,
+          args: [
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-gpu',
+          ],
+        })
+        .then((browser) => {
+          this.lastLaunchError = undefined;
+          browser.once('disconnected', () => {
+            this.logger.warn('Chromium disconnected, relaunching on next use');
+            this.browser = null;
+          });
+          return browser;
+        })
+        .catch((error) => {
+          this.browser = null;
+          this.lastLaunchError =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Failed to launch Chromium: ${this.lastLaunchError}`,
+          );
+          throw error;
+        });
+    }
+    return this.browser;
+  }
+
+  private async blockResources(page: Page) {
+    await page.setRequestInterception(true);
+    page.on('request', (request: HTTPRequest) => {
+      if (request.isInterceptResolutionHandled()) return;
+      const host = new URL(request.url()).hostname;
+      const blocked =
+        BLOCKED_RESOURCE_TYPES.has(request.resourceType()) ||
+        BLOCKED_HOSTS.some(
+          (blockedHost) =>
+            host === blockedHost || host.endsWith(`.${blockedHost}`),
+        );
+      void (blocked ? request.abort() : request.continue());
+    });
+  }
+
+  private acquire(): Promise<void> {
+    if (this.activePages < this.maxPages) {
+      this.activePages++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by release()
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private async release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    this.activePages--;
+
+    if (this.activePages === 0 && this.pagesServed >= this.recycleAfter) {
+      this.logger.log(`Recycling Chromium after ${this.pagesServed} pages`);
+      await this.close();
+    }
+  }
+
+  private async close() {
+    const browser = this.browser;
+    this.browser = null;
+    this.pagesServed = 0;
+    await browser
+      ?.then((instance) => {
+        instance.removeAllListeners('disconnected');
+        return instance.close();
+      })
+      .catch(() => undefined);
+  }
+}
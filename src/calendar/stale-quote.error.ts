@@ -0,0 +1,12 @@
+export class StaleQuoteError extends Error {
+  constructor(
+    readonly assetId: string,
+    readonly sessionDate: string,
+    readonly expectedDate: string,
+  ) {
+    super(
+      `Stale ${assetId} quote: close is from ${sessionDate}, expected the ${expectedDate} session`,
+    );
+    this.name = 'StaleQuoteError';
+  }
+}
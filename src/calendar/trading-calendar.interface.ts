@@ -0,0 +1,18 @@
+export const EXCHANGES = ['HOSE', 'HNX'] as const;
+
+export type Exchange = (typeof EXCHANGES)[number];
+
+export interface TradingSession {
+  start: string; // HH:mm, local time
+  end: string;
+}
+
+export interface ExchangeCalendar {
+  sessions: TradingSession[];
+  holidays?: string[]; // YYYY-MM-DD, on top of the shared list
+}
+
+export interface TradingCalendarConfig {
+  holidays?: string[]; // YYYY-MM-DD closures shared by every exchange
+  exchanges?: Partial<Record<Exchange, ExchangeCalendar>>;
+}
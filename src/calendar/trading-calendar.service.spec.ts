@@ -0,0 +1,104 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TradingCalendarService } from './trading-calendar.service';
+
+function createCalendar(
+  path = join(__dirname, '../../config/trading-calendar.json'),
+) {
+  const calendar = new TradingCalendarService(
+    new ConfigService({ TRADING_CALENDAR_PATH: path }),
+  );
+  calendar.onModuleInit();
+  return calendar;
+}
+
+// Local times; 2026-01-05 is a Monday after the New Year holiday week
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 0, day, hours, minutes);
+
+describe('TradingCalendarService', () => {
+  const calendar = createCalendar();
+
+  it('closes on weekends and configured holidays', () => {
+    expect(calendar.isTradingDay('HOSE', at(5, 10))).toBe(true);
+    expect(calendar.isTradingDay('HOSE', at(3, 10))).toBe(false);
+    expect(calendar.isTradingDay('HNX', at(1, 10))).toBe(false);
+  });
+
+  it('is in session only during the configured sessions', () => {
+    expect(calendar.isInSession('HOSE', at(5, 10))).toBe(true);
+    expect(calendar.isInSession('HOSE', at(5, 12))).toBe(false);
+    expect(calendar.isInSession('HOSE', at(5, 14, 45))).toBe(false);
+    expect(calendar.isInSession('HOSE', at(3, 10))).toBe(false);
+  });
+
+  it('expects intraday data from today once the first bar is out', () => {
+    expect(calendar.expectedSessionDate('HOSE', true, at(5, 9, 10))).toBe(
+      '2026-01-02',
+    );
+    expect(calendar.expectedSessionDate('HOSE', true, at(5, 9, 15))).toBe(
+      '2026-01-05',
+    );
+  });
+
+  it('expects a daily close from today only after the close', () => {
+    expect(calendar.expectedSessionDate('HOSE', false, at(5, 14, 44))).toBe(
+      '2026-01-02',
+    );
+    expect(calendar.expectedSessionDate('HOSE', false, at(5, 14, 45))).toBe(
+      '2026-01-05',
+    );
+  });
+
+  it('falls back past weekends and holidays to the last trading day', () => {
+    expect(calendar.expectedSessionDate('HOSE', false, at(4, 16))).toBe(
+      '2026-01-02',
+    );
+    expect(calendar.expectedSessionDate('HOSE', true, at(2, 8))).toBe(
+      '2025-12-31',
+    );
+  });
+
+  describe('config', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'calendar-'));
+    });
+
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('only closes weekends without a calendar file', () => {
+      const missing = createCalendar(join(dir, 'missing.json'));
+
+      expect(missing.isTradingDay('HOSE', at(1, 10))).toBe(true);
+      expect(missing.isInSession('HOSE', at(1, 9))).toBe(true);
+    });
+
+    it.each([
+      [
+        {
+          exchanges: { HOSE: { sessions: [{ start: '9:00', end: '11:30' }] } },
+        },
+        'HOSE session times must be HH:mm',
+      ],
+      [
+        {
+          exchanges: { HNX: { sessions: [{ start: '13:00', end: '11:30' }] } },
+        },
+        'HNX session 13:00-11:30 ends before it starts',
+      ],
+      [
+        { holidays: ['01/01/2026'] },
+        'Trading calendar holiday "01/01/2026" is not YYYY-MM-DD',
+      ],
+    ])('rejects %j', (config, message) => {
+      const path = join(dir, 'calendar.json');
+      writeFileSync(path, JSON.stringify(config));
+
+      expect(() => createCalendar(path)).toThrow(message);
+    });
+  });
+});
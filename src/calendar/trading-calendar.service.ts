@@ -0,0 +1,139 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { toDateKey } from '../common/date-key';
+import {
+  EXCHANGES,
+  Exchange,
+  TradingCalendarConfig,
+  TradingSession,
+} from './trading-calendar.interface';
+
+const DEFAULT_CALENDAR_PATH = 'config/trading-calendar.json';
+
+// Sources publish the first intraday bar a few minutes after the open
+const FIRST_BAR_DELAY_MINUTES = 15;
+
+// Continuous sessions plus the closing auction, the same on HOSE and HNX
+const DEFAULT_SESSIONS: TradingSession[] = [
+  { start: '09:00', end: '11:30' },
+  { start: '13:00', end: '14:45' },
+];
+
+/**
+ * Trading days and session times for Vietnamese exchanges, in local time.
+ * Weekends are always closed; holidays come from the calendar config,
+ * which needs updating once the exchanges publish each year's Tết dates.
+ */
+@Injectable()
+export class TradingCalendarService implements OnModuleInit {
+  private readonly logger = new Logger(TradingCalendarService.name);
+  private readonly sessions = new Map<Exchange, TradingSession[]>();
+  private readonly holidays = new Map<Exchange, Set<string>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    const path = resolve(
+      this.configService.get<string>('TRADING_CALENDAR_PATH') ??
+        DEFAULT_CALENDAR_PATH,
+    );
+    const config: TradingCalendarConfig = existsSync(path)
+      ? (JSON.parse(readFileSync(path, 'utf8')) as TradingCalendarConfig)
+      : {};
+    if (!existsSync(path)) {
+      this.logger.warn(`No trading calendar at ${path}, only weekends close`);
+    }
+
+    for (const exchange of EXCHANGES) {
+      const calendar = config.exchanges?.[exchange];
+      const sessions = calendar?.sessions ?? DEFAULT_SESSIONS;
+      const holidays = [
+        ...(config.holidays ?? []),
+        ...(calendar?.holidays ?? []),
+      ];
+      sessions.forEach((session) => this.checkSession(exchange, session));
+      for (const day of holidays) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+          throw new Error(
+            `Trading calendar holiday "${day}" is not YYYY-MM-DD`,
+          );
+        }
+      }
+      this.sessions.set(exchange, sessions);
+      this.holidays.set(exchange, new Set(holidays));
+    }
+  }
+
+  isTradingDay(exchange: Exchange, date = new Date()): boolean {
+    const weekday = date.getDay();
+    return (
+      weekday !== 0 &&
+      weekday !== 6 &&
+      !this.holidays.get(exchange)!.has(toDateKey(date))
+    );
+  }
+
+  isInSession(exchange: Exchange, date = new Date()): boolean {
+    if (!this.isTradingDay(exchange, date)) return false;
+    const time = toTimeKey(date);
+    return this.sessions
+      .get(exchange)!
+      .some((session) => time >= session.start && time < session.end);
+  }
+
+  /**
+   * The session the latest data should come from. On a trading day that is
+   * today once it can exist: for intraday data once the first bar is out
+   * (09:15 with a 09:00 open), for a daily close once the last session has
+   * ended. Until then, and on closed days, it is the last trading day.
+   */
+  expectedSessionDate(
+    exchange: Exchange,
+    intraday: boolean,
+    now = new Date(),
+  ): string {
+    const sessions = this.sessions.get(exchange)!;
+    const dueAt = intraday
+      ? Math.min(...sessions.map((s) => toMinutes(s.start))) +
+        FIRST_BAR_DELAY_MINUTES
+      : Math.max(...sessions.map((s) => toMinutes(s.end)));
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    if (this.isTradingDay(exchange, now) && minutes >= dueAt) {
+      return toDateKey(now);
+    }
+    return toDateKey(this.previousTradingDay(exchange, now));
+  }
+
+  previousTradingDay(exchange: Exchange, date = new Date()): Date {
+    const day = new Date(date);
+    do {
+      day.setDate(day.getDate() - 1);
+    } while (!this.isTradingDay(exchange, day));
+    return day;
+  }
+
+  private checkSession(exchange: Exchange, session: TradingSession) {
+    const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+    if (!time.test(session?.start) || !time.test(session?.end)) {
+      throw new Error(`${exchange} session times must be HH:mm`);
+    }
+    if (session.start >= session.end) {
+      throw new Error(
+        `${exchange} session ${session.start}-${session.end} ends before it starts`,
+      );
+    }
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTimeKey(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
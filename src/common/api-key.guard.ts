@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/** Guards mutating endpoints with the shared secret from API_KEY. */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('API_KEY');
+    if (!expected) {
+      throw new ForbiddenException('API_KEY is not configured on the server');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const provided = request.header(API_KEY_HEADER) ?? '';
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length || !timingSafeEqual(a, b)) {
+      throw new UnauthorizedException(`Missing or invalid ${API_KEY_HEADER}`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,6 @@
+// Local calendar day as YYYY-MM-DD; main.ts pins TZ to Asia/Ho_Chi_Minh.
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,20 @@
+import { HttpModule } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+
+const DEFAULT_HTTP_TIMEOUT_MS = 15000;
+
+/**
+ * HttpModule with HTTP_TIMEOUT_MS applied. Every module that calls out
+ * imports this one instead of a bare HttpModule, so a server that never
+ * answers cannot hold a crawl open.
+ */
+export function timedHttpModule() {
+  return HttpModule.registerAsync({
+    inject: [ConfigService],
+    useFactory: (configService: ConfigService) => ({
+      timeout: Number(
+        configService.get<string>('HTTP_TIMEOUT_MS') ?? DEFAULT_HTTP_TIMEOUT_MS,
+      ),
+    }),
+  });
+}
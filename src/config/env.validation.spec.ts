@@ -0,0 +1,75 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getMetadataStorage } from 'class-validator';
+import { EnvironmentVariables, validateEnvironment } from './env.validation';
+
+// ConfigService reads and num('KEY', fallback) helpers, across line breaks
+const CONFIG_READ =
+  /(?:configService\.get(?:<\w+>)?|\bnum)\(\s*'([A-Z][A-Z0-9_]*)'/g;
+const ENV_READ = /process\.env\.([A-Z][A-Z0-9_]*)\b(?!\s*=[^=])/g;
+
+function sourceFiles(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) return sourceFiles(path);
+    return path.endsWith('.ts') && !path.endsWith('.spec.ts') ? [path] : [];
+  });
+}
+
+describe('validateEnvironment', () => {
+  it('declares every variable the app reads', () => {
+    const read = new Set<string>();
+    for (const file of sourceFiles(join(__dirname, '..'))) {
+      const code = readFileSync(file, 'utf8');
+      for (const [, name] of code.matchAll(CONFIG_READ)) read.add(name);
+      for (const [, name] of code.matchAll(ENV_READ)) read.add(name);
+    }
+    const declared = new Set(
+      getMetadataStorage()
+        .getTargetValidationMetadatas(EnvironmentVariables, '', true, false)
+        .map((metadata) => metadata.propertyName),
+    );
+
+    expect([...read].filter((name) => !declared.has(name))).toEqual([]);
+  });
+
+  it('returns the values unchanged', () => {
+    const config = { PORT: '3000', DRY_RUN: 'true', SMTP_FROM: '' };
+
+    expect(validateEnvironment(config)).toBe(config);
+  });
+
+  it('lists every invalid variable at once', () => {
+    expect(() =>
+      validateEnvironment({
+        BINANCE_STREAM_STALE_AFTER_MS: 'soon',
+        FX_STATIC_RATES: 'USD=26000',
+        DRIFT_ALERT_CHANNELS: 'telegram, ops mail',
+        PORTFOLIO_CURRENCY: 'VND1',
+      }),
+    ).toThrow(
+      [
+        'Invalid environment:',
+        '  - FX_STATIC_RATES must look like "USDT/USD=1,USD/VND=26000"',
+        '  - PORTFOLIO_CURRENCY must be a currency code such as VND',
+        '  - DRIFT_ALERT_CHANNELS must be comma-separated alert channel ids',
+        '  - BINANCE_STREAM_STALE_AFTER_MS must not be less than 1',
+        '  - BINANCE_STREAM_STALE_AFTER_MS must be an integer number',
+      ].join('\n'),
+    );
+  });
+
+  it('rejects a single price change confirmation', () => {
+    expect(() =>
+      validateEnvironment({ PRICE_CHANGE_CONFIRMATIONS: '1' }),
+    ).toThrow('PRICE_CHANGE_CONFIRMATIONS must not be less than 2');
+  });
+
+  it('rejects a config file that does not exist', () => {
+    expect(() =>
+      validateEnvironment({ ASSETS_CONFIG_PATH: 'config/asets.json' }),
+    ).toThrow(
+      'ASSETS_CONFIG_PATH points at "config/asets.json", which does not exist',
+    );
+  });
+});
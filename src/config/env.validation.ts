@@ -0,0 +1,448 @@
+import { plainToInstance, Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Min,
+  Validate,
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  validateSync,
+} from 'class-validator';
+import { existsSync } from 'fs';
+import { resolveSchedule } from '../assets/schedule';
+import { NUMBER_LOCALES } from '../units/vn-number';
+import { SNAPSHOT_MODES } from '../drift/drift.interface';
+import { BINANCE_STREAM_TYPES } from '../streaming/binance-stream.interface';
+
+const BOOLEAN = ['true', 'false'];
+
+// Mock servers run on localhost, which has no TLD
+const HTTP_URL = {
+  require_tld: false,
+  require_protocol: true,
+  protocols: ['http', 'https'],
+};
+const WS_URL = {
+  require_tld: false,
+  require_protocol: true,
+  protocols: ['ws', 'wss'],
+};
+
+// Comma-separated lists, e.g. "telegram, ops-mail" or "BTCUSDT,ETHUSDT"
+const ID_LIST = /^[\w.-]+(\s*,\s*[\w.-]+)*$/;
+
+// BASE/QUOTE=rate pairs, e.g. "USDT/USD=1,USD/VND=26000"
+const FX_RATE_LIST =
+  /^\s*[A-Za-z]{3,5}\/[A-Za-z]{3,5}=[\d.]+(\s*,\s*[A-Za-z]{3,5}\/[A-Za-z]{3,5}=[\d.]+)*\s*$/;
+
+// Spreadsheet ids are the part of the sheet URL between /d/ and /edit
+const SPREADSHEET_ID = /^[\w-]{20,}$/;
+const SPREADSHEET_ID_MESSAGE =
+  '$property must be a spreadsheet id, not the full sheet URL';
+
+@ValidatorConstraint({ name: 'isSchedule' })
+class IsSchedule implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return scheduleError(value) === undefined;
+  }
+
+  defaultMessage({ value }: ValidationArguments): string {
+    return `$property: ${scheduleError(value)}`;
+  }
+}
+
+@ValidatorConstraint({ name: 'isExistingFile' })
+class IsExistingFile implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return typeof value === 'string' && existsSync(value);
+  }
+
+  defaultMessage(): string {
+    return '$property points at "$value", which does not exist';
+  }
+}
+
+/**
+ * Every environment variable the app reads. Values stay strings in
+ * ConfigService; this only checks them so that a typo fails the boot
+ * instead of the first crawl. env.validation.spec.ts fails when a
+ * variable is read somewhere but missing here.
+ */
+export class EnvironmentVariables {
+  // Server
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  PORT?: number;
+
+  @IsOptional()
+  @IsString()
+  API_KEY?: string;
+
+  @IsOptional()
+  @IsIn(['text', 'json'])
+  LOG_FORMAT?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  DRY_RUN?: string; // Captures sheet writes and notifications instead
+
+  @IsOptional()
+  @IsString()
+  DRY_RUN_LOG?: string;
+
+  // Storage and config files
+  @IsOptional()
+  @IsString()
+  DATABASE_PATH?: string;
+
+  @IsOptional()
+  @Validate(IsExistingFile)
+  ASSETS_CONFIG_PATH?: string;
+
+  @IsOptional()
+  @IsString()
+  ALERTS_CONFIG_PATH?: string;
+
+  @IsOptional()
+  @IsString()
+  GOLD_CONFIG_PATH?: string;
+
+  @IsOptional()
+  @Validate(IsExistingFile)
+  RECIPES_CONFIG_PATH?: string;
+
+  @IsOptional()
+  @IsString()
+  REPORTS_CONFIG_PATH?: string;
+
+  @IsOptional()
+  @IsString()
+  TRADING_CALENDAR_PATH?: string;
+
+  // Google Sheets
+  @IsOptional()
+  @Matches(SPREADSHEET_ID, { message: SPREADSHEET_ID_MESSAGE })
+  SPREADSHEET_ID?: string;
+
+  @IsOptional()
+  @Validate(IsExistingFile)
+  GOOGLE_APPLICATION_CREDENTIALS?: string;
+
+  @IsOptional()
+  @IsIn(NUMBER_LOCALES)
+  SHEETS_LOCALE?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  SHEETS_FLUSH_DELAY_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  SHEETS_MAX_ATTEMPTS?: number;
+
+  @IsOptional()
+  @Matches(SPREADSHEET_ID, { message: SPREADSHEET_ID_MESSAGE })
+  SHEET_SYNC_SPREADSHEET_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  SHEET_SYNC_TAB?: string;
+
+  @IsOptional()
+  @Validate(IsSchedule)
+  SHEET_SYNC_SCHEDULE?: string;
+
+  @IsOptional()
+  @Validate(IsSchedule)
+  SHEET_SYNC_DEFAULT_SCHEDULE?: string;
+
+  // Source base URLs, overridable to point the crawls at a mock server
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  DNSE_BASE_URL?: string;
+
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  BINANCE_BASE_URL?: string;
+
+  @IsOptional()
+  @IsUrl(WS_URL)
+  BINANCE_WS_URL?: string;
+
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  VIETCOMBANK_RATES_URL?: string;
+
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  TELEGRAM_API_URL?: string;
+
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  GIAVANG_BASE_URL?: string;
+
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  BINANCE_WEB_BASE_URL?: string;
+
+  // Timeouts and retries
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  HTTP_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  ATTEMPT_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  RETRY_MAX_ATTEMPTS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  RETRY_BASE_DELAY_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  RETRY_MAX_DELAY_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BREAKER_FAILURE_THRESHOLD?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BREAKER_RESET_MS?: number;
+
+  // FX, conversions and the portfolio
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  FX_MAX_AGE_MS?: number;
+
+  @IsOptional()
+  @Matches(FX_RATE_LIST, {
+    message: '$property must look like "USDT/USD=1,USD/VND=26000"',
+  })
+  FX_STATIC_RATES?: string;
+
+  @IsOptional()
+  @IsString()
+  FX_USDT_ASSET?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  CONVERSION_RATE_MAX_AGE_MS?: number;
+
+  @IsOptional()
+  @Matches(/^[A-Za-z]{3,5}$/, {
+    message: '$property must be a currency code such as VND',
+  })
+  PORTFOLIO_CURRENCY?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  BACKFILL_PAGE_DELAY_MS?: number;
+
+  // Price validation; one confirmation would accept every move at once
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2)
+  PRICE_CHANGE_CONFIRMATIONS?: number;
+
+  // Browser
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BROWSER_MAX_PAGES?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BROWSER_RECYCLE_AFTER_PAGES?: number;
+
+  // Health and keepalive
+  @IsOptional()
+  @IsUrl(HTTP_URL)
+  KEEPALIVE_URL?: string;
+
+  @IsOptional()
+  @Validate(IsSchedule)
+  KEEPALIVE_SCHEDULE?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  HEALTH_MAX_AGE_HOURS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  RUN_JOURNAL_RETENTION_DAYS?: number;
+
+  // Drift snapshots
+  @IsOptional()
+  @IsIn(SNAPSHOT_MODES)
+  SCRAPE_SNAPSHOTS?: string;
+
+  @IsOptional()
+  @IsString()
+  SNAPSHOT_DIR?: string;
+
+  @IsOptional()
+  @Matches(ID_LIST, {
+    message: '$property must be comma-separated alert channel ids',
+  })
+  DRIFT_ALERT_CHANNELS?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  SNAPSHOT_KEEP?: number;
+
+  // Binance streaming
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  BINANCE_STREAM_ENABLED?: string;
+
+  @IsOptional()
+  @IsIn(BINANCE_STREAM_TYPES)
+  BINANCE_STREAM_TYPE?: string;
+
+  @IsOptional()
+  @Matches(ID_LIST, {
+    message: '$property must be comma-separated symbols such as BTCUSDT',
+  })
+  BINANCE_STREAM_SYMBOLS?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BINANCE_STREAM_MAX_AGE_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  BINANCE_STREAM_MIN_CHANGE_PERCENT?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  BINANCE_STREAM_MIN_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BINANCE_STREAM_WRITE_EVERY_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BINANCE_STREAM_MIN_BACKOFF_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BINANCE_STREAM_MAX_BACKOFF_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  BINANCE_STREAM_STALE_AFTER_MS?: number;
+
+  // Sinks
+  @IsOptional()
+  @IsString()
+  INFLUX_TOKEN?: string;
+
+  // Notifications
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['smtp', 'smtps'] })
+  SMTP_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  SMTP_FROM?: string;
+
+  @IsOptional()
+  @Matches(/^\d+:[\w-]+$/, {
+    message: '$property must look like 123456:ABC-token',
+  })
+  TELEGRAM_BOT_TOKEN?: string;
+}
+
+/**
+ * Passed to ConfigModule.forRoot. Throws one error listing every invalid
+ * variable; the values are returned unchanged.
+ */
+export function validateEnvironment(
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  // KEY= in a .env file means unset, as it does for the services
+  const set = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== ''),
+  );
+  const errors = validateSync(plainToInstance(EnvironmentVariables, set));
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid environment:\n${errors
+        .flatMap((error) => Object.values(error.constraints ?? {}))
+        .map((message) => `  - ${message}`)
+        .join('\n')}`,
+    );
+  }
+  return config;
+}
+
+function scheduleError(value: unknown): string | undefined {
+  try {
+    resolveSchedule(String(value));
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
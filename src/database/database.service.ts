@@ -0,0 +1,29 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+const DEFAULT_DATABASE_PATH = 'data/asset-crawler.db';
+
+/** Owns the single SQLite connection; stores create their own tables. */
+@Injectable()
+export class DatabaseService implements OnModuleDestroy {
+  private readonly logger = new Logger(DatabaseService.name);
+  readonly db: Database.Database;
+
+  constructor(configService: ConfigService) {
+    const path = resolve(
+      configService.get<string>('DATABASE_PATH') ?? DEFAULT_DATABASE_PATH,
+    );
+    mkdirSync(dirname(path), { recursive: true });
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.logger.log(`Opened database at ${path}`);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+}
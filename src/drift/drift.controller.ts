@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Header,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../common/api-key.guard';
+import { DriftService } from './drift.service';
+import type { LayoutChange, ScrapeSnapshot } from './drift.interface';
+import { SnapshotsQueryDto } from './dto/snapshots-query.dto';
+
+@Controller('drift')
+export class DriftController {
+  constructor(private readonly driftService: DriftService) {}
+
+  @Get('changes')
+  getChanges(): LayoutChange[] {
+    return this.driftService.getChanges();
+  }
+
+  @Get('snapshots')
+  getSnapshots(@Query() query: SnapshotsQueryDto): ScrapeSnapshot[] {
+    return this.driftService.getSnapshots(query.recipe, query.limit);
+  }
+
+  // Scripts are left in, so open it from a file rather than this origin
+  @Get('snapshots/:id/html')
+  @UseGuards(ApiKeyGuard)
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  getSnapshotHtml(@Param('id', ParseIntPipe) id: number): string {
+    const snapshot = this.driftService.getSnapshot(id);
+    if (!snapshot) {
+      throw new NotFoundException(`Unknown snapshot ${id}`);
+    }
+    return this.driftService.readHtml(snapshot);
+  }
+}
@@ -0,0 +1,44 @@
+export const SNAPSHOT_MODES = [
+  'off', // Only when the layout changes
+  'failures', // Also when extraction fails
+  'all', // Every scrape
+] as const;
+
+export type SnapshotMode = (typeof SNAPSHOT_MODES)[number];
+
+/** One scrape as the recipe engine saw it. */
+export interface ScrapeObservation {
+  recipeId: string;
+  target: string; // What was scraped, e.g. the URL and symbol
+  vars: Record<string, string | undefined>;
+  url: string;
+  html: string;
+  fingerprint: string;
+  value?: number;
+  raw?: string;
+  error?: string;
+}
+
+export interface ScrapeSnapshot {
+  id: number;
+  recipeId: string;
+  target: string;
+  vars: Record<string, string | undefined>;
+  url: string;
+  path: string; // Gzipped HTML under SNAPSHOT_DIR
+  fingerprint: string;
+  value?: number;
+  raw?: string;
+  error?: string;
+  capturedAt: Date;
+}
+
+export interface LayoutChange {
+  id: number;
+  recipeId: string;
+  target: string;
+  previous: string;
+  current: string; // 'missing' when the anchor element is gone
+  snapshotId?: number;
+  detectedAt: Date;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { DriftService } from './drift.service';
+import { DriftController } from './drift.controller';
+
+@Module({
+  imports: [DatabaseModule, AlertsModule],
+  controllers: [DriftController],
+  providers: [DriftService],
+  exports: [DriftService],
+})
+export class DriftModule {}
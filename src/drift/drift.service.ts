@@ -0,0 +1,299 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { DatabaseService } from '../database/database.service';
+import { AlertRulesService } from '../alerts/alert-rules.service';
+import { NotifierService } from '../alerts/channels/notifier.service';
+import {
+  LayoutChange,
+  SNAPSHOT_MODES,
+  ScrapeObservation,
+  ScrapeSnapshot,
+  SnapshotMode,
+} from './drift.interface';
+
+const DEFAULT_SNAPSHOT_DIR = 'data/snapshots';
+
+interface SnapshotRow {
+  id: number;
+  recipe_id: string;
+  target: string;
+  vars: string;
+  url: string;
+  path: string;
+  fingerprint: string;
+  value: number | null;
+  raw: string | null;
+  error: string | null;
+  captured_at: number;
+}
+
+interface LayoutChangeRow {
+  id: number;
+  recipe_id: string;
+  target: string;
+  previous: string;
+  current: string;
+  snapshot_id: number | null;
+  detected_at: number;
+}
+
+/**
+ * Remembers the last layout fingerprint per scrape target and raises a
+ * layout change when it moves. HTML snapshots are kept according to
+ * SCRAPE_SNAPSHOTS, and always for the scrape that revealed a change.
+ */
+@Injectable()
+export class DriftService implements OnModuleInit {
+  private readonly logger = new Logger(DriftService.name);
+  private readonly mode: SnapshotMode;
+  private readonly dir: string;
+  private readonly keep: number;
+  private readonly channels: string[];
+
+  constructor(
+    configService: ConfigService,
+    private readonly database: DatabaseService,
+    private readonly alertRules: AlertRulesService,
+    private readonly notifier: NotifierService,
+  ) {
+    this.mode = configService.get<SnapshotMode>('SCRAPE_SNAPSHOTS') ?? 'off';
+    if (!SNAPSHOT_MODES.includes(this.mode)) {
+      throw new Error(
+        `SCRAPE_SNAPSHOTS must be one of ${SNAPSHOT_MODES.join(', ')}, got "${this.mode}"`,
+      );
+    }
+    this.dir = resolve(
+      configService.get<string>('SNAPSHOT_DIR') ?? DEFAULT_SNAPSHOT_DIR,
+    );
+    this.keep = Number(configService.get<string>('SNAPSHOT_KEEP') ?? 20);
+    // Alert channel ids from config/alerts.json
+    this.channels = (configService.get<string>('DRIFT_ALERT_CHANNELS') ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+  }
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS scrape_fingerprints (
+        recipe_id TEXT NOT NULL,
+        target TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        seen_at INTEGER NOT NULL,
+        PRIMARY KEY (recipe_id, target)
+      );
+      CREATE TABLE IF NOT EXISTS scrape_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id TEXT NOT NULL,
+        target TEXT NOT NULL,
+        vars TEXT NOT NULL,
+        url TEXT NOT NULL,
+        path TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        value REAL,
+        raw TEXT,
+        error TEXT,
+        captured_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS scrape_snapshots_target
+        ON scrape_snapshots (recipe_id, target, captured_at);
+      CREATE TABLE IF NOT EXISTS layout_changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id TEXT NOT NULL,
+        target TEXT NOT NULL,
+        previous TEXT NOT NULL,
+        current TEXT NOT NULL,
+        snapshot_id INTEGER,
+        detected_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /** Runs after every recipe scrape. Never throws; failures are logged. */
+  async observe(scrape: ScrapeObservation) {
+    try {
+      const previous = this.database.db
+        .prepare(
+          'SELECT fingerprint FROM scrape_fingerprints WHERE recipe_id = ? AND target = ?',
+        )
+        .get(scrape.recipeId, scrape.target) as
+        | { fingerprint: string }
+        | undefined;
+      const changed =
+        previous !== undefined && previous.fingerprint !== scrape.fingerprint;
+
+      let snapshotId: number | undefined;
+      if (
+        changed ||
+        this.mode === 'all' ||
+        (this.mode === 'failures' && scrape.error !== undefined)
+      ) {
+        snapshotId = this.saveSnapshot(scrape);
+      }
+
+      this.database.db
+        .prepare(
+          `INSERT INTO scrape_fingerprints (recipe_id, target, fingerprint, seen_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (recipe_id, target) DO UPDATE SET
+             fingerprint = excluded.fingerprint, seen_at = excluded.seen_at`,
+        )
+        .run(scrape.recipeId, scrape.target, scrape.fingerprint, Date.now());
+
+      if (changed) {
+        await this.raiseLayoutChange(scrape, previous.fingerprint, snapshotId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to check ${scrape.recipeId} for drift: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getChanges(limit = 100): LayoutChange[] {
+    const rows = this.database.db
+      .prepare('SELECT * FROM layout_changes ORDER BY detected_at DESC LIMIT ?')
+      .all(limit) as LayoutChangeRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      recipeId: row.recipe_id,
+      target: row.target,
+      previous: row.previous,
+      current: row.current,
+      snapshotId: row.snapshot_id ?? undefined,
+      detectedAt: new Date(row.detected_at),
+    }));
+  }
+
+  getSnapshots(recipeId?: string, limit = 100): ScrapeSnapshot[] {
+    const rows = (
+      recipeId
+        ? this.database.db
+            .prepare(
+              'SELECT * FROM scrape_snapshots WHERE recipe_id = ? ORDER BY captured_at DESC LIMIT ?',
+            )
+            .all(recipeId, limit)
+        : this.database.db
+            .prepare(
+              'SELECT * FROM scrape_snapshots ORDER BY captured_at DESC LIMIT ?',
+            )
+            .all(limit)
+    ) as SnapshotRow[];
+    return rows.map(toSnapshot);
+  }
+
+  getSnapshot(id: number): ScrapeSnapshot | undefined {
+    const row = this.database.db
+      .prepare('SELECT * FROM scrape_snapshots WHERE id = ?')
+      .get(id) as SnapshotRow | undefined;
+    return row && toSnapshot(row);
+  }
+
+  readHtml(snapshot: ScrapeSnapshot): string {
+    return gunzipSync(readFileSync(snapshot.path)).toString('utf8');
+  }
+
+  private saveSnapshot(scrape: ScrapeObservation): number {
+    const capturedAt = Date.now();
+    const targetHash = createHash('sha256')
+      .update(scrape.target)
+      .digest('hex')
+      .slice(0, 8);
+    const dir = join(this.dir, scrape.recipeId);
+    const path = join(dir, `${targetHash}-${capturedAt}.html.gz`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path, gzipSync(scrape.html));
+
+    const { lastInsertRowid } = this.database.db
+      .prepare(
+        `INSERT INTO scrape_snapshots
+          (recipe_id, target, vars, url, path, fingerprint, value, raw, error, captured_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        scrape.recipeId,
+        scrape.target,
+        JSON.stringify(scrape.vars),
+        scrape.url,
+        path,
+        scrape.fingerprint,
+        scrape.value ?? null,
+        scrape.raw ?? null,
+        scrape.error ?? null,
+        capturedAt,
+      );
+    this.prune(scrape.recipeId, scrape.target);
+    return Number(lastInsertRowid);
+  }
+
+  // Snapshots behind a layout change are kept, they are the evidence
+  private prune(recipeId: string, target: string) {
+    const stale = this.database.db
+      .prepare(
+        `SELECT id, path FROM scrape_snapshots
+         WHERE recipe_id = ? AND target = ?
+           AND id NOT IN (SELECT snapshot_id FROM layout_changes WHERE snapshot_id IS NOT NULL)
+         ORDER BY captured_at DESC LIMIT -1 OFFSET ?`,
+      )
+      .all(recipeId, target, this.keep) as { id: number; path: string }[];
+    for (const { id, path } of stale) {
+      rmSync(path, { force: true });
+      this.database.db
+        .prepare('DELETE FROM scrape_snapshots WHERE id = ?')
+        .run(id);
+    }
+  }
+
+  private async raiseLayoutChange(
+    scrape: ScrapeObservation,
+    previous: string,
+    snapshotId?: number,
+  ) {
+    this.database.db
+      .prepare(
+        `INSERT INTO layout_changes (recipe_id, target, previous, current, snapshot_id, detected_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        scrape.recipeId,
+        scrape.target,
+        previous,
+        scrape.fingerprint,
+        snapshotId ?? null,
+        Date.now(),
+      );
+
+    const outcome = scrape.error
+      ? `extraction failed: ${scrape.error}`
+      : `extraction still returned ${scrape.raw}`;
+    const message = `Layout of ${scrape.target} changed (${previous} → ${scrape.fingerprint}), ${outcome}. Snapshot ${snapshotId}.`;
+    this.logger.warn(`Recipe ${scrape.recipeId}: ${message}`);
+    await this.notifier.notify(
+      {
+        title: `[asset-crawler] ${scrape.recipeId} layout changed`,
+        text: message,
+      },
+      this.alertRules.getChannels(this.channels),
+    );
+  }
+}
+
+function toSnapshot(row: SnapshotRow): ScrapeSnapshot {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    target: row.target,
+    vars: JSON.parse(row.vars) as ScrapeSnapshot['vars'],
+    url: row.url,
+    path: row.path,
+    fingerprint: row.fingerprint,
+    value: row.value ?? undefined,
+    raw: row.raw ?? undefined,
+    error: row.error ?? undefined,
+    capturedAt: new Date(row.captured_at),
+  };
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { validateEnvironment } from '../config/env.validation';
+import { DatabaseModule } from '../database/database.module';
+import { SourcesModule } from '../sources/sources.module';
+import { DriftModule } from './drift.module';
+
+// Standalone context for the replay command; nothing here goes online.
+// Sources pull in the Binance stream, which stays off whatever the env says.
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      validate: (config) => ({
+        ...validateEnvironment(config),
+        BINANCE_STREAM_ENABLED: 'false',
+      }),
+    }),
+    DatabaseModule,
+    SourcesModule,
+    DriftModule,
+  ],
+})
+export class ReplayModule {}
@@ -0,0 +1,9 @@
+export type DryRunKind = 'sheets' | 'notification' | 'sink';
+
+/** One line of the dry-run log: what would have been sent, and where. */
+export interface DryRunEntry {
+  at: string; // ISO timestamp
+  kind: DryRunKind;
+  target: string; // Spreadsheet id, channel id or sink URL
+  payload: unknown;
+}
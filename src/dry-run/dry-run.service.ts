@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { DryRunEntry, DryRunKind } from './dry-run.interface';
+
+const DEFAULT_DRY_RUN_LOG = 'data/dry-run.jsonl';
+
+/**
+ * With DRY_RUN=true, sheet writes, notifications and outbound sinks hand
+ * their payload here instead of sending it. Each one is appended to
+ * DRY_RUN_LOG as a JSON line, so a test can assert on what would have
+ * gone out.
+ */
+@Injectable()
+export class DryRunService {
+  private readonly logger = new Logger(DryRunService.name);
+  readonly enabled: boolean;
+  private readonly path: string;
+
+  constructor(configService: ConfigService) {
+    this.enabled = configService.get<string>('DRY_RUN') === 'true';
+    this.path = resolve(
+      configService.get<string>('DRY_RUN_LOG') ?? DEFAULT_DRY_RUN_LOG,
+    );
+    if (this.enabled) {
+      this.logger.warn(`Dry run: nothing is sent, writes go to ${this.path}`);
+    }
+  }
+
+  async capture(
+    kind: DryRunKind,
+    target: string,
+    payload: unknown,
+  ): Promise<void> {
+    const entry: DryRunEntry = {
+      at: new Date().toISOString(),
+      kind,
+      target,
+      payload,
+    };
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(entry) + '\n');
+    this.logger.debug(`Captured ${kind} for ${target}`);
+  }
+}
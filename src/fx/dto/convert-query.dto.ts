@@ -0,0 +1,16 @@
+import { Type } from 'class-transformer';
+import { IsNumber, IsString, Matches } from 'class-validator';
+
+export class ConvertQueryDto {
+  @Type(() => Number)
+  @IsNumber()
+  amount: number;
+
+  @IsString()
+  @Matches(/^[A-Za-z]{3,5}$/)
+  from: string;
+
+  @IsString()
+  @Matches(/^[A-Za-z]{3,5}$/)
+  to: string;
+}
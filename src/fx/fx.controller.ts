@@ -0,0 +1,25 @@
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { FxService } from './fx.service';
+import type { FxConversion, FxRate } from './fx.interface';
+import { ConvertQueryDto } from './dto/convert-query.dto';
+
+@Controller('fx')
+export class FxController {
+  constructor(private readonly fxService: FxService) {}
+
+  @Get('rates')
+  getRates(): FxRate[] {
+    return this.fxService.getRates();
+  }
+
+  @Get('convert')
+  async convert(@Query() query: ConvertQueryDto): Promise<FxConversion> {
+    try {
+      return await this.fxService.convert(query.amount, query.from, query.to);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
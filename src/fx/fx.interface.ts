@@ -0,0 +1,25 @@
+/** 1 `base` buys `rate` units of `quote`, e.g. USD/VND 26010. */
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  source: string; // Provider name
+  fetchedAt: Date;
+}
+
+export interface FxRateProvider {
+  readonly name: string;
+
+  /** Throws when the provider has no usable rates right now. */
+  fetchRates(): Promise<FxRate[]>;
+}
+
+export const FX_RATE_PROVIDERS = Symbol('FX_RATE_PROVIDERS');
+
+export interface FxConversion {
+  value: number;
+  rate: number; // Effective rate from the source to the target currency
+  source: string; // Providers along the path, e.g. 'static+vietcombank'
+  path: string[]; // Currencies visited, e.g. ['USDT', 'USD', 'VND']
+  asOf: Date; // Oldest rate used
+}
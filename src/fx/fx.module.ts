@@ -0,0 +1,42 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { timedHttpModule } from '../common/timed-http';
+import { SourcesModule } from '../sources/sources.module';
+import { HistoryModule } from '../history/history.module';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { FX_RATE_PROVIDERS, FxRateProvider } from './fx.interface';
+import { FxService } from './fx.service';
+import { FxController } from './fx.controller';
+import { UsdtAssetFxProvider } from './providers/usdt-asset.provider';
+import { VietcombankFxProvider } from './providers/vietcombank.provider';
+import { BinancePaxgFxProvider } from './providers/binance-paxg.provider';
+import { StaticFxProvider } from './providers/static.provider';
+
+// Earlier providers win when several quote the same pair; keep static last.
+const FX_PROVIDERS = [
+  UsdtAssetFxProvider,
+  VietcombankFxProvider,
+  BinancePaxgFxProvider,
+  StaticFxProvider,
+];
+
+@Module({
+  // Sources lead back to FX through drift -> alerts
+  imports: [
+    timedHttpModule(),
+    HistoryModule,
+    ResilienceModule,
+    forwardRef(() => SourcesModule),
+  ],
+  controllers: [FxController],
+  providers: [
+    ...FX_PROVIDERS,
+    {
+      provide: FX_RATE_PROVIDERS,
+      useFactory: (...providers: FxRateProvider[]) => providers,
+      inject: FX_PROVIDERS,
+    },
+    FxService,
+  ],
+  exports: [FxService],
+})
+export class FxModule {}
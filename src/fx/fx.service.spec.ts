@@ -0,0 +1,160 @@
+import { ConfigService } from '@nestjs/config';
+import { FxService } from './fx.service';
+import { FxRate, FxRateProvider } from './fx.interface';
+import { BinancePaxgFxProvider } from './providers/binance-paxg.provider';
+
+const NOW = new Date('2025-10-22T09:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+function rate(
+  pair: string,
+  value: number,
+  source: string,
+  fetchedAt = NOW,
+): FxRate {
+  const [base, quote] = pair.split('/');
+  return { base, quote, rate: value, source, fetchedAt };
+}
+
+function provider(name: string, rates: FxRate[] | Error): FxRateProvider {
+  return {
+    name,
+    fetchRates: () =>
+      rates instanceof Error ? Promise.reject(rates) : Promise.resolve(rates),
+  };
+}
+
+function createService(providers: FxRateProvider[]) {
+  return new FxService(
+    new ConfigService({ FX_MAX_AGE_MS: String(12 * HOUR_MS) }),
+    providers,
+  );
+}
+
+describe('FxService', () => {
+  beforeEach(() => jest.useFakeTimers({ now: NOW }));
+  afterEach(() => jest.useRealTimers());
+
+  it('chains rates through a cross currency', async () => {
+    const service = createService([
+      provider('vietcombank', [rate('USD/VND', 26010, 'vietcombank')]),
+      provider('static', [
+        rate('USDT/USD', 1, 'static', new Date(NOW.getTime() - HOUR_MS)),
+      ]),
+    ]);
+
+    const conversion = await service.convert(100, 'usdt', 'VND');
+
+    expect(conversion).toEqual({
+      value: 2601000,
+      rate: 26010,
+      source: 'static+vietcombank',
+      path: ['USDT', 'USD', 'VND'],
+      asOf: new Date(NOW.getTime() - HOUR_MS),
+    });
+  });
+
+  it('converts against a rate in reverse', async () => {
+    const service = createService([
+      provider('vietcombank', [rate('USD/VND', 26000, 'vietcombank')]),
+    ]);
+
+    const conversion = await service.convert(2600000, 'VND', 'USD');
+
+    expect(conversion.value).toBeCloseTo(100);
+    expect(conversion.path).toEqual(['VND', 'USD']);
+  });
+
+  it('prefers the earlier provider for the same pair', async () => {
+    const service = createService([
+      provider('usdt-asset', [rate('USDT/VND', 26412, 'usdt-asset')]),
+      provider('static', [rate('USDT/VND', 26000, 'static')]),
+    ]);
+
+    const conversion = await service.convert(1, 'USDT', 'VND');
+
+    expect(conversion).toMatchObject({ rate: 26412, source: 'usdt-asset' });
+  });
+
+  it('falls back to static rates once the others go stale', async () => {
+    const old = new Date(NOW.getTime() - 13 * HOUR_MS);
+    const service = createService([
+      provider('vietcombank', [rate('USD/VND', 26010, 'vietcombank', old)]),
+      provider('static', [rate('USD/VND', 26000, 'static', old)]),
+    ]);
+
+    const conversion = await service.convert(1, 'USD', 'VND');
+
+    expect(conversion).toMatchObject({ rate: 26000, source: 'static' });
+  });
+
+  it('keeps the rates of providers that did not fail', async () => {
+    const service = createService([
+      provider('vietcombank', new Error('Request failed with status code 503')),
+      provider('static', [rate('USD/VND', 26000, 'static')]),
+    ]);
+
+    await expect(service.convert(1, 'USD', 'VND')).resolves.toMatchObject({
+      source: 'static',
+    });
+    expect(service.getRates()).toHaveLength(1);
+  });
+
+  it('returns the amount unchanged between the same currency', async () => {
+    const service = createService([]);
+
+    await expect(service.convert(5, 'vnd', 'VND')).resolves.toMatchObject({
+      value: 5,
+      rate: 1,
+      source: 'identity',
+    });
+  });
+
+  it('throws when no rates connect the currencies', async () => {
+    const service = createService([
+      provider('static', [rate('USDT/USD', 1, 'static')]),
+    ]);
+
+    await expect(service.convert(1, 'USD', 'VND')).rejects.toThrow(
+      'No FX rate available from USD to VND',
+    );
+  });
+});
+
+describe('BinancePaxgFxProvider', () => {
+  it('fetches the PAXG ticker through the shared Binance breaker', async () => {
+    const signal = new AbortController().signal;
+    const fetchQuote = jest.fn(() =>
+      Promise.resolve({ price: 4120.5, timestamp: NOW }),
+    );
+    const execute = jest.fn(
+      async (
+        _key: string,
+        task: (signal: AbortSignal) => Promise<unknown>,
+      ) => ({
+        value: await task(signal),
+        attempts: 1,
+      }),
+    );
+
+    const rates = await new BinancePaxgFxProvider(
+      { get: () => ({ fetchQuote }) } as never,
+      { execute } as never,
+    ).fetchRates();
+
+    expect(execute).toHaveBeenCalledWith(
+      'binance-ticker:PAXGUSDT',
+      expect.any(Function),
+    );
+    expect(fetchQuote).toHaveBeenCalledWith('PAXGUSDT', undefined, signal);
+    expect(rates).toEqual([
+      {
+        base: 'XAU',
+        quote: 'USDT',
+        rate: 4120.5,
+        source: 'binance-paxg',
+        fetchedAt: NOW,
+      },
+    ]);
+  });
+});
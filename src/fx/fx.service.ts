@@ -0,0 +1,180 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  FX_RATE_PROVIDERS,
+  FxConversion,
+  FxRate,
+  FxRateProvider,
+} from './fx.interface';
+
+const STATIC_PROVIDER = 'static';
+
+/**
+ * Keeps the latest rates from every provider and converts between any two
+ * currencies they connect, directly or through cross rates. For each pair
+ * the first provider in FX_PROVIDERS with a fresh rate wins; static
+ * rates never go stale and act as the fallback.
+ */
+@Injectable()
+export class FxService {
+  private readonly logger = new Logger(FxService.name);
+  private readonly maxAgeMs: number;
+  private readonly rates = new Map<string, FxRate>(); // provider|BASE/QUOTE
+  private refreshing?: Promise<void>;
+  private refreshedAt?: Date;
+
+  constructor(
+    configService: ConfigService,
+    @Inject(FX_RATE_PROVIDERS) private readonly providers: FxRateProvider[],
+  ) {
+    this.maxAgeMs = Number(
+      configService.get<string>('FX_MAX_AGE_MS') ?? 12 * 60 * 60 * 1000,
+    );
+  }
+
+  @Cron(CronExpression.EVERY_30_MINUTES)
+  async refresh(): Promise<void> {
+    this.refreshing ??= this.fetchAll().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  getRates(): FxRate[] {
+    return [...this.rates.values()];
+  }
+
+  /** Throws when no chain of usable rates connects the two currencies. */
+  async convert(
+    amount: number,
+    from: string,
+    to: string,
+  ): Promise<FxConversion> {
+    if (!this.refreshedAt) {
+      await this.refresh();
+    }
+    from = from.toUpperCase();
+    to = to.toUpperCase();
+    if (from === to) {
+      return {
+        value: amount,
+        rate: 1,
+        source: 'identity',
+        path: [from],
+        asOf: new Date(),
+      };
+    }
+
+    const steps = this.findPath(from, to);
+    if (!steps) {
+      throw new Error(`No FX rate available from ${from} to ${to}`);
+    }
+    const rate = steps.reduce((product, step) => product * step.rate, 1);
+    return {
+      value: amount * rate,
+      rate,
+      source: [...new Set(steps.map((step) => step.source))].join('+'),
+      path: [from, ...steps.map((step) => step.to)],
+      asOf: new Date(
+        Math.min(...steps.map((step) => step.fetchedAt.getTime())),
+      ),
+    };
+  }
+
+  private async fetchAll() {
+    const results = await Promise.allSettled(
+      this.providers.map((provider) => provider.fetchRates()),
+    );
+    results.forEach((result, i) => {
+      const provider = this.providers[i].name;
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `FX provider ${provider} failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`,
+        );
+        return;
+      }
+      for (const rate of result.value) {
+        this.rates.set(`${provider}|${rate.base}/${rate.quote}`, rate);
+      }
+    });
+    this.refreshedAt = new Date();
+    this.logger.log(`Refreshed FX rates, ${this.rates.size} known`);
+  }
+
+  /** Breadth-first, so the fewest hops win; edges go both ways. */
+  private findPath(from: string, to: string) {
+    const edges = this.bestEdges();
+    const previous = new Map<string, Edge>();
+    const queue = [from];
+    const seen = new Set(queue);
+
+    while (queue.length > 0) {
+      const currency = queue.shift()!;
+      if (currency === to) break;
+      for (const edge of edges.get(currency) ?? []) {
+        if (seen.has(edge.to)) continue;
+        seen.add(edge.to);
+        previous.set(edge.to, edge);
+        queue.push(edge.to);
+      }
+    }
+
+    if (!previous.has(to)) return null;
+    const steps: Edge[] = [];
+    for (let at = to; at !== from; at = previous.get(at)!.from) {
+      steps.unshift(previous.get(at)!);
+    }
+    return steps;
+  }
+
+  private bestEdges(): Map<string, Edge[]> {
+    const rank = new Map(this.providers.map((p, i) => [p.name, i]));
+    const best = new Map<string, Edge>();
+
+    for (const rate of this.rates.values()) {
+      const stale =
+        rate.source !== STATIC_PROVIDER &&
+        Date.now() - rate.fetchedAt.getTime() > this.maxAgeMs;
+      if (stale) continue;
+
+      const priority = rank.get(rate.source) ?? Number.MAX_SAFE_INTEGER;
+      const forward: Edge = {
+        from: rate.base,
+        to: rate.quote,
+        rate: rate.rate,
+        source: rate.source,
+        fetchedAt: rate.fetchedAt,
+        priority,
+      };
+      const inverse: Edge = {
+        ...forward,
+        from: rate.quote,
+        to: rate.base,
+        rate: 1 / rate.rate,
+      };
+      for (const edge of [forward, inverse]) {
+        const key = `${edge.from}/${edge.to}`;
+        const current = best.get(key);
+        if (!current || edge.priority < current.priority) {
+          best.set(key, edge);
+        }
+      }
+    }
+
+    const edges = new Map<string, Edge[]>();
+    for (const edge of best.values()) {
+      edges.set(edge.from, [...(edges.get(edge.from) ?? []), edge]);
+    }
+    return edges;
+  }
+}
+
+interface Edge {
+  from: string;
+  to: string;
+  rate: number;
+  source: string;
+  fetchedAt: Date;
+  priority: number; // Position of the provider, lower wins
+}
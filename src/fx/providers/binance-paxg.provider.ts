@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { PriceSourceRegistry } from '../../sources/price-source.registry';
+import {
+  breakerKey,
+  ResilienceService,
+} from '../../resilience/resilience.service';
+import { FxRate, FxRateProvider } from '../fx.interface';
+
+const SOURCE = 'binance-ticker';
+const SYMBOL = 'PAXGUSDT';
+
+/**
+ * XAU/USDT from the PAXG ticker; one PAXG is backed by one troy ounce.
+ * Shares the breaker of a PAXGUSDT asset, so an outage trips it once.
+ */
+@Injectable()
+export class BinancePaxgFxProvider implements FxRateProvider {
+  readonly name = 'binance-paxg';
+
+  constructor(
+    private readonly priceSources: PriceSourceRegistry,
+    private readonly resilience: ResilienceService,
+  ) {}
+
+  async fetchRates(): Promise<FxRate[]> {
+    const source = this.priceSources.get(SOURCE);
+    const { value: quote } = await this.resilience.execute(
+      breakerKey(SOURCE, SYMBOL),
+      (signal) => source.fetchQuote(SYMBOL, undefined, signal),
+    );
+    return [
+      {
+        base: 'XAU',
+        quote: 'USDT',
+        rate: quote.price,
+        source: this.name,
+        fetchedAt: quote.timestamp,
+      },
+    ];
+  }
+}
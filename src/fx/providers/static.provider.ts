@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FxRate, FxRateProvider } from '../fx.interface';
+
+const DEFAULT_STATIC_RATES = 'USDT/USD=1';
+
+/**
+ * Last-resort rates from FX_STATIC_RATES, e.g. "USDT/USD=1,USD/VND=26000".
+ * They never go stale, so they only win when nothing fresher exists.
+ */
+@Injectable()
+export class StaticFxProvider implements FxRateProvider {
+  readonly name = 'static';
+  private readonly rates: FxRate[];
+
+  constructor(configService: ConfigService) {
+    const spec =
+      configService.get<string>('FX_STATIC_RATES') ?? DEFAULT_STATIC_RATES;
+    const loadedAt = new Date();
+
+    this.rates = spec
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const match = /^([A-Z]{3,5})\/([A-Z]{3,5})=([\d.]+)$/i.exec(entry);
+        const rate = Number(match?.[3]);
+        if (!match || !(rate > 0)) {
+          throw new Error(
+            `Invalid FX_STATIC_RATES entry "${entry}", expected BASE/QUOTE=rate`,
+          );
+        }
+        return {
+          base: match[1].toUpperCase(),
+          quote: match[2].toUpperCase(),
+          rate,
+          source: this.name,
+          fetchedAt: loadedAt,
+        };
+      });
+  }
+
+  fetchRates(): Promise<FxRate[]> {
+    return Promise.resolve(this.rates);
+  }
+}
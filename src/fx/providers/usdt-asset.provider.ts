@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceHistoryService } from '../../history/price-history.service';
+import { FxRate, FxRateProvider } from '../fx.interface';
+
+const DEFAULT_FX_USDT_ASSET = 'USDT';
+
+/**
+ * USDT/VND, the rate crypto trades at locally, taken from the latest stored
+ * value of the USDT asset. The crawler keeps that fresh, so FX never opens
+ * a browser of its own.
+ */
+@Injectable()
+export class UsdtAssetFxProvider implements FxRateProvider {
+  readonly name = 'usdt-asset';
+  private readonly assetId: string;
+
+  constructor(
+    private readonly priceHistory: PriceHistoryService,
+    configService: ConfigService,
+  ) {
+    this.assetId =
+      configService.get<string>('FX_USDT_ASSET') ?? DEFAULT_FX_USDT_ASSET;
+  }
+
+  fetchRates(): Promise<FxRate[]> {
+    const latest = this.priceHistory.getLatest(this.assetId);
+    if (!latest) {
+      return Promise.reject(
+        new Error(`No ${this.assetId} price has been stored yet`),
+      );
+    }
+    return Promise.resolve([
+      {
+        base: 'USDT',
+        quote: latest.valueCurrency,
+        rate: latest.value,
+        source: this.name,
+        fetchedAt: latest.fetchedAt,
+      },
+    ]);
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { load } from 'cheerio';
+import { firstValueFrom } from 'rxjs';
+import { parseNumber } from '../../units/vn-number';
+import { FxRate, FxRateProvider } from '../fx.interface';
+
+const DEFAULT_VIETCOMBANK_XML_URL =
+  'https://portal.vietcombank.com.vn/Usercontrols/TVPortal.TyGia/pXML.aspx';
+
+/**
+ * Vietcombank's published table, e.g.
+ * <Exrate CurrencyCode="USD" Buy="25,980.00" Transfer="26,010.00" Sell="26,370.00"/>.
+ * Uses the transfer rate; currencies without one ("-") are skipped.
+ */
+@Injectable()
+export class VietcombankFxProvider implements FxRateProvider {
+  readonly name = 'vietcombank';
+  private readonly url: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.url =
+      configService.get<string>('VIETCOMBANK_RATES_URL') ??
+      DEFAULT_VIETCOMBANK_XML_URL;
+  }
+
+  async fetchRates(): Promise<FxRate[]> {
+    const { data } = await firstValueFrom(
+      this.httpService.get<string>(this.url, {
+        responseType: 'text',
+      }),
+    );
+    const $ = load(data, { xml: true });
+    const fetchedAt = new Date();
+
+    const rates = $('Exrate')
+      .toArray()
+      .flatMap((el) => {
+        const code = $(el).attr('CurrencyCode')?.trim();
+        const transfer = $(el).attr('Transfer');
+        if (!code || !transfer || !/\d/.test(transfer)) return [];
+        const rate = parseNumber(transfer, 'en-US');
+        return rate > 0
+          ? [{ base: code, quote: 'VND', rate, source: this.name, fetchedAt }]
+          : [];
+      });
+
+    if (rates.length === 0) {
+      throw new Error('Vietcombank rate table has no usable rates');
+    }
+    return rates;
+  }
+}
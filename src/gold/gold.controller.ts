@@ -0,0 +1,31 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../common/api-key.guard';
+import { GoldService } from './gold.service';
+import type { GoldComparison } from './gold.interface';
+
+@Controller('gold')
+export class GoldController {
+  constructor(private readonly goldService: GoldService) {}
+
+  @Get('comparison')
+  getComparison(): GoldComparison {
+    return this.goldService.getComparison();
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  refresh(): Promise<GoldComparison> {
+    if (!this.goldService.isEnabled()) {
+      throw new NotFoundException('Gold comparison is not configured');
+    }
+    return this.goldService.refresh();
+  }
+}
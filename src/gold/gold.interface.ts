@@ -0,0 +1,54 @@
+import { SheetTarget } from '../assets/asset.interface';
+
+export const GOLD_PRODUCTS = [
+  'sjc-bar', // SJC 1 lượng bars
+  'ring-9999', // Plain 9999 rings
+] as const;
+
+export type GoldProduct = (typeof GOLD_PRODUCTS)[number];
+
+export interface GoldDealerConfig {
+  id: string; // e.g. 'pnj'
+  name: string;
+  recipe: string; // Scrape recipe run once per product and side
+  vars?: Record<string, string>; // Extra recipe placeholders, e.g. { dealer: 'pnj' }
+  products: Partial<Record<GoldProduct, string>>; // Product -> {symbol} on the dealer page
+}
+
+export interface GoldConfig {
+  schedule?: string; // Defaults to EVERY_HOUR
+  sides?: { buy: string; sell: string }; // {side} text, defaults to MUA VÀO / BÁN RA
+  dealers: GoldDealerConfig[];
+  target?: SheetTarget; // Top-left cell of the comparison table
+}
+
+/** Prices in VND per lượng. `buy` is what the dealer pays you. */
+export interface DealerPrice {
+  dealer: string;
+  product: GoldProduct;
+  buy: number;
+  sell: number;
+  fetchedAt: Date;
+}
+
+export interface GoldSpot {
+  usdPerOunce: number;
+  vndPerLuong: number;
+  vndPerChi: number;
+  fxSource: string;
+  fetchedAt: Date;
+}
+
+export interface GoldComparisonRow extends DealerPrice {
+  dealerName: string;
+  spread: number; // sell - buy
+  buyPremiumPercent: number | null; // Versus spot, null without spot
+  sellPremiumPercent: number | null;
+}
+
+export interface GoldComparison {
+  spot: GoldSpot | null;
+  rows: GoldComparisonRow[];
+  bestToBuy: Partial<Record<GoldProduct, string>>; // Dealer with the lowest sell price
+  bestToSell: Partial<Record<GoldProduct, string>>; // Dealer with the highest buy price
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { SourcesModule } from '../sources/sources.module';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { FxModule } from '../fx/fx.module';
+import { SheetsModule } from '../sheets/sheets.module';
+import { GoldService } from './gold.service';
+import { GoldController } from './gold.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    SourcesModule,
+    ResilienceModule,
+    FxModule,
+    SheetsModule,
+  ],
+  controllers: [GoldController],
+  providers: [GoldService],
+  exports: [GoldService],
+})
+export class GoldModule {}
@@ -0,0 +1,171 @@
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GoldService } from './gold.service';
+import { GoldConfig } from './gold.interface';
+import { ResilienceService } from '../resilience/resilience.service';
+import {
+  createRecipeEngine,
+  readFixture,
+} from '../sources/__fixtures__/recipe-engine';
+
+const CONFIG: GoldConfig = {
+  dealers: [
+    {
+      id: 'doji',
+      name: 'DOJI',
+      recipe: 'giavang-org',
+      vars: { dealer: 'doji' },
+      products: { 'sjc-bar': 'Giá vàng SJC', 'ring-9999': 'Giá vàng Nhẫn' },
+    },
+    {
+      id: 'pnj',
+      name: 'PNJ',
+      recipe: 'giavang-org',
+      vars: { dealer: 'pnj' },
+      products: { 'sjc-bar': 'Vàng miếng SJC' },
+    },
+  ],
+  target: { sheet: 'Gold', cell: 'A1' },
+};
+
+// 140 million VND per lượng, expressed per troy ounce as the FX path gives it
+const VND_PER_OUNCE = (140_000_000 * 31.1034768) / 37.5;
+
+describe('GoldService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gold-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  function createService(spot = true) {
+    const path = join(dir, 'gold.json');
+    writeFileSync(path, JSON.stringify(CONFIG));
+    const config = new ConfigService({
+      GOLD_CONFIG_PATH: path,
+      RETRY_MAX_ATTEMPTS: '1',
+    });
+    const { engine, drift } = createRecipeEngine(
+      readFixture('giavang-doji.html'),
+    );
+    const fxService = {
+      convert: jest.fn((amount: number, _from: string, to: string) =>
+        spot
+          ? Promise.resolve({
+              value: amount * (to === 'USD' ? 4000 : VND_PER_OUNCE),
+              source: 'binance-paxg+usdt-asset',
+              asOf: new Date('2025-10-22T09:00:00Z'),
+            })
+          : Promise.reject(new Error('No FX rate available from XAU to VND')),
+      ),
+    };
+    const sheetsWriter = { writeRows: jest.fn(() => Promise.resolve()) };
+
+    const service = new GoldService(
+      config,
+      { db: new Database(':memory:') } as never,
+      {} as never,
+      engine,
+      new ResilienceService(config),
+      fxService as never,
+      sheetsWriter as never,
+    );
+    service.onModuleInit();
+    return { service, sheetsWriter, drift };
+  }
+
+  it('prices each product against spot gold per lượng', async () => {
+    const { service } = createService();
+
+    const comparison = await service.refresh();
+
+    expect(comparison.spot).toMatchObject({
+      usdPerOunce: 4000,
+      vndPerChi: 14_000_000,
+    });
+    expect(comparison.spot?.vndPerLuong).toBeCloseTo(140_000_000);
+    const bar = comparison.rows.find((row) => row.product === 'sjc-bar');
+    expect(bar).toMatchObject({
+      dealer: 'doji',
+      dealerName: 'DOJI',
+      buy: 146_800_000,
+      sell: 148_800_000,
+      spread: 2_000_000,
+    });
+    expect(bar?.buyPremiumPercent).toBeCloseTo(4.857, 3);
+    expect(bar?.sellPremiumPercent).toBeCloseTo(6.286, 3);
+  });
+
+  it('leaves out a dealer whose page lacks its products', async () => {
+    const { service } = createService();
+
+    const comparison = await service.refresh();
+
+    expect(comparison.rows.map((row) => row.dealer)).toEqual(['doji', 'doji']);
+    expect(comparison.bestToBuy).toEqual({
+      'sjc-bar': 'doji',
+      'ring-9999': 'doji',
+    });
+  });
+
+  it('compares dealers without premiums when spot is unavailable', async () => {
+    const { service } = createService(false);
+
+    const comparison = await service.refresh();
+
+    expect(comparison.spot).toBeNull();
+    expect(comparison.rows).toHaveLength(2);
+    expect(
+      comparison.rows.every(
+        (row) =>
+          row.buyPremiumPercent === null && row.sellPremiumPercent === null,
+      ),
+    ).toBe(true);
+  });
+
+  it('stores the snapshot and writes the table to the sheet', async () => {
+    const { service, sheetsWriter } = createService();
+
+    await service.refresh();
+    const stored = service.getComparison();
+
+    expect(stored.rows.map((row) => [row.product, row.sell])).toEqual([
+      ['ring-9999', 148_300_000],
+      ['sjc-bar', 148_800_000],
+    ]);
+    expect(stored.spot?.vndPerLuong).toBeCloseTo(140_000_000);
+    expect(sheetsWriter.writeRows).toHaveBeenCalledWith(
+      CONFIG.target,
+      expect.arrayContaining([
+        ['DOJI', 'sjc-bar', 146_800_000, 148_800_000, 2_000_000, 4.86, 6.29],
+        ['Spot (PAXG)', 'VND/lượng', 140_000_000, null, null, null, null],
+      ]),
+    );
+  });
+
+  it('reports every dealer scrape to drift detection', async () => {
+    const { service, drift } = createService();
+
+    await service.refresh();
+
+    expect(drift.observe).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipeId: 'giavang-org',
+        target: 'https://giavang.org/trong-nuoc/doji/ Giá vàng SJC',
+        value: 146_800_000,
+      }),
+    );
+    expect(drift.observe).toHaveBeenCalledWith(
+      expect.objectContaining({
+        target: 'https://giavang.org/trong-nuoc/pnj/ Vàng miếng SJC',
+        fingerprint: 'missing',
+        error: 'Recipe "giavang-org" matched no element for "Vàng miếng SJC"',
+      }),
+    );
+  });
+});
@@ -0,0 +1,403 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { DatabaseService } from '../database/database.service';
+import { resolveSchedule } from '../assets/schedule';
+import { RecipeEngineService } from '../sources/recipes/recipe-engine.service';
+import { ResilienceService } from '../resilience/resilience.service';
+import { FxService } from '../fx/fx.service';
+import { SheetsWriterService } from '../sheets/sheets-writer.service';
+import { convertWeight } from '../units/price-unit';
+import {
+  DealerPrice,
+  GOLD_PRODUCTS,
+  GoldComparison,
+  GoldComparisonRow,
+  GoldConfig,
+  GoldDealerConfig,
+  GoldSpot,
+} from './gold.interface';
+
+const DEFAULT_GOLD_CONFIG_PATH = 'config/gold.json';
+const DEFAULT_SIDES = { buy: 'MUA VÀO', sell: 'BÁN RA' };
+const JOB_NAME = 'gold:compare';
+
+interface DealerPriceRow {
+  dealer: string;
+  product: DealerPrice['product'];
+  buy: number;
+  sell: number;
+  fetched_at: number;
+}
+
+interface GoldSpotRow {
+  usd_per_ounce: number;
+  vnd_per_luong: number;
+  fx_source: string;
+  fetched_at: number;
+}
+
+/**
+ * Collects SJC bar and 9999 ring prices from several dealers, compares them
+ * with world spot gold (PAXG via the FX service) and keeps every snapshot.
+ * Disabled when config/gold.json does not exist.
+ */
+@Injectable()
+export class GoldService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(GoldService.name);
+  private config?: GoldConfig;
+  private running?: Promise<GoldComparison>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly database: DatabaseService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly recipes: RecipeEngineService,
+    private readonly resilience: ResilienceService,
+    private readonly fxService: FxService,
+    private readonly sheetsWriter: SheetsWriterService,
+  ) {}
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS gold_prices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dealer TEXT NOT NULL,
+        product TEXT NOT NULL,
+        buy REAL NOT NULL,
+        sell REAL NOT NULL,
+        fetched_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS gold_prices_dealer_product
+        ON gold_prices (dealer, product, fetched_at);
+
+      CREATE TABLE IF NOT EXISTS gold_spot (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        usd_per_ounce REAL NOT NULL,
+        vnd_per_luong REAL NOT NULL,
+        fx_source TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL
+      );
+    `);
+
+    const path = resolve(
+      this.configService.get<string>('GOLD_CONFIG_PATH') ??
+        DEFAULT_GOLD_CONFIG_PATH,
+    );
+    if (!existsSync(path)) {
+      this.logger.log(`No gold config at ${path}, gold comparison disabled`);
+      return;
+    }
+    this.config = this.check(
+      JSON.parse(readFileSync(path, 'utf8')) as GoldConfig,
+    );
+    this.logger.log(
+      `Loaded ${this.config.dealers.length} gold dealers from ${path}`,
+    );
+  }
+
+  onApplicationBootstrap() {
+    if (!this.config) return;
+
+    const schedule = resolveSchedule(this.config.schedule ?? 'EVERY_HOUR');
+    const job = CronJob.from({
+      cronTime: schedule,
+      onTick: () => void this.refresh().catch(() => undefined),
+    });
+    this.schedulerRegistry.addCronJob(JOB_NAME, job);
+    job.start();
+    this.logger.log(`Scheduled gold comparison at "${schedule}"`);
+  }
+
+  isEnabled(): boolean {
+    return this.config !== undefined;
+  }
+
+  /** Scrapes every dealer, stores the snapshot and returns the comparison. */
+  refresh(): Promise<GoldComparison> {
+    if (!this.config) {
+      return Promise.reject(new Error('Gold comparison is not configured'));
+    }
+    this.running ??= this.collect(this.config).finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  getComparison(): GoldComparison {
+    const rows = this.database.db
+      .prepare(
+        `SELECT p.* FROM gold_prices p
+         JOIN (
+           SELECT dealer, product, MAX(fetched_at) AS latest
+           FROM gold_prices GROUP BY dealer, product
+         ) l ON l.dealer = p.dealer AND l.product = p.product
+           AND l.latest = p.fetched_at
+         ORDER BY p.product, p.dealer`,
+      )
+      .all() as DealerPriceRow[];
+    const spot = this.database.db
+      .prepare('SELECT * FROM gold_spot ORDER BY fetched_at DESC LIMIT 1')
+      .get() as GoldSpotRow | undefined;
+
+    return compare(
+      rows.map((row) => ({
+        dealer: row.dealer,
+        product: row.product,
+        buy: row.buy,
+        sell: row.sell,
+        fetchedAt: new Date(row.fetched_at),
+      })),
+      spot ? toSpot(spot) : null,
+      this.config?.dealers ?? [],
+    );
+  }
+
+  private async collect(config: GoldConfig): Promise<GoldComparison> {
+    const spot = await this.fetchSpot();
+    const prices: DealerPrice[] = [];
+
+    // One dealer at a time; each page load goes through the browser pool
+    for (const dealer of config.dealers) {
+      try {
+        const { value } = await this.resilience.execute(
+          `gold:${dealer.id}`,
+          (signal) => this.fetchDealer(dealer, config, signal),
+        );
+        prices.push(...value);
+      } catch (error) {
+        this.logger.error(
+          `Failed to fetch gold prices from ${dealer.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    this.store(prices, spot);
+    const comparison = compare(prices, spot, config.dealers);
+    this.logger.log(
+      `Gold comparison: ${prices.length} dealer prices, spot ${spot ? Math.round(spot.vndPerLuong) : 'unavailable'} VND/lượng`,
+    );
+
+    if (config.target) {
+      await this.sheetsWriter
+        .writeRows(config.target, toSheetRows(comparison))
+        .catch((error) =>
+          this.logger.error(
+            `Failed to write gold comparison to sheet: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+    }
+    return comparison;
+  }
+
+  private async fetchDealer(
+    dealer: GoldDealerConfig,
+    config: GoldConfig,
+    signal: AbortSignal,
+  ): Promise<DealerPrice[]> {
+    const recipe = this.recipes.get(dealer.recipe)!;
+    const sides = config.sides ?? DEFAULT_SIDES;
+    const html = await this.recipes.fetchHtml(
+      recipe,
+      { ...dealer.vars, symbol: '' },
+      signal,
+    );
+    const fetchedAt = new Date();
+
+    const prices: DealerPrice[] = [];
+    for (const product of GOLD_PRODUCTS) {
+      const symbol = dealer.products[product];
+      if (!symbol) continue;
+      try {
+        // Through drift detection, like any other recipe scrape
+        const read = async (side: string) => {
+          const result = await this.recipes.scrape(recipe, html, {
+            ...dealer.vars,
+            symbol,
+            side,
+          });
+          return convertWeight(result.value, result.per ?? 'lượng', 'lượng');
+        };
+        const buy = await read(sides.buy);
+        const sell = await read(sides.sell);
+        prices.push({ dealer: dealer.id, product, buy, sell, fetchedAt });
+      } catch (error) {
+        this.logger.warn(
+          `No ${product} price from ${dealer.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    if (prices.length === 0) {
+      throw new Error(
+        `${dealer.name} page had none of the configured products`,
+      );
+    }
+    return prices;
+  }
+
+  // PAXG tracks one troy ounce; the FX service converts it through USDT.
+  private async fetchSpot(): Promise<GoldSpot | null> {
+    try {
+      const usd = await this.fxService.convert(1, 'XAU', 'USD');
+      const vnd = await this.fxService.convert(1, 'XAU', 'VND');
+      const vndPerLuong = convertWeight(vnd.value, 'troy-ounce', 'lượng');
+      return {
+        usdPerOunce: usd.value,
+        vndPerLuong,
+        vndPerChi: convertWeight(vndPerLuong, 'lượng', 'chỉ'),
+        fxSource: vnd.source,
+        fetchedAt: vnd.asOf,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `No spot gold price, premiums unavailable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private store(prices: DealerPrice[], spot: GoldSpot | null) {
+    const insert = this.database.db.prepare(
+      `INSERT INTO gold_prices (dealer, product, buy, sell, fetched_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    );
+    this.database.db.transaction(() => {
+      for (const price of prices) {
+        insert.run(
+          price.dealer,
+          price.product,
+          price.buy,
+          price.sell,
+          price.fetchedAt.getTime(),
+        );
+      }
+      if (spot) {
+        this.database.db
+          .prepare(
+            `INSERT INTO gold_spot (usd_per_ounce, vnd_per_luong, fx_source, fetched_at)
+             VALUES (?, ?, ?, ?)`,
+          )
+          .run(
+            spot.usdPerOunce,
+            spot.vndPerLuong,
+            spot.fxSource,
+            spot.fetchedAt.getTime(),
+          );
+      }
+    })();
+  }
+
+  private check(config: GoldConfig): GoldConfig {
+    if (!Array.isArray(config?.dealers) || config.dealers.length === 0) {
+      throw new Error('Gold config needs a non-empty "dealers" list');
+    }
+    for (const dealer of config.dealers) {
+      const label = `Gold dealer "${dealer.id}"`;
+      if (!dealer.id || !dealer.name || !dealer.products) {
+        throw new Error(`${label} needs "id", "name" and "products"`);
+      }
+      if (!this.recipes.get(dealer.recipe)) {
+        throw new Error(`${label} uses unknown recipe "${dealer.recipe}"`);
+      }
+      for (const product of Object.keys(dealer.products)) {
+        if (!GOLD_PRODUCTS.includes(product as DealerPrice['product'])) {
+          throw new Error(`${label} has unknown product "${product}"`);
+        }
+      }
+    }
+    if (config.target && (!config.target.sheet || !config.target.cell)) {
+      throw new Error('Gold config "target" needs "sheet" and "cell"');
+    }
+    resolveSchedule(config.schedule ?? 'EVERY_HOUR');
+    return config;
+  }
+}
+
+function compare(
+  prices: DealerPrice[],
+  spot: GoldSpot | null,
+  dealers: GoldDealerConfig[],
+): GoldComparison {
+  const premium = (price: number) =>
+    spot ? (price / spot.vndPerLuong - 1) * 100 : null;
+
+  const rows: GoldComparisonRow[] = prices.map((price) => ({
+    ...price,
+    dealerName:
+      dealers.find((dealer) => dealer.id === price.dealer)?.name ??
+      price.dealer,
+    spread: price.sell - price.buy,
+    buyPremiumPercent: premium(price.buy),
+    sellPremiumPercent: premium(price.sell),
+  }));
+
+  const comparison: GoldComparison = {
+    spot,
+    rows,
+    bestToBuy: {},
+    bestToSell: {},
+  };
+  for (const product of GOLD_PRODUCTS) {
+    const offers = rows.filter((row) => row.product === product);
+    if (offers.length === 0) continue;
+    comparison.bestToBuy[product] = offers.reduce((a, b) =>
+      b.sell < a.sell ? b : a,
+    ).dealer;
+    comparison.bestToSell[product] = offers.reduce((a, b) =>
+      b.buy > a.buy ? b : a,
+    ).dealer;
+  }
+  return comparison;
+}
+
+function toSpot(row: GoldSpotRow): GoldSpot {
+  return {
+    usdPerOunce: row.usd_per_ounce,
+    vndPerLuong: row.vnd_per_luong,
+    vndPerChi: convertWeight(row.vnd_per_luong, 'lượng', 'chỉ'),
+    fxSource: row.fx_source,
+    fetchedAt: new Date(row.fetched_at),
+  };
+}
+
+function toSheetRows(comparison: GoldComparison): (string | number | null)[][] {
+  const round = (value: number | null) =>
+    value === null ? null : Math.round(value * 100) / 100;
+  return [
+    [
+      'Dealer',
+      'Product',
+      'Buy',
+      'Sell',
+      'Spread',
+      'Buy premium %',
+      'Sell premium %',
+    ],
+    ...comparison.rows.map((row) => [
+      row.dealerName,
+      row.product,
+      row.buy,
+      row.sell,
+      row.spread,
+      round(row.buyPremiumPercent),
+      round(row.sellPremiumPercent),
+    ]),
+    [
+      'Spot (PAXG)',
+      'VND/lượng',
+      comparison.spot && Math.round(comparison.spot.vndPerLuong),
+      null,
+      null,
+      null,
+      null,
+    ],
+  ];
+}
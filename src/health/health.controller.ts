@@ -0,0 +1,24 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { HealthService } from './health.service';
+import type { HealthReport } from './health.interface';
+
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  // The process is up and serving requests; restart only when this fails
+  @Get('live')
+  live() {
+    return this.healthService.live();
+  }
+
+  // 503 with the full report when any check is down
+  @Get('ready')
+  async ready(): Promise<HealthReport> {
+    const report = await this.healthService.ready();
+    if (report.status === 'down') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,14 @@
+// 'degraded' still serves traffic; only 'down' fails the readiness probe
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+export interface HealthCheck {
+  name: string; // e.g. 'browser', 'source:dnse-stock', 'freshness:VCB'
+  status: HealthStatus;
+  detail?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus; // Worst of the checks
+  checkedAt: Date;
+  checks: HealthCheck[];
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { timedHttpModule } from '../common/timed-http';
+import { AssetsModule } from '../assets/assets.module';
+import { BrowserModule } from '../browser/browser.module';
+import { SheetsModule } from '../sheets/sheets.module';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { HistoryModule } from '../history/history.module';
+import { CalendarModule } from '../calendar/calendar.module';
+import { ObservabilityModule } from '../observability/observability.module';
+import { StreamingModule } from '../streaming/streaming.module';
+import { DryRunModule } from '../dry-run/dry-run.module';
+import { HealthService } from './health.service';
+import { KeepaliveService } from './keepalive.service';
+import { HealthController } from './health.controller';
+
+@Module({
+  imports: [
+    timedHttpModule(),
+    AssetsModule,
+    BrowserModule,
+    SheetsModule,
+    ResilienceModule,
+    HistoryModule,
+    CalendarModule,
+    ObservabilityModule,
+    StreamingModule,
+    DryRunModule,
+  ],
+  controllers: [HealthController],
+  providers: [HealthService, KeepaliveService],
+})
+export class HealthModule {}
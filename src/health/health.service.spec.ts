@@ -0,0 +1,238 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { AssetConfig } from '../assets/asset.interface';
+
+const NOW = new Date('2025-10-22T09:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  exchange: 'HOSE',
+  sinks: [{ type: 'google-sheets', sheet: 'Detail', cell: 'E19' }],
+};
+const FPT: AssetConfig = { ...VCB, id: 'FPT', symbol: 'FPT', sinks: [] };
+const BTC: AssetConfig = {
+  id: 'BTC',
+  source: 'binance-ticker',
+  symbol: 'BTCUSDT',
+  currency: 'USDT',
+  schedule: '0 */5 * * * *',
+  sinks: [],
+};
+
+function createService() {
+  const state = {
+    assets: [VCB, FPT, BTC],
+    launchError: undefined as string | undefined,
+    credentials: () => Promise.resolve('crawler@project.iam'),
+    dryRun: false,
+    openBreakers: new Set<string>(),
+    lastOutcome: new Map<string, string>(),
+    quotedAt: new Map<string, Date>([
+      ['VCB', new Date('2025-10-21T08:00:00Z')],
+      ['FPT', new Date('2025-10-21T08:00:00Z')],
+    ]),
+    fetchedAt: new Map<string, Date>([
+      ['BTC', new Date(NOW.getTime() - HOUR_MS)],
+    ]),
+    stream: { enabled: false, connected: false, reconnects: 0 },
+  };
+
+  const service = new HealthService(
+    new ConfigService({ HEALTH_MAX_AGE_HOURS: '26' }),
+    { getEnabled: () => state.assets } as never,
+    {
+      getStatus: () => ({
+        running: true,
+        activePages: 1,
+        waiting: 0,
+        lastLaunchError: state.launchError,
+      }),
+    } as never,
+    { checkCredentials: () => state.credentials() } as never,
+    {
+      getBreakerState: (key: string) => ({
+        state: state.openBreakers.has(key) ? 'open' : 'closed',
+      }),
+    } as never,
+    {
+      getLatest: (id: string) =>
+        state.quotedAt.has(id) || state.fetchedAt.has(id)
+          ? {
+              quotedAt: state.quotedAt.get(id) ?? state.fetchedAt.get(id),
+              fetchedAt: state.fetchedAt.get(id) ?? state.quotedAt.get(id),
+            }
+          : undefined,
+    } as never,
+    { expectedSessionDate: () => '2025-10-21' } as never,
+    {
+      list: (id: string) =>
+        state.lastOutcome.has(id)
+          ? [{ outcome: state.lastOutcome.get(id) }]
+          : [],
+    } as never,
+    { getStatus: () => state.stream } as never,
+    {
+      get enabled() {
+        return state.dryRun;
+      },
+    } as never,
+  );
+  return { service, state };
+}
+
+describe('HealthService', () => {
+  beforeEach(() => jest.useFakeTimers({ now: NOW }));
+  afterEach(() => jest.useRealTimers());
+
+  it('is up when every check passes', async () => {
+    const { service } = createService();
+
+    const report = await service.ready();
+
+    expect(report.status).toBe('up');
+    expect(report.checks).toEqual([
+      { name: 'browser', status: 'up', detail: '1 pages open, 0 waiting' },
+      { name: 'sheets', status: 'up', detail: 'crawler@project.iam' },
+      { name: 'source:dnse-stock', status: 'up' },
+      { name: 'source:binance-ticker', status: 'up' },
+      { name: 'freshness:VCB', status: 'up', detail: 'close from 2025-10-21' },
+      { name: 'freshness:FPT', status: 'up', detail: 'close from 2025-10-21' },
+      {
+        name: 'freshness:BTC',
+        status: 'up',
+        detail: 'last value 60 minutes old',
+      },
+    ]);
+  });
+
+  it('degrades on a close from an older session or an old value', async () => {
+    const { service, state } = createService();
+    state.quotedAt.set('VCB', new Date('2025-10-20T08:00:00Z'));
+    state.fetchedAt.set('BTC', new Date(NOW.getTime() - 27 * HOUR_MS));
+    state.quotedAt.delete('FPT');
+
+    const report = await service.ready();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks).toEqual(
+      expect.arrayContaining([
+        {
+          name: 'freshness:VCB',
+          status: 'degraded',
+          detail: 'close from 2025-10-20, expected 2025-10-21',
+        },
+        {
+          name: 'freshness:FPT',
+          status: 'degraded',
+          detail: 'no value stored yet',
+        },
+        {
+          name: 'freshness:BTC',
+          status: 'degraded',
+          detail: 'last value 1620 minutes old',
+        },
+      ]),
+    );
+  });
+
+  it('degrades a source for an open breaker or a failed last crawl', async () => {
+    const { service, state } = createService();
+    state.openBreakers.add('dnse-stock:FPT');
+    state.lastOutcome.set('BTC', 'failure');
+
+    const report = await service.ready();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks).toEqual(
+      expect.arrayContaining([
+        {
+          name: 'source:dnse-stock',
+          status: 'degraded',
+          detail: 'circuit open for FPT',
+        },
+        {
+          name: 'source:binance-ticker',
+          status: 'degraded',
+          detail: 'last crawl failed for BTC',
+        },
+      ]),
+    );
+  });
+
+  it('degrades on a failed browser launch or a dropped stream', async () => {
+    const { service, state } = createService();
+    state.launchError = 'Could not find Chrome';
+    state.stream = { enabled: true, connected: false, reconnects: 3 };
+
+    const report = await service.ready();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks).toEqual(
+      expect.arrayContaining([
+        {
+          name: 'browser',
+          status: 'degraded',
+          detail: 'Could not find Chrome',
+        },
+        {
+          name: 'stream:binance',
+          status: 'degraded',
+          detail: 'disconnected, 3 reconnects, last message never',
+        },
+      ]),
+    );
+  });
+
+  it('is down when the sheet credentials fail or hang', async () => {
+    const { service, state } = createService();
+    state.credentials = () =>
+      Promise.reject(new Error('Could not load the default credentials'));
+
+    await expect(service.ready()).resolves.toMatchObject({ status: 'down' });
+
+    state.credentials = () => new Promise<never>(() => undefined);
+    const report = service.ready();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect((await report).checks[1]).toEqual({
+      name: 'sheets',
+      status: 'down',
+      detail: 'credentials lookup timed out',
+    });
+  });
+
+  it('skips the credentials in a dry run or without sheet sinks', async () => {
+    const { service, state } = createService();
+    state.credentials = jest.fn(() => Promise.reject(new Error('unused')));
+
+    state.dryRun = true;
+    const dryRun = await service.ready();
+    state.dryRun = false;
+    state.assets = [FPT, BTC];
+    const noSheets = await service.ready();
+
+    expect(dryRun.checks[1].detail).toBe('dry run, writes are captured');
+    expect(noSheets.checks[1].detail).toBe('no google-sheets sinks');
+    expect(state.credentials).not.toHaveBeenCalled();
+  });
+});
+
+describe('HealthController', () => {
+  it('answers 503 with the report when a check is down', async () => {
+    const report = { status: 'down', checkedAt: NOW, checks: [] };
+    const controller = new HealthController({
+      ready: () => Promise.resolve(report),
+    } as never);
+
+    await expect(controller.ready()).rejects.toBeInstanceOf(
+      ServiceUnavailableException,
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { BrowserPoolService } from '../browser/browser-pool.service';
+import { SheetsWriterService } from '../sheets/sheets-writer.service';
+import {
+  breakerKey,
+  ResilienceService,
+} from '../resilience/resilience.service';
+import { PriceHistoryService } from '../history/price-history.service';
+import { TradingCalendarService } from '../calendar/trading-calendar.service';
+import { RunJournalService } from '../observability/run-journal.service';
+import { BinanceStreamService } from '../streaming/binance-stream.service';
+import { toDateKey } from '../common/date-key';
+import { DryRunService } from '../dry-run/dry-run.service';
+import { HealthCheck, HealthReport, HealthStatus } from './health.interface';
+
+const SEVERITY: Record<HealthStatus, number> = { up: 0, degraded: 1, down: 2 };
+
+// Bounds the credentials lookup, which may ask a metadata server
+const CREDENTIALS_TIMEOUT_MS = 5000;
+
+/**
+ * Readiness is judged from what the app already knows: breaker state and
+ * the last crawl run per source, and the newest stored value per asset.
+ * Nothing here calls a price source, so probing it is cheap.
+ */
+@Injectable()
+export class HealthService {
+  private readonly startedAt = Date.now();
+  private readonly maxAgeMs: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly browserPool: BrowserPoolService,
+    private readonly sheetsWriter: SheetsWriterService,
+    private readonly resilience: ResilienceService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly calendar: TradingCalendarService,
+    private readonly runJournal: RunJournalService,
+    private readonly binanceStream: BinanceStreamService,
+    private readonly dryRun: DryRunService,
+  ) {
+    this.maxAgeMs =
+      Number(configService.get<string>('HEALTH_MAX_AGE_HOURS') ?? 26) *
+      60 *
+      60 *
+      1000;
+  }
+
+  live() {
+    return {
+      status: 'up' as const,
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+    };
+  }
+
+  async ready(): Promise<HealthReport> {
+    const assets = this.assetRegistry.getEnabled();
+    const checks = [
+      this.checkBrowser(),
+      await this.checkSheets(assets),
+      ...this.checkStream(),
+      ...this.checkSources(assets),
+      ...assets.map((asset) => this.checkFreshness(asset)),
+    ];
+    const status = checks.reduce<HealthStatus>(
+      (worst, check) =>
+        SEVERITY[check.status] > SEVERITY[worst] ? check.status : worst,
+      'up',
+    );
+    return { status, checkedAt: new Date(), checks };
+  }
+
+  // Only scraped sources need Chromium, so a failed launch degrades
+  private checkBrowser(): HealthCheck {
+    const pool = this.browserPool.getStatus();
+    if (pool.lastLaunchError) {
+      return {
+        name: 'browser',
+        status: 'degraded',
+        detail: pool.lastLaunchError,
+      };
+    }
+    return {
+      name: 'browser',
+      status: 'up',
+      detail: pool.running
+        ? `${pool.activePages} pages open, ${pool.waiting} waiting`
+        : 'not launched yet',
+    };
+  }
+
+  // REST polling covers a dropped stream, so this only degrades
+  private checkStream(): HealthCheck[] {
+    const stream = this.binanceStream.getStatus();
+    if (!stream.enabled) return [];
+    return [
+      {
+        name: 'stream:binance',
+        status: stream.connected ? 'up' : 'degraded',
+        detail: `${stream.connected ? 'connected' : 'disconnected'}, ${stream.reconnects} reconnects, last message ${stream.lastMessageAt?.toISOString() ?? 'never'}`,
+      },
+    ];
+  }
+
+  private async checkSheets(assets: AssetConfig[]): Promise<HealthCheck> {
+    const name = 'sheets';
+    const used = assets.some((asset) =>
+      asset.sinks.some((sink) => sink.type === 'google-sheets'),
+    );
+    if (!used) {
+      return { name, status: 'up', detail: 'no google-sheets sinks' };
+    }
+    if (this.dryRun.enabled) {
+      return { name, status: 'up', detail: 'dry run, writes are captured' };
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const principal = await Promise.race([
+        this.sheetsWriter.checkCredentials(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('credentials lookup timed out')),
+            CREDENTIALS_TIMEOUT_MS,
+          );
+        }),
+      ]);
+      return { name, status: 'up', detail: principal };
+    } catch (error) {
+      return {
+        name,
+        status: 'down',
+        detail: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private checkSources(assets: AssetConfig[]): HealthCheck[] {
+    const bySource = new Map<string, AssetConfig[]>();
+    for (const asset of assets) {
+      bySource.set(asset.source, [
+        ...(bySource.get(asset.source) ?? []),
+        asset,
+      ]);
+    }
+
+    return [...bySource].map(([source, sourceAssets]) => {
+      const name = `source:${source}`;
+      // Breakers are per symbol, so one bad ticker only degrades its source
+      const tripped = sourceAssets.filter(
+        (asset) =>
+          this.resilience.getBreakerState(breakerKey(source, asset.symbol))
+            .state !== 'closed',
+      );
+      if (tripped.length > 0) {
+        return {
+          name,
+          status: 'degraded' as const,
+          detail: `circuit open for ${tripped.map((a) => a.id).join(', ')}`,
+        };
+      }
+
+      const failing = sourceAssets.filter((asset) => {
+        const [last] = this.runJournal.list(asset.id, 1);
+        return last?.outcome === 'failure';
+      });
+      if (failing.length > 0) {
+        return {
+          name,
+          status: 'degraded' as const,
+          detail: `last crawl failed for ${failing.map((a) => a.id).join(', ')}`,
+        };
+      }
+      return { name, status: 'up' as const };
+    });
+  }
+
+  /**
+   * Market assets must hold the expected session's close; everything else
+   * must have been stored within HEALTH_MAX_AGE_HOURS.
+   */
+  private checkFreshness(asset: AssetConfig): HealthCheck {
+    const name = `freshness:${asset.id}`;
+    const latest = this.priceHistory.getLatest(asset.id);
+    if (!latest) {
+      return { name, status: 'degraded', detail: 'no value stored yet' };
+    }
+
+    if (asset.exchange) {
+      const expected = this.calendar.expectedSessionDate(
+        asset.exchange,
+        asset.intradaySchedule !== undefined,
+      );
+      const actual = toDateKey(latest.quotedAt);
+      return actual < expected
+        ? {
+            name,
+            status: 'degraded',
+            detail: `close from ${actual}, expected ${expected}`,
+          }
+        : { name, status: 'up', detail: `close from ${actual}` };
+    }
+
+    const ageMinutes = Math.round(
+      (Date.now() - latest.fetchedAt.getTime()) / 60000,
+    );
+    return {
+      name,
+      status:
+        Date.now() - latest.fetchedAt.getTime() > this.maxAgeMs
+          ? 'degraded'
+          : 'up',
+      detail: `last value ${ageMinutes} minutes old`,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { firstValueFrom } from 'rxjs';
+import { resolveSchedule } from '../assets/schedule';
+
+/**
+ * Pings KEEPALIVE_URL on KEEPALIVE_SCHEDULE, for hosts such as Render's
+ * free tier that put the app to sleep without traffic. Off unless the URL
+ * is set.
+ */
+@Injectable()
+export class KeepaliveService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(KeepaliveService.name);
+  private readonly url?: string;
+  private readonly schedule: string;
+
+  constructor(
+    configService: ConfigService,
+    private readonly httpService: HttpService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.url = configService.get<string>('KEEPALIVE_URL') || undefined;
+    this.schedule = resolveSchedule(
+      configService.get<string>('KEEPALIVE_SCHEDULE') ?? 'EVERY_5_MINUTES',
+    );
+  }
+
+  onApplicationBootstrap() {
+    if (!this.url) return;
+
+    const job = CronJob.from({
+      cronTime: this.schedule,
+      onTick: () => void this.ping(),
+    });
+    this.schedulerRegistry.addCronJob('keepalive', job);
+    job.start();
+    this.logger.log(`Pinging ${this.url} at "${this.schedule}"`);
+  }
+
+  private async ping() {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get<unknown>(this.url!, { timeout: 10000 }),
+      );
+      this.logger.log(`Keepalive ping returned ${response.status}`);
+    } catch (error) {
+      this.logger.error(
+        `Keepalive ping failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
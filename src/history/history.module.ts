@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { PriceHistoryService } from './price-history.service';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [PriceHistoryService],
+  exports: [PriceHistoryService],
+})
+export class HistoryModule {}
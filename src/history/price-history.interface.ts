@@ -0,0 +1,29 @@
+export interface QuoteRecord {
+  id: number;
+  assetId: string;
+  source: string;
+  symbol: string;
+  raw: string | null;
+  price: number; // As quoted by the source
+  currency: string;
+  value: number; // After conversion, what the sheet receives
+  valueCurrency: string;
+  fxRate: number | null; // Rate applied to reach valueCurrency, if any
+  fxSource: string | null; // e.g. 'asset:USDT' or 'static+vietcombank'
+  quotedAt: Date;
+  fetchedAt: Date;
+}
+
+export interface OhlcBar {
+  date: string; // YYYY-MM-DD in the app time zone
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
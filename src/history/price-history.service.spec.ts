@@ -0,0 +1,188 @@
+import Database from 'better-sqlite3';
+import { PriceHistoryService } from './price-history.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { Quote } from '../sources/price-source.interface';
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  sinks: [],
+};
+
+// Around noon UTC, so each quote keeps its calendar day in common time zones
+function quote(price: number, at: string): Quote {
+  return {
+    symbol: 'VCB',
+    price,
+    currency: 'VND',
+    timestamp: new Date(at),
+    source: 'dnse-stock',
+    raw: String(price / 1000),
+  };
+}
+
+function createService() {
+  const db = new Database(':memory:');
+  const service = new PriceHistoryService({ db } as never);
+  service.onModuleInit();
+  return service;
+}
+
+describe('PriceHistoryService', () => {
+  it('records quotes with the FX rate used and reads them back in order', () => {
+    const service = createService();
+
+    service.record(VCB, quote(64200, '2025-10-21T12:00:00Z'), 64200);
+    service.record(VCB, quote(64600, '2025-10-22T12:00:00Z'), 64600, {
+      rate: 1,
+      source: 'static',
+    });
+
+    const history = service.getHistory('VCB');
+    expect(history.map((record) => record.value)).toEqual([64200, 64600]);
+    expect(history[1]).toMatchObject({
+      assetId: 'VCB',
+      source: 'dnse-stock',
+      raw: '64.6',
+      valueCurrency: 'VND',
+      fxRate: 1,
+      fxSource: 'static',
+      quotedAt: new Date('2025-10-22T12:00:00Z'),
+    });
+    expect(history[0].fxRate).toBeNull();
+    expect(service.getLatest('VCB')?.value).toBe(64600);
+    expect(service.getLatest('FPT')).toBeUndefined();
+  });
+
+  it('filters history by an inclusive range', () => {
+    const service = createService();
+    service.record(VCB, quote(63900, '2025-10-20T12:00:00Z'), 63900);
+    service.record(VCB, quote(64200, '2025-10-21T12:00:00Z'), 64200);
+    service.record(VCB, quote(64600, '2025-10-22T12:00:00Z'), 64600);
+
+    const history = service.getHistory('VCB', {
+      from: new Date('2025-10-21T12:00:00Z'),
+      to: new Date('2025-10-22T12:00:00Z'),
+    });
+
+    expect(history.map((record) => record.value)).toEqual([64200, 64600]);
+  });
+
+  it('rolls quotes up into daily bars', () => {
+    const service = createService();
+    service.record(VCB, quote(64000, '2025-10-21T10:00:00Z'), 64000);
+    service.record(VCB, quote(64800, '2025-10-21T11:00:00Z'), 64800);
+    service.record(VCB, quote(63700, '2025-10-21T12:00:00Z'), 63700);
+    service.record(VCB, quote(64100, '2025-10-21T13:00:00Z'), 64100);
+    service.record(VCB, quote(64600, '2025-10-22T12:00:00Z'), 64600);
+
+    expect(service.getDailyOhlc('VCB')).toEqual([
+      {
+        date: '2025-10-21',
+        open: 64000,
+        high: 64800,
+        low: 63700,
+        close: 64100,
+      },
+      {
+        date: '2025-10-22',
+        open: 64600,
+        high: 64600,
+        low: 64600,
+        close: 64600,
+      },
+    ]);
+  });
+
+  it('prefers source candles over rolled-up quotes for the same day', () => {
+    const service = createService();
+    service.record(VCB, quote(64000, '2025-10-21T10:00:00Z'), 64000);
+    service.record(VCB, quote(64600, '2025-10-22T12:00:00Z'), 64600);
+    service.upsertCandles('VCB', 'dnse-stock', [
+      {
+        time: new Date('2025-10-21T12:00:00Z'),
+        open: 63900,
+        high: 64500,
+        low: 63600,
+        close: 64200,
+        volume: 1873200,
+      },
+    ]);
+
+    expect(service.getDailyOhlc('VCB')).toEqual([
+      {
+        date: '2025-10-21',
+        open: 63900,
+        high: 64500,
+        low: 63600,
+        close: 64200,
+        volume: 1873200,
+      },
+      {
+        date: '2025-10-22',
+        open: 64600,
+        high: 64600,
+        low: 64600,
+        close: 64600,
+      },
+    ]);
+  });
+
+  it('replaces a candle when the same day is upserted again', () => {
+    const service = createService();
+    const time = new Date('2025-10-21T12:00:00Z');
+    const bar = { time, open: 1, high: 1, low: 1, close: 1 };
+
+    service.upsertCandles('VCB', 'dnse-stock', [bar]);
+    service.upsertCandles('VCB', 'dnse-stock', [{ ...bar, close: 2 }]);
+
+    expect(service.getDailyOhlc('VCB')).toEqual([
+      { date: '2025-10-21', open: 1, high: 1, low: 1, close: 2 },
+    ]);
+  });
+
+  it('stores the candles that come with a quote', () => {
+    const service = createService();
+
+    service.record(
+      VCB,
+      {
+        ...quote(64600, '2025-10-22T12:00:00Z'),
+        candles: [
+          {
+            time: new Date('2025-10-20T12:00:00Z'),
+            open: 63400,
+            high: 64100,
+            low: 63100,
+            close: 63900,
+          },
+        ],
+      },
+      64600,
+    );
+
+    expect(service.getDailyOhlc('VCB').map((bar) => bar.date)).toEqual([
+      '2025-10-20',
+      '2025-10-22',
+    ]);
+  });
+
+  it('finds the last quote fetched before a time', () => {
+    const service = createService();
+    jest.useFakeTimers({ now: new Date('2025-10-21T09:00:00Z') });
+    service.record(VCB, quote(64200, '2025-10-21T09:00:00Z'), 64200);
+    jest.setSystemTime(new Date('2025-10-22T09:00:00Z'));
+    service.record(VCB, quote(64600, '2025-10-22T09:00:00Z'), 64600);
+    jest.useRealTimers();
+
+    expect(
+      service.getLatestBefore('VCB', new Date('2025-10-22T00:00:00Z'))?.value,
+    ).toBe(64200);
+    expect(
+      service.getLatestBefore('VCB', new Date('2025-10-21T00:00:00Z')),
+    ).toBeUndefined();
+  });
+});
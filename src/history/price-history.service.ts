@@ -0,0 +1,264 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { toDateKey } from '../common/date-key';
+import { AssetConfig } from '../assets/asset.interface';
+import { Candle, Quote } from '../sources/price-source.interface';
+import { FxConversion } from '../fx/fx.interface';
+import { DateRange, OhlcBar, QuoteRecord } from './price-history.interface';
+
+interface QuoteRow {
+  id: number;
+  asset_id: string;
+  source: string;
+  symbol: string;
+  raw: string | null;
+  price: number;
+  currency: string;
+  value: number;
+  value_currency: string;
+  fx_rate: number | null;
+  fx_source: string | null;
+  quoted_at: number;
+  fetched_at: number;
+}
+
+interface CandleRow {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+const DAILY = '1D';
+
+@Injectable()
+export class PriceHistoryService implements OnModuleInit {
+  private readonly logger = new Logger(PriceHistoryService.name);
+
+  constructor(private readonly database: DatabaseService) {}
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asset_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        raw TEXT,
+        price REAL NOT NULL,
+        currency TEXT NOT NULL,
+        value REAL NOT NULL,
+        value_currency TEXT NOT NULL,
+        fx_rate REAL,
+        fx_source TEXT,
+        quoted_at INTEGER NOT NULL,
+        fetched_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS quotes_asset_quoted_at
+        ON quotes (asset_id, quoted_at);
+
+      CREATE TABLE IF NOT EXISTS candles (
+        asset_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        resolution TEXT NOT NULL,
+        time INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL,
+        PRIMARY KEY (asset_id, resolution, time)
+      );
+    `);
+
+    // Databases created before quotes recorded their FX rate
+    const columns = this.database.db
+      .prepare('PRAGMA table_info(quotes)')
+      .all() as { name: string }[];
+    if (!columns.some((column) => column.name === 'fx_rate')) {
+      this.database.db.exec(`
+        ALTER TABLE quotes ADD COLUMN fx_rate REAL;
+        ALTER TABLE quotes ADD COLUMN fx_source TEXT;
+      `);
+    }
+  }
+
+  /**
+   * Stores a crawled quote and any candles that came with it. `fx` is the
+   * conversion that turned the quoted price into `value`, if one was needed.
+   */
+  record(
+    asset: AssetConfig,
+    quote: Quote,
+    value: number,
+    fx?: Pick<FxConversion, 'rate' | 'source'>,
+  ) {
+    try {
+      this.database.db
+        .prepare(
+          `INSERT INTO quotes
+            (asset_id, source, symbol, raw, price, currency, value, value_currency,
+             fx_rate, fx_source, quoted_at, fetched_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          asset.id,
+          quote.source,
+          quote.symbol,
+          quote.raw ?? null,
+          quote.price,
+          quote.currency,
+          value,
+          asset.currency,
+          fx?.rate ?? null,
+          fx?.source ?? null,
+          quote.timestamp.getTime(),
+          Date.now(),
+        );
+
+      if (quote.candles?.length) {
+        this.upsertCandles(asset.id, quote.source, quote.candles);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${asset.id} quote: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /** Idempotent: re-inserting a bar for the same day replaces it. */
+  upsertCandles(
+    assetId: string,
+    source: string,
+    candles: Candle[],
+    resolution = DAILY,
+  ) {
+    const upsert = this.database.db.prepare(
+      `INSERT INTO candles (asset_id, source, resolution, time, open, high, low, close, volume)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (asset_id, resolution, time) DO UPDATE SET
+         source = excluded.source, open = excluded.open, high = excluded.high,
+         low = excluded.low, close = excluded.close, volume = excluded.volume`,
+    );
+    this.database.db.transaction(() => {
+      for (const candle of candles) {
+        upsert.run(
+          assetId,
+          source,
+          resolution,
+          candle.time.getTime(),
+          candle.open,
+          candle.high,
+          candle.low,
+          candle.close,
+          candle.volume ?? null,
+        );
+      }
+    })();
+  }
+
+  getHistory(assetId: string, range: DateRange = {}): QuoteRecord[] {
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM quotes
+         WHERE asset_id = ? AND quoted_at >= ? AND quoted_at <= ?
+         ORDER BY quoted_at, id`,
+      )
+      .all(assetId, ...this.bounds(range)) as QuoteRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  getLatest(assetId: string): QuoteRecord | undefined {
+    const row = this.database.db
+      .prepare(
+        `SELECT * FROM quotes WHERE asset_id = ?
+         ORDER BY fetched_at DESC, id DESC LIMIT 1`,
+      )
+      .get(assetId) as QuoteRow | undefined;
+    return row && this.toRecord(row);
+  }
+
+  /** Last quote fetched before `before`, e.g. the previous day's close. */
+  getLatestBefore(assetId: string, before: Date): QuoteRecord | undefined {
+    const row = this.database.db
+      .prepare(
+        `SELECT * FROM quotes WHERE asset_id = ? AND fetched_at < ?
+         ORDER BY fetched_at DESC, id DESC LIMIT 1`,
+      )
+      .get(assetId, before.getTime()) as QuoteRow | undefined;
+    return row && this.toRecord(row);
+  }
+
+  /**
+   * Daily bars for a range. Days covered by source candles (DNSE) use them
+   * as-is; other days are rolled up from the individual quotes.
+   */
+  getDailyOhlc(assetId: string, range: DateRange = {}): OhlcBar[] {
+    const bars = new Map<string, OhlcBar>();
+
+    for (const quote of this.getHistory(assetId, range)) {
+      const date = toDateKey(quote.quotedAt);
+      const bar = bars.get(date);
+      if (!bar) {
+        bars.set(date, {
+          date,
+          open: quote.value,
+          high: quote.value,
+          low: quote.value,
+          close: quote.value,
+        });
+        continue;
+      }
+      bar.high = Math.max(bar.high, quote.value);
+      bar.low = Math.min(bar.low, quote.value);
+      bar.close = quote.value;
+    }
+
+    const candles = this.database.db
+      .prepare(
+        `SELECT time, open, high, low, close, volume FROM candles
+         WHERE asset_id = ? AND resolution = ? AND time >= ? AND time <= ?`,
+      )
+      .all(assetId, DAILY, ...this.bounds(range)) as CandleRow[];
+    for (const candle of candles) {
+      const date = toDateKey(new Date(candle.time));
+      bars.set(date, {
+        date,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume ?? undefined,
+      });
+    }
+
+    return [...bars.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private bounds(range: DateRange): [number, number] {
+    return [
+      range.from?.getTime() ?? 0,
+      range.to?.getTime() ?? Number.MAX_SAFE_INTEGER,
+    ];
+  }
+
+  private toRecord(row: QuoteRow): QuoteRecord {
+    return {
+      id: row.id,
+      assetId: row.asset_id,
+      source: row.source,
+      symbol: row.symbol,
+      raw: row.raw,
+      price: row.price,
+      currency: row.currency,
+      value: row.value,
+      valueCurrency: row.value_currency,
+      fxRate: row.fx_rate,
+      fxSource: row.fx_source,
+      quotedAt: new Date(row.quoted_at),
+      fetchedAt: new Date(row.fetched_at),
+    };
+  }
+}
@@ -1,9 +1,14 @@
+import { ConsoleLogger, ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
   process.env.TZ = 'Asia/Ho_Chi_Minh';
-  const app = await NestFactory.create(AppModule);
+  // LOG_FORMAT=json writes one JSON object per line for log shippers
+  const app = await NestFactory.create(AppModule, {
+    logger: new ConsoleLogger({ json: process.env.LOG_FORMAT === 'json' }),
+  });
+  app.useGlobalPipes(new ValidationPipe({ transform: true, whitelist: true }));
   await app.listen(process.env.PORT ?? 3000);
 }
-bootstrap();
+void bootstrap();
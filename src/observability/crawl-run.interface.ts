@@ -0,0 +1,29 @@
+// 'rejected' means the value was fetched but failed validation,
+// 'stale' that the close belongs to an older trading session
+export const CRAWL_OUTCOMES = [
+  'success',
+  'failure',
+  'rejected',
+  'stale',
+] as const;
+
+export type CrawlOutcome = (typeof CRAWL_OUTCOMES)[number];
+
+export interface CrawlRun {
+  id: number;
+  jobId: string; // Asset id, one crawl job per asset
+  startedAt: Date;
+  endedAt: Date;
+  durationMs: number;
+  outcome: CrawlOutcome;
+  value?: number;
+  errorClass?: string; // Root cause, e.g. AxiosError rather than RetriesExhaustedError
+  error?: string;
+  attempts?: number; // Source fetch attempts; 0 when the breaker was open
+}
+
+export interface RunFailure {
+  outcome: Exclude<CrawlOutcome, 'success'>;
+  error: unknown;
+  attempts?: number;
+}
@@ -0,0 +1,116 @@
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { MetricsService } from './metrics.service';
+import { RunJournalService } from './run-journal.service';
+import { CrawlOutcome, CrawlRun } from './crawl-run.interface';
+
+const ENDED_AT = new Date('2025-10-22T09:00:00Z');
+
+function run(
+  jobId: string,
+  outcome: CrawlOutcome,
+  durationMs: number,
+  endedAt = ENDED_AT,
+): CrawlRun {
+  return {
+    id: 1,
+    jobId,
+    startedAt: new Date(endedAt.getTime() - durationMs),
+    endedAt,
+    durationMs,
+    outcome,
+  };
+}
+
+// Sample lines of one metric, without HELP and TYPE
+function samples(text: string, name: string): string[] {
+  return text
+    .split('\n')
+    .filter(
+      (line) => line.startsWith(`${name}{`) || line.startsWith(`${name} `),
+    );
+}
+
+describe('MetricsService', () => {
+  it('lists a scheduled job with zeros before its first run', () => {
+    const metrics = new MetricsService();
+    metrics.addJob('VCB');
+
+    const text = metrics.render();
+
+    expect(samples(text, 'crawler_runs_total')).toEqual([
+      'crawler_runs_total{job="VCB",outcome="success"} 0',
+      'crawler_runs_total{job="VCB",outcome="failure"} 0',
+      'crawler_runs_total{job="VCB",outcome="rejected"} 0',
+      'crawler_runs_total{job="VCB",outcome="stale"} 0',
+    ]);
+    expect(samples(text, 'crawler_last_success_timestamp_seconds')).toEqual([
+      'crawler_last_success_timestamp_seconds{job="VCB"} 0',
+    ]);
+  });
+
+  it('counts runs by outcome and buckets their durations', () => {
+    const metrics = new MetricsService();
+    metrics.observe(run('VCB', 'success', 300));
+    metrics.observe(
+      run('VCB', 'failure', 4000, new Date('2025-10-22T10:00:00Z')),
+    );
+
+    const text = metrics.render();
+
+    expect(text).toContain('crawler_runs_total{job="VCB",outcome="success"} 1');
+    expect(text).toContain('crawler_runs_total{job="VCB",outcome="failure"} 1');
+    expect(text).toContain(
+      'crawler_run_duration_seconds_bucket{job="VCB",le="0.5"} 1',
+    );
+    expect(text).toContain(
+      'crawler_run_duration_seconds_bucket{job="VCB",le="5"} 2',
+    );
+    expect(text).toContain(
+      'crawler_run_duration_seconds_bucket{job="VCB",le="+Inf"} 2',
+    );
+    expect(text).toContain('crawler_run_duration_seconds_sum{job="VCB"} 4.3');
+    expect(text).toContain('crawler_run_duration_seconds_count{job="VCB"} 2');
+    expect(samples(text, 'crawler_last_run_timestamp_seconds')).toEqual([
+      'crawler_last_run_timestamp_seconds{job="VCB"} 1761127200',
+    ]);
+    expect(samples(text, 'crawler_last_success_timestamp_seconds')).toEqual([
+      'crawler_last_success_timestamp_seconds{job="VCB"} 1761123600',
+    ]);
+  });
+
+  it('escapes label values', () => {
+    const metrics = new MetricsService();
+    metrics.addJob('DOJI "RING"\\9999');
+
+    expect(metrics.render()).toContain(
+      'crawler_last_success_timestamp_seconds{job="DOJI \\"RING\\"\\\\9999"} 0',
+    );
+  });
+
+  it('seeds the last success from the run journal', () => {
+    const database = { db: new Database(':memory:') };
+    const first = new RunJournalService(
+      new ConfigService({}),
+      database as never,
+      new MetricsService(),
+    );
+    first.onModuleInit();
+    first.start('VCB').succeed(64600, 1);
+    const [recorded] = first.list('VCB');
+
+    // A restart: a fresh registry over the same database
+    const metrics = new MetricsService();
+    new RunJournalService(
+      new ConfigService({}),
+      database as never,
+      metrics,
+    ).onModuleInit();
+
+    expect(
+      samples(metrics.render(), 'crawler_last_success_timestamp_seconds'),
+    ).toEqual([
+      `crawler_last_success_timestamp_seconds{job="VCB"} ${recorded.endedAt.getTime() / 1000}`,
+    ]);
+  });
+});
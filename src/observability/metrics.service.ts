@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { CRAWL_OUTCOMES, CrawlRun } from './crawl-run.interface';
+
+// Seconds; crawls range from a REST call to a slow Chromium page load
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+interface Histogram {
+  buckets: number[]; // Cumulative counts, one per DURATION_BUCKETS entry
+  sum: number;
+  count: number;
+}
+
+/**
+ * Per-job crawl metrics in the Prometheus text format. Counters and the
+ * histogram restart from zero with the process; the last success time is
+ * seeded from the run journal, so a job that keeps failing after a restart
+ * still shows how long it has been since it last worked:
+ *
+ *   time() - crawler_last_success_timestamp_seconds > 86400
+ *
+ * Scheduled jobs are listed from startup with timestamps of 0 until they
+ * first run, so one that has never succeeded trips the same alert.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly runs = new Map<string, number>(); // `${job}|${outcome}`
+  private readonly durations = new Map<string, Histogram>();
+  private readonly lastRun = new Map<string, Date>();
+  private readonly lastSuccess = new Map<string, Date>();
+  private readonly scheduled = new Set<string>();
+
+  addJob(jobId: string) {
+    this.scheduled.add(jobId);
+  }
+
+  observe(run: CrawlRun) {
+    const key = `${run.jobId}|${run.outcome}`;
+    this.runs.set(key, (this.runs.get(key) ?? 0) + 1);
+
+    const histogram = this.durations.get(run.jobId) ?? {
+      buckets: DURATION_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    const seconds = run.durationMs / 1000;
+    DURATION_BUCKETS.forEach((le, i) => {
+      if (seconds <= le) histogram.buckets[i]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+    this.durations.set(run.jobId, histogram);
+
+    this.lastRun.set(run.jobId, run.endedAt);
+    if (run.outcome === 'success') {
+      this.setLastSuccess(run.jobId, run.endedAt);
+    }
+  }
+
+  setLastSuccess(jobId: string, at: Date) {
+    this.lastSuccess.set(jobId, at);
+  }
+
+  render(): string {
+    const lines: string[] = [];
+
+    lines.push(
+      '# HELP crawler_runs_total Crawl runs by job and outcome.',
+      '# TYPE crawler_runs_total counter',
+    );
+    for (const job of this.jobs()) {
+      for (const outcome of CRAWL_OUTCOMES) {
+        const count = this.runs.get(`${job}|${outcome}`) ?? 0;
+        lines.push(`crawler_runs_total${labels({ job, outcome })} ${count}`);
+      }
+    }
+
+    lines.push(
+      '# HELP crawler_run_duration_seconds Crawl run duration, including retries.',
+      '# TYPE crawler_run_duration_seconds histogram',
+    );
+    for (const [job, histogram] of this.durations) {
+      DURATION_BUCKETS.forEach((le, i) => {
+        lines.push(
+          `crawler_run_duration_seconds_bucket${labels({ job, le: String(le) })} ${histogram.buckets[i]}`,
+        );
+      });
+      lines.push(
+        `crawler_run_duration_seconds_bucket${labels({ job, le: '+Inf' })} ${histogram.count}`,
+        `crawler_run_duration_seconds_sum${labels({ job })} ${histogram.sum}`,
+        `crawler_run_duration_seconds_count${labels({ job })} ${histogram.count}`,
+      );
+    }
+
+    lines.push(
+      '# HELP crawler_last_run_timestamp_seconds End of the last crawl run, whatever its outcome.',
+      '# TYPE crawler_last_run_timestamp_seconds gauge',
+      ...gauge('crawler_last_run_timestamp_seconds', this.jobs(), this.lastRun),
+      '# HELP crawler_last_success_timestamp_seconds End of the last successful crawl run.',
+      '# TYPE crawler_last_success_timestamp_seconds gauge',
+      ...gauge(
+        'crawler_last_success_timestamp_seconds',
+        this.jobs(),
+        this.lastSuccess,
+      ),
+    );
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private jobs(): string[] {
+    return [
+      ...new Set([
+        ...this.scheduled,
+        ...this.lastRun.keys(),
+        ...this.lastSuccess.keys(),
+      ]),
+    ];
+  }
+}
+
+function gauge(
+  name: string,
+  jobs: string[],
+  times: Map<string, Date>,
+): string[] {
+  return jobs.map(
+    (job) =>
+      `${name}${labels({ job })} ${(times.get(job)?.getTime() ?? 0) / 1000}`,
+  );
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/[\\"]/g, '\\$&').replace(/\n/g, '\\n')}"`,
+  );
+  return `{${pairs.join(',')}}`;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { MetricsService } from './metrics.service';
+import { RunJournalService } from './run-journal.service';
+import { MetricsController } from './metrics.controller';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [MetricsController],
+  providers: [MetricsService, RunJournalService],
+  exports: [RunJournalService],
+})
+export class ObservabilityModule {}
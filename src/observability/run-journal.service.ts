@@ -0,0 +1,211 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { RetriesExhaustedError } from '../resilience/resilience.errors';
+import { MetricsService } from './metrics.service';
+import { CrawlOutcome, CrawlRun, RunFailure } from './crawl-run.interface';
+
+interface CrawlRunRow {
+  id: number;
+  job_id: string;
+  started_at: number;
+  ended_at: number;
+  duration_ms: number;
+  outcome: CrawlOutcome;
+  value: number | null;
+  error_class: string | null;
+  error: string | null;
+  attempts: number | null;
+}
+
+export interface RunHandle {
+  succeed(value: number, attempts?: number): CrawlRun;
+  fail(failure: RunFailure): CrawlRun;
+}
+
+/**
+ * Records one row per crawl run and feeds the metrics. Runs older than
+ * RUN_JOURNAL_RETENTION_DAYS are dropped at startup.
+ */
+@Injectable()
+export class RunJournalService implements OnModuleInit {
+  private readonly logger = new Logger(RunJournalService.name);
+  private readonly retentionDays: number;
+  private readonly json: boolean;
+
+  constructor(
+    configService: ConfigService,
+    private readonly database: DatabaseService,
+    private readonly metrics: MetricsService,
+  ) {
+    this.retentionDays = Number(
+      configService.get<string>('RUN_JOURNAL_RETENTION_DAYS') ?? 30,
+    );
+    this.json = configService.get<string>('LOG_FORMAT') === 'json';
+  }
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER NOT NULL,
+        duration_ms REAL NOT NULL,
+        outcome TEXT NOT NULL,
+        value REAL,
+        error_class TEXT,
+        error TEXT,
+        attempts INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS crawl_runs_job
+        ON crawl_runs (job_id, started_at);
+    `);
+
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    this.database.db
+      .prepare('DELETE FROM crawl_runs WHERE started_at < ?')
+      .run(cutoff);
+
+    const successes = this.database.db
+      .prepare(
+        `SELECT job_id AS jobId, MAX(ended_at) AS endedAt FROM crawl_runs
+         WHERE outcome = 'success' GROUP BY job_id`,
+      )
+      .all() as { jobId: string; endedAt: number }[];
+    for (const { jobId, endedAt } of successes) {
+      this.metrics.setLastSuccess(jobId, new Date(endedAt));
+    }
+  }
+
+  /** Lists a scheduled job in the metrics before its first run. */
+  track(jobId: string) {
+    this.metrics.addJob(jobId);
+  }
+
+  /** Starts timing a run; call succeed or fail on the handle exactly once. */
+  start(jobId: string): RunHandle {
+    const startedAt = new Date();
+    const start = process.hrtime.bigint();
+    const finish = (
+      outcome: CrawlOutcome,
+      details: Partial<CrawlRun>,
+    ): CrawlRun =>
+      this.record({
+        jobId,
+        startedAt,
+        endedAt: new Date(),
+        durationMs: Number(process.hrtime.bigint() - start) / 1_000_000,
+        outcome,
+        ...details,
+      });
+
+    return {
+      succeed: (value, attempts) => finish('success', { value, attempts }),
+      fail: ({ outcome, error, attempts }) =>
+        finish(outcome, {
+          errorClass: rootCause(error),
+          error: error instanceof Error ? error.message : String(error),
+          attempts,
+        }),
+    };
+  }
+
+  list(jobId?: string, limit = 100): CrawlRun[] {
+    const rows = (
+      jobId
+        ? this.database.db
+            .prepare(
+              'SELECT * FROM crawl_runs WHERE job_id = ? ORDER BY started_at DESC LIMIT ?',
+            )
+            .all(jobId, limit)
+        : this.database.db
+            .prepare(
+              'SELECT * FROM crawl_runs ORDER BY started_at DESC LIMIT ?',
+            )
+            .all(limit)
+    ) as CrawlRunRow[];
+    return rows.map(toRun);
+  }
+
+  /** Every run that did not succeed in [from, to), oldest first. */
+  listFailures(from: Date, to: Date): CrawlRun[] {
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM crawl_runs
+         WHERE outcome != 'success' AND started_at >= ? AND started_at < ?
+         ORDER BY started_at`,
+      )
+      .all(from.getTime(), to.getTime()) as CrawlRunRow[];
+    return rows.map(toRun);
+  }
+
+  private record(run: Omit<CrawlRun, 'id'>): CrawlRun {
+    let id = 0;
+    try {
+      const result = this.database.db
+        .prepare(
+          `INSERT INTO crawl_runs
+            (job_id, started_at, ended_at, duration_ms, outcome, value, error_class, error, attempts)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          run.jobId,
+          run.startedAt.getTime(),
+          run.endedAt.getTime(),
+          run.durationMs,
+          run.outcome,
+          run.value ?? null,
+          run.errorClass ?? null,
+          run.error ?? null,
+          run.attempts ?? null,
+        );
+      id = Number(result.lastInsertRowid);
+    } catch (error) {
+      this.logger.error(
+        `Failed to journal ${run.jobId} run: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const recorded = { id, ...run };
+    this.metrics.observe(recorded);
+    this.log(recorded);
+    return recorded;
+  }
+
+  // JSON output gets the whole record, text output a one-line summary
+  private log(run: CrawlRun) {
+    const level = run.outcome === 'success' ? 'log' : 'warn';
+    if (this.json) {
+      this.logger[level]({ event: 'crawl_run', ...run });
+      return;
+    }
+    const detail =
+      run.outcome === 'success'
+        ? `value ${run.value}`
+        : `${run.errorClass}: ${run.error}`;
+    this.logger[level](
+      `Crawl ${run.jobId} ${run.outcome} in ${run.durationMs.toFixed(2)}ms, ${detail}`,
+    );
+  }
+}
+
+function rootCause(error: unknown): string {
+  const cause = error instanceof RetriesExhaustedError ? error.cause : error;
+  return cause instanceof Error ? cause.name : typeof cause;
+}
+
+function toRun(row: CrawlRunRow): CrawlRun {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    startedAt: new Date(row.started_at),
+    endedAt: new Date(row.ended_at),
+    durationMs: row.duration_ms,
+    outcome: row.outcome,
+    value: row.value ?? undefined,
+    errorClass: row.error_class ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts ?? undefined,
+  };
+}
@@ -0,0 +1,63 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+// Like @IsOptional, but a null still has to pass the other validators
+const IfPresent = () => ValidateIf((_, value) => value !== undefined);
+
+export class CreateLotDto {
+  @IsString()
+  @IsNotEmpty()
+  assetId: string;
+
+  @IsPositive()
+  quantity: number;
+
+  // Per unit, in the asset's currency
+  @IsNumber()
+  @Min(0)
+  unitCost: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  acquiredAt?: Date;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class UpdateLotDto {
+  @IfPresent()
+  @IsString()
+  @IsNotEmpty()
+  assetId?: string;
+
+  @IfPresent()
+  @IsPositive()
+  quantity?: number;
+
+  @IfPresent()
+  @IsNumber()
+  @Min(0)
+  unitCost?: number;
+
+  @IfPresent()
+  @Type(() => Date)
+  @IsDate()
+  acquiredAt?: Date;
+
+  // null clears the note
+  @IsOptional()
+  @IsString()
+  note?: string | null;
+}
@@ -0,0 +1,83 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { Server } from 'http';
+import request from 'supertest';
+import { PortfolioController } from './portfolio.controller';
+import { PortfolioService } from './portfolio.service';
+import { Lot } from './portfolio.interface';
+
+const LOT: Lot = {
+  id: 1,
+  assetId: 'VCB',
+  quantity: 100,
+  unitCost: 60000,
+  acquiredAt: new Date('2025-10-22T09:00:00Z'),
+  note: 'Bought on the dip',
+};
+
+describe('PortfolioController', () => {
+  let app: INestApplication;
+  let server: Server;
+  const portfolio = {
+    updateLot: jest.fn((id: number, changes: Partial<Lot>) =>
+      id === LOT.id ? { ...LOT, ...changes } : undefined,
+    ),
+  };
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [PortfolioController],
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ API_KEY: 'k' }),
+        },
+        { provide: PortfolioService, useValue: portfolio },
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalPipes(
+      new ValidationPipe({ transform: true, whitelist: true }),
+    );
+    await app.init();
+    server = app.getHttpServer() as Server;
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('clears the note of a lot with null', async () => {
+    const response = await request(server)
+      .patch('/portfolio/lots/1')
+      .set('x-api-key', 'k')
+      .send({ note: null })
+      .expect(200);
+
+    expect((response.body as Lot).note).toBeNull();
+    expect(portfolio.updateLot).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ note: null }),
+    );
+  });
+
+  it('rejects null for fields a lot cannot do without', async () => {
+    await request(server)
+      .patch('/portfolio/lots/1')
+      .set('x-api-key', 'k')
+      .send({ quantity: null })
+      .expect(400);
+
+    expect(portfolio.updateLot).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for an unknown lot and 401 without the key', async () => {
+    await request(server)
+      .patch('/portfolio/lots/2')
+      .set('x-api-key', 'k')
+      .send({ quantity: 1 })
+      .expect(404);
+    await request(server).get('/portfolio/lots').expect(401);
+  });
+});
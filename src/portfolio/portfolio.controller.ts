@@ -0,0 +1,93 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../common/api-key.guard';
+import { PortfolioService } from './portfolio.service';
+import type {
+  Holding,
+  Lot,
+  PortfolioSnapshot,
+  PortfolioValuation,
+} from './portfolio.interface';
+import { CreateLotDto, UpdateLotDto } from './dto/lot.dto';
+import { SnapshotQueryDto } from './dto/snapshot-query.dto';
+
+// Holdings and cost basis are private, so reads need the key as well
+@Controller('portfolio')
+@UseGuards(ApiKeyGuard)
+export class PortfolioController {
+  constructor(private readonly portfolio: PortfolioService) {}
+
+  @Get('lots')
+  getLots(): Lot[] {
+    return this.portfolio.getLots();
+  }
+
+  @Post('lots')
+  addLot(@Body() body: CreateLotDto): Lot {
+    try {
+      return this.portfolio.addLot(body);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  @Patch('lots/:id')
+  updateLot(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateLotDto,
+  ): Lot {
+    let lot: Lot | undefined;
+    try {
+      lot = this.portfolio.updateLot(id, body);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    if (!lot) {
+      throw new NotFoundException(`Unknown lot ${id}`);
+    }
+    return lot;
+  }
+
+  @Delete('lots/:id')
+  @HttpCode(204)
+  removeLot(@Param('id', ParseIntPipe) id: number) {
+    if (!this.portfolio.removeLot(id)) {
+      throw new NotFoundException(`Unknown lot ${id}`);
+    }
+  }
+
+  @Get('holdings')
+  getHoldings(): Holding[] {
+    return this.portfolio.getHoldings();
+  }
+
+  @Get('valuation')
+  getValuation(): Promise<PortfolioValuation> {
+    return this.portfolio.value();
+  }
+
+  @Get('snapshots')
+  getSnapshots(@Query() query: SnapshotQueryDto): PortfolioSnapshot[] {
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestException('"from" must not be after "to"');
+    }
+    return this.portfolio.getSnapshots(query);
+  }
+}
@@ -0,0 +1,53 @@
+/** One purchase. Quantities and costs are in the asset's own currency. */
+export interface Lot {
+  id: number;
+  assetId: string;
+  quantity: number;
+  unitCost: number;
+  acquiredAt: Date;
+  note: string | null;
+}
+
+export interface Holding {
+  assetId: string;
+  quantity: number;
+  costBasis: number; // Sum of quantity * unitCost over the lots
+  averageCost: number;
+  lots: Lot[];
+}
+
+/** Money fields are in the portfolio currency (PORTFOLIO_CURRENCY). */
+export interface HoldingValuation {
+  assetId: string;
+  quantity: number;
+  price: number | null; // Latest crawled value, null if never crawled
+  pricedAt: Date | null;
+  marketValue: number | null;
+  costBasis: number | null; // Null when it could not be converted
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  allocationPercent: number | null; // Share of the total market value
+  dailyChange: number | null; // Versus the last value before today
+  dailyChangePercent: number | null;
+  error?: string; // Why the holding could not be valued, e.g. no FX rate
+}
+
+export interface PortfolioValuation {
+  currency: string;
+  valuedAt: Date;
+  marketValue: number; // Holdings without a price or with an error are left out
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number | null;
+  dailyChange: number;
+  dailyChangePercent: number | null;
+  holdings: HoldingValuation[];
+}
+
+export interface PortfolioSnapshot {
+  takenAt: Date;
+  currency: string;
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+}
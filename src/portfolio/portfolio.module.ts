@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { AssetsModule } from '../assets/assets.module';
+import { HistoryModule } from '../history/history.module';
+import { FxModule } from '../fx/fx.module';
+import { PortfolioService } from './portfolio.service';
+import { PortfolioController } from './portfolio.controller';
+
+@Module({
+  imports: [DatabaseModule, AssetsModule, HistoryModule, FxModule],
+  controllers: [PortfolioController],
+  providers: [PortfolioService],
+  exports: [PortfolioService],
+})
+export class PortfolioModule {}
@@ -0,0 +1,201 @@
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { PortfolioService } from './portfolio.service';
+import { PriceHistoryService } from '../history/price-history.service';
+import { AssetConfig } from '../assets/asset.interface';
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  sinks: [],
+};
+const BTC: AssetConfig = {
+  id: 'BTC',
+  source: 'binance-ticker',
+  symbol: 'BTCUSDT',
+  currency: 'USDT',
+  schedule: '0 */5 * * * *',
+  sinks: [],
+};
+
+// Local times, so "before today" holds in any time zone
+const YESTERDAY = new Date(2025, 9, 21, 15);
+const TODAY = new Date(2025, 9, 22, 10);
+
+function createService({ usdtRate = true } = {}) {
+  const database = { db: new Database(':memory:') };
+  const history = new PriceHistoryService(database as never);
+  history.onModuleInit();
+  const assets = new Map([VCB, BTC].map((asset) => [asset.id, asset]));
+  const fxService = {
+    convert: jest.fn((amount: number, from: string) =>
+      from === 'USDT' && !usdtRate
+        ? Promise.reject(new Error('No FX rate available from USDT to VND'))
+        : Promise.resolve({ value: from === 'USDT' ? amount * 26000 : amount }),
+    ),
+  };
+
+  const service = new PortfolioService(
+    new ConfigService({}),
+    database as never,
+    { get: (id: string) => assets.get(id) } as never,
+    history,
+    fxService as never,
+  );
+  service.onModuleInit();
+
+  const record = (asset: AssetConfig, value: number, at: Date) => {
+    jest.setSystemTime(at);
+    history.record(
+      asset,
+      {
+        symbol: asset.symbol,
+        price: value,
+        currency: asset.currency,
+        timestamp: at,
+        source: asset.source,
+        raw: String(value),
+      },
+      value,
+    );
+  };
+  return { service, record };
+}
+
+describe('PortfolioService', () => {
+  beforeEach(() => jest.useFakeTimers({ now: TODAY }));
+  afterEach(() => jest.useRealTimers());
+
+  it('groups lots into holdings with an average cost', () => {
+    const { service } = createService();
+    service.addLot({ assetId: 'VCB', quantity: 100, unitCost: 60000 });
+    service.addLot({ assetId: 'VCB', quantity: 300, unitCost: 64000 });
+
+    expect(service.getHoldings()).toEqual([
+      expect.objectContaining({
+        assetId: 'VCB',
+        quantity: 400,
+        costBasis: 25_200_000,
+        averageCost: 63000,
+      }),
+    ]);
+    expect(service.holds('VCB')).toBe(true);
+    expect(service.holds('BTC')).toBe(false);
+  });
+
+  it('rejects a lot for an unknown asset', () => {
+    const { service } = createService();
+
+    expect(() =>
+      service.addLot({ assetId: 'FPT', quantity: 1, unitCost: 1 }),
+    ).toThrow('Unknown asset "FPT"');
+  });
+
+  it('values holdings in the portfolio currency', async () => {
+    const { service, record } = createService();
+    service.addLot({ assetId: 'VCB', quantity: 100, unitCost: 60000 });
+    service.addLot({ assetId: 'BTC', quantity: 0.01, unitCost: 100000 });
+    record(VCB, 64000, YESTERDAY);
+    record(VCB, 64600, TODAY);
+    record(BTC, 110000, TODAY);
+
+    const valuation = await service.value();
+
+    expect(valuation).toMatchObject({
+      currency: 'VND',
+      marketValue: 6_460_000 + 28_600_000,
+      costBasis: 6_000_000 + 26_000_000,
+      unrealizedPnl: 3_060_000,
+      dailyChange: 60000,
+    });
+    const vcb = valuation.holdings.find((h) => h.assetId === 'VCB');
+    expect(vcb).toMatchObject({
+      price: 64600,
+      marketValue: 6_460_000,
+      unrealizedPnl: 460_000,
+      dailyChange: 60000,
+    });
+    expect(vcb?.allocationPercent).toBeCloseTo(18.43, 2);
+  });
+
+  it('values the other holdings when one has no FX rate', async () => {
+    const { service, record } = createService({ usdtRate: false });
+    service.addLot({ assetId: 'VCB', quantity: 100, unitCost: 60000 });
+    service.addLot({ assetId: 'BTC', quantity: 0.01, unitCost: 100000 });
+    record(VCB, 64600, TODAY);
+    record(BTC, 110000, TODAY);
+
+    const valuation = await service.value();
+
+    expect(valuation).toMatchObject({
+      marketValue: 6_460_000,
+      costBasis: 6_000_000,
+    });
+    expect(valuation.holdings.find((h) => h.assetId === 'BTC')).toMatchObject({
+      marketValue: null,
+      costBasis: null,
+      error: 'No FX rate available from USDT to VND',
+    });
+    expect(
+      valuation.holdings.find((h) => h.assetId === 'VCB')?.error,
+    ).toBeUndefined();
+  });
+
+  it('leaves holdings that were never crawled out of the totals', async () => {
+    const { service } = createService();
+    service.addLot({ assetId: 'VCB', quantity: 100, unitCost: 60000 });
+
+    const valuation = await service.value();
+
+    expect(valuation.marketValue).toBe(0);
+    expect(valuation.holdings[0]).toMatchObject({
+      price: null,
+      costBasis: 6_000_000,
+    });
+  });
+
+  it('stores snapshots, but not while a holding cannot be valued', async () => {
+    const healthy = createService();
+    healthy.service.addLot({ assetId: 'VCB', quantity: 100, unitCost: 60000 });
+    healthy.record(VCB, 64600, TODAY);
+    const broken = createService({ usdtRate: false });
+    broken.service.addLot({ assetId: 'BTC', quantity: 1, unitCost: 100000 });
+    broken.record(BTC, 110000, TODAY);
+
+    await healthy.service.snapshot();
+    await broken.service.snapshot();
+
+    expect(healthy.service.getSnapshots()).toEqual([
+      {
+        takenAt: TODAY,
+        currency: 'VND',
+        marketValue: 6_460_000,
+        costBasis: 6_000_000,
+        unrealizedPnl: 460_000,
+      },
+    ]);
+    expect(broken.service.getSnapshots()).toEqual([]);
+  });
+
+  it('updates only the given fields and clears the note with null', () => {
+    const { service } = createService();
+    const lot = service.addLot({
+      assetId: 'VCB',
+      quantity: 100,
+      unitCost: 60000,
+      note: 'Bought on the dip',
+    });
+
+    const updated = service.updateLot(lot.id, {
+      quantity: 150,
+      unitCost: undefined,
+      note: null,
+    });
+
+    expect(updated).toEqual({ ...lot, quantity: 150, note: null });
+    expect(service.updateLot(999, { quantity: 1 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,352 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { PriceHistoryService } from '../history/price-history.service';
+import { DateRange } from '../history/price-history.interface';
+import { FxService } from '../fx/fx.service';
+import {
+  Holding,
+  HoldingValuation,
+  Lot,
+  PortfolioSnapshot,
+  PortfolioValuation,
+} from './portfolio.interface';
+
+interface LotRow {
+  id: number;
+  asset_id: string;
+  quantity: number;
+  unit_cost: number;
+  acquired_at: number;
+  note: string | null;
+}
+
+interface SnapshotRow {
+  taken_at: number;
+  currency: string;
+  market_value: number;
+  cost_basis: number;
+  unrealized_pnl: number;
+}
+
+export type LotInput = Pick<Lot, 'assetId' | 'quantity' | 'unitCost'> &
+  Partial<Pick<Lot, 'acquiredAt' | 'note'>>;
+
+/**
+ * Holdings are the lots grouped by asset. Valuation uses the latest crawled
+ * value of each asset and converts into PORTFOLIO_CURRENCY (default VND);
+ * cost basis is converted at today's rate too.
+ */
+@Injectable()
+export class PortfolioService implements OnModuleInit {
+  private readonly logger = new Logger(PortfolioService.name);
+  private readonly currency: string;
+
+  constructor(
+    configService: ConfigService,
+    private readonly database: DatabaseService,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly fxService: FxService,
+  ) {
+    this.currency = (
+      configService.get<string>('PORTFOLIO_CURRENCY') ?? 'VND'
+    ).toUpperCase();
+  }
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS portfolio_lots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asset_id TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        unit_cost REAL NOT NULL,
+        acquired_at INTEGER NOT NULL,
+        note TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        taken_at INTEGER NOT NULL,
+        currency TEXT NOT NULL,
+        market_value REAL NOT NULL,
+        cost_basis REAL NOT NULL,
+        unrealized_pnl REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS portfolio_snapshots_taken_at
+        ON portfolio_snapshots (taken_at);
+    `);
+  }
+
+  getLots(): Lot[] {
+    const rows = this.database.db
+      .prepare('SELECT * FROM portfolio_lots ORDER BY asset_id, acquired_at')
+      .all() as LotRow[];
+    return rows.map(toLot);
+  }
+
+  getLot(id: number): Lot | undefined {
+    const row = this.database.db
+      .prepare('SELECT * FROM portfolio_lots WHERE id = ?')
+      .get(id) as LotRow | undefined;
+    return row && toLot(row);
+  }
+
+  /** Throws with a readable message when the asset is unknown. */
+  addLot(input: LotInput): Lot {
+    this.checkAsset(input.assetId);
+    const { lastInsertRowid } = this.database.db
+      .prepare(
+        `INSERT INTO portfolio_lots (asset_id, quantity, unit_cost, acquired_at, note)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        input.assetId,
+        input.quantity,
+        input.unitCost,
+        (input.acquiredAt ?? new Date()).getTime(),
+        input.note ?? null,
+      );
+    return this.getLot(Number(lastInsertRowid))!;
+  }
+
+  /** Returns undefined when no lot has that id. A null note clears it. */
+  updateLot(id: number, changes: Partial<LotInput>): Lot | undefined {
+    const lot = this.getLot(id);
+    if (!lot) return undefined;
+    if (changes.assetId !== undefined) this.checkAsset(changes.assetId);
+
+    // DTO instances carry every field, unset ones as undefined
+    const defined = Object.entries(changes).filter(([, v]) => v !== undefined);
+    const updated: Lot = { ...lot, ...Object.fromEntries(defined) };
+    this.database.db
+      .prepare(
+        `UPDATE portfolio_lots
+         SET asset_id = ?, quantity = ?, unit_cost = ?, acquired_at = ?, note = ?
+         WHERE id = ?`,
+      )
+      .run(
+        updated.assetId,
+        updated.quantity,
+        updated.unitCost,
+        updated.acquiredAt.getTime(),
+        updated.note ?? null,
+        id,
+      );
+    return this.getLot(id);
+  }
+
+  /** Returns false when no lot has that id. */
+  removeLot(id: number): boolean {
+    const { changes } = this.database.db
+      .prepare('DELETE FROM portfolio_lots WHERE id = ?')
+      .run(id);
+    return changes > 0;
+  }
+
+  getHoldings(): Holding[] {
+    const holdings = new Map<string, Holding>();
+    for (const lot of this.getLots()) {
+      const holding = holdings.get(lot.assetId) ?? {
+        assetId: lot.assetId,
+        quantity: 0,
+        costBasis: 0,
+        averageCost: 0,
+        lots: [],
+      };
+      holding.quantity += lot.quantity;
+      holding.costBasis += lot.quantity * lot.unitCost;
+      holding.averageCost = holding.quantity
+        ? holding.costBasis / holding.quantity
+        : 0;
+      holding.lots.push(lot);
+      holdings.set(lot.assetId, holding);
+    }
+    return [...holdings.values()];
+  }
+
+  holds(assetId: string): boolean {
+    return this.getHoldings().some((holding) => holding.assetId === assetId);
+  }
+
+  async value(): Promise<PortfolioValuation> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    // One holding without an FX rate must not hide the value of the rest
+    const holdings: HoldingValuation[] = [];
+    for (const holding of this.getHoldings()) {
+      try {
+        holdings.push(await this.valueHolding(holding, startOfDay));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Could not value ${holding.assetId}: ${message}`);
+        holdings.push({ ...unvalued(holding, null), error: message });
+      }
+    }
+
+    const priced = holdings.filter((h) => h.marketValue !== null);
+    const marketValue = sum(priced.map((h) => h.marketValue!));
+    const costBasis = sum(priced.map((h) => h.costBasis!));
+    const dailyChange = sum(priced.map((h) => h.dailyChange ?? 0));
+    for (const holding of priced) {
+      holding.allocationPercent = marketValue
+        ? (holding.marketValue! / marketValue) * 100
+        : null;
+    }
+
+    return {
+      currency: this.currency,
+      valuedAt: new Date(),
+      marketValue,
+      costBasis,
+      unrealizedPnl: marketValue - costBasis,
+      unrealizedPnlPercent: percent(marketValue - costBasis, costBasis),
+      dailyChange,
+      dailyChangePercent: percent(dailyChange, marketValue - dailyChange),
+      holdings,
+    };
+  }
+
+  /**
+   * Stores the current valuation. Skipped while a holding cannot be valued,
+   * so a missing rate does not show up as a drop in net worth. Never
+   * throws; failures are logged.
+   */
+  async snapshot(): Promise<void> {
+    try {
+      const valuation = await this.value();
+      const failed = valuation.holdings.filter((h) => h.error !== undefined);
+      if (failed.length > 0) {
+        this.logger.warn(
+          `Skipped portfolio snapshot, could not value ${failed.map((h) => h.assetId).join(', ')}`,
+        );
+        return;
+      }
+      this.database.db
+        .prepare(
+          `INSERT INTO portfolio_snapshots
+            (taken_at, currency, market_value, cost_basis, unrealized_pnl)
+           VALUES (?, ?, ?, ?, ?)`,
+        )
+        .run(
+          valuation.valuedAt.getTime(),
+          valuation.currency,
+          valuation.marketValue,
+          valuation.costBasis,
+          valuation.unrealizedPnl,
+        );
+    } catch (error) {
+      this.logger.error(
+        `Failed to snapshot portfolio: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getSnapshots(range: DateRange = {}): PortfolioSnapshot[] {
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM portfolio_snapshots
+         WHERE taken_at >= ? AND taken_at <= ? ORDER BY taken_at`,
+      )
+      .all(
+        range.from?.getTime() ?? 0,
+        range.to?.getTime() ?? Number.MAX_SAFE_INTEGER,
+      ) as SnapshotRow[];
+    return rows.map((row) => ({
+      takenAt: new Date(row.taken_at),
+      currency: row.currency,
+      marketValue: row.market_value,
+      costBasis: row.cost_basis,
+      unrealizedPnl: row.unrealized_pnl,
+    }));
+  }
+
+  private async valueHolding(
+    holding: Holding,
+    startOfDay: Date,
+  ): Promise<HoldingValuation> {
+    const asset = this.assetRegistry.get(holding.assetId);
+    const latest = this.priceHistory.getLatest(holding.assetId);
+    const previous = this.priceHistory.getLatestBefore(
+      holding.assetId,
+      startOfDay,
+    );
+    const toBase = async (amount: number) =>
+      asset
+        ? (await this.fxService.convert(amount, asset.currency, this.currency))
+            .value
+        : amount;
+
+    const costBasis = await toBase(holding.costBasis);
+    if (!latest) {
+      return unvalued(holding, costBasis);
+    }
+
+    const marketValue = await toBase(holding.quantity * latest.value);
+    const dailyChange = previous
+      ? await toBase(holding.quantity * (latest.value - previous.value))
+      : null;
+    return {
+      assetId: holding.assetId,
+      quantity: holding.quantity,
+      price: latest.value,
+      pricedAt: latest.fetchedAt,
+      marketValue,
+      costBasis,
+      unrealizedPnl: marketValue - costBasis,
+      unrealizedPnlPercent: percent(marketValue - costBasis, costBasis),
+      allocationPercent: null,
+      dailyChange,
+      dailyChangePercent:
+        dailyChange === null
+          ? null
+          : percent(dailyChange, marketValue - dailyChange),
+    };
+  }
+
+  private checkAsset(assetId: string) {
+    if (!this.assetRegistry.get(assetId)) {
+      throw new Error(`Unknown asset "${assetId}"`);
+    }
+  }
+}
+
+function unvalued(
+  holding: Holding,
+  costBasis: number | null,
+): HoldingValuation {
+  return {
+    assetId: holding.assetId,
+    quantity: holding.quantity,
+    price: null,
+    pricedAt: null,
+    marketValue: null,
+    costBasis,
+    unrealizedPnl: null,
+    unrealizedPnlPercent: null,
+    allocationPercent: null,
+    dailyChange: null,
+    dailyChangePercent: null,
+  };
+}
+
+function toLot(row: LotRow): Lot {
+  return {
+    id: row.id,
+    assetId: row.asset_id,
+    quantity: row.quantity,
+    unitCost: row.unit_cost,
+    acquiredAt: new Date(row.acquired_at),
+    note: row.note,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function percent(part: number, whole: number): number | null {
+  return whole ? (part / whole) * 100 : null;
+}
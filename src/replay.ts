@@ -0,0 +1,147 @@
+import { ConsoleLogger, Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { gunzipSync } from 'zlib';
+import { ReplayModule } from './drift/replay.module';
+import { DriftService } from './drift/drift.service';
+import { RecipeEngineService } from './sources/recipes/recipe-engine.service';
+import type { RecipeVars } from './sources/recipes/recipe-engine.service';
+
+const USAGE = [
+  'Usage: npm run replay -- [--recipe doji-gold] [--snapshot 12] [--limit 20]',
+  '       npm run replay -- --file page.html[.gz] --recipe doji-gold --symbol "Giá vàng Nhẫn" [--var currency=VND]',
+].join('\n');
+
+interface ReplayCase {
+  label: string;
+  recipeId: string;
+  html: string;
+  vars: RecipeVars;
+  fingerprint?: string; // As recorded when the snapshot was taken
+  expected?: string; // Raw value extracted back then
+}
+
+/**
+ * Runs recipe extraction against saved snapshots or a local HTML file, so
+ * selector fixes in config/recipes.json can be checked without the sites.
+ */
+async function replay() {
+  process.env.TZ = 'Asia/Ho_Chi_Minh';
+  const logger = new Logger('Replay');
+
+  const { values } = parseArgs({
+    options: {
+      recipe: { type: 'string', multiple: true },
+      snapshot: { type: 'string', multiple: true },
+      file: { type: 'string' },
+      symbol: { type: 'string' },
+      var: { type: 'string', multiple: true },
+      limit: { type: 'string', default: '20' },
+    },
+  });
+  if (values.file && (values.recipe?.length !== 1 || !values.symbol)) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(ReplayModule, {
+    logger: new ConsoleLogger({ json: process.env.LOG_FORMAT === 'json' }),
+  });
+  try {
+    const recipes = app.get(RecipeEngineService);
+    const drift = app.get(DriftService);
+
+    let cases: ReplayCase[];
+    if (values.file) {
+      const file = readFileSync(values.file);
+      const vars: RecipeVars = { symbol: values.symbol! };
+      for (const pair of values.var ?? []) {
+        const [name, ...rest] = pair.split('=');
+        vars[name] = rest.join('=');
+      }
+      cases = [
+        {
+          label: values.file,
+          recipeId: values.recipe![0],
+          html: (values.file.endsWith('.gz')
+            ? gunzipSync(file)
+            : file
+          ).toString('utf8'),
+          vars,
+        },
+      ];
+    } else {
+      const limit = Number(values.limit);
+      const snapshots = values.snapshot
+        ? values.snapshot.flatMap((id) => drift.getSnapshot(Number(id)) ?? [])
+        : values.recipe
+          ? values.recipe.flatMap((id) => drift.getSnapshots(id, limit))
+          : drift.getSnapshots(undefined, limit);
+      cases = snapshots.map((snapshot) => ({
+        label: `#${snapshot.id} ${snapshot.target} @ ${snapshot.capturedAt.toISOString()}`,
+        recipeId: snapshot.recipeId,
+        html: drift.readHtml(snapshot),
+        vars: { symbol: '', ...snapshot.vars },
+        fingerprint: snapshot.fingerprint,
+        expected: snapshot.raw,
+      }));
+    }
+    if (cases.length === 0) {
+      logger.warn(
+        'No snapshots to replay, set SCRAPE_SNAPSHOTS to collect some',
+      );
+      return;
+    }
+
+    let failed = 0;
+    for (const replayCase of cases) {
+      const recipe = recipes.get(replayCase.recipeId);
+      if (!recipe) {
+        logger.error(
+          `${replayCase.label}: unknown recipe "${replayCase.recipeId}"`,
+        );
+        failed++;
+        continue;
+      }
+      const fingerprint = recipes.fingerprint(
+        recipe,
+        replayCase.html,
+        replayCase.vars,
+      );
+      const layout =
+        replayCase.fingerprint && replayCase.fingerprint !== fingerprint
+          ? `, layout ${replayCase.fingerprint} → ${fingerprint}`
+          : `, layout ${fingerprint}`;
+      try {
+        const { value, raw } = recipes.extract(
+          recipe,
+          replayCase.html,
+          replayCase.vars,
+        );
+        const then =
+          replayCase.expected === undefined
+            ? ''
+            : raw === replayCase.expected
+              ? ' (unchanged)'
+              : ` (was "${replayCase.expected}")`;
+        logger.log(
+          `${replayCase.label}: ${value} from "${raw}"${then}${layout}`,
+        );
+      } catch (error) {
+        failed++;
+        logger.error(
+          `${replayCase.label}: ${error instanceof Error ? error.message : String(error)}${layout}`,
+        );
+      }
+    }
+    logger.log(`Replayed ${cases.length} pages, ${failed} failed`);
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+void replay();
@@ -0,0 +1,180 @@
+import { toDateKey } from '../common/date-key';
+import { formatUnit } from '../units/price-unit';
+import { Digest } from './report.interface';
+
+type Cell = string | number | null;
+
+interface Section {
+  heading: string;
+  columns: string[];
+  rows: Cell[][];
+  empty: string; // Shown instead of a table without rows
+}
+
+export function digestTitle({ period, to }: Digest): string {
+  const label = period === 'daily' ? 'Daily' : 'Weekly';
+  return `[asset-crawler] ${label} market digest ${toDateKey(to)}`;
+}
+
+export function renderMarkdown(digest: Digest): string {
+  const lines = [`# ${digestTitle(digest)}`, '', period(digest)];
+  for (const section of sections(digest)) {
+    lines.push('', `## ${section.heading}`, '');
+    if (section.rows.length === 0) {
+      lines.push(section.empty);
+      continue;
+    }
+    lines.push(
+      `| ${section.columns.join(' | ')} |`,
+      `|${section.columns.map(() => ' --- |').join('')}`,
+      ...section.rows.map(
+        (row) =>
+          `| ${row.map((cell) => text(cell).replaceAll('|', '\\|')).join(' | ')} |`,
+      ),
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderHtml(digest: Digest): string {
+  const title = escape(digestTitle(digest));
+  const body = sections(digest).map((section) => {
+    const content =
+      section.rows.length === 0
+        ? `<p>${escape(section.empty)}</p>`
+        : [
+            '<table>',
+            `<tr>${section.columns.map((c) => `<th>${escape(c)}</th>`).join('')}</tr>`,
+            ...section.rows.map(
+              (row) =>
+                `<tr>${row.map((cell) => `<td>${escape(text(cell))}</td>`).join('')}</tr>`,
+            ),
+            '</table>',
+          ].join('\n');
+    return `<h2>${escape(section.heading)}</h2>\n${content}`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${title}</title>`,
+    '<style>table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 8px;text-align:right}th:first-child,td:first-child{text-align:left}</style>',
+    '</head><body>',
+    `<h1>${title}</h1>`,
+    `<p>${escape(period(digest))}</p>`,
+    ...body,
+    '</body></html>',
+    '',
+  ].join('\n');
+}
+
+function sections(digest: Digest): Section[] {
+  const { gold, usdt } = digest;
+  return [
+    {
+      heading: 'Prices',
+      columns: [
+        'Asset',
+        'Price',
+        'Unit',
+        'Previous close',
+        'Change %',
+        'Week ago',
+        'Week change %',
+        'As of',
+      ],
+      rows: digest.assets.map((row) => [
+        row.name,
+        row.value,
+        formatUnit(row),
+        row.previousClose,
+        signed(row.changePercent),
+        row.weekAgo,
+        signed(row.weekChangePercent),
+        time(row.asOf),
+      ]),
+      empty: 'No prices have been crawled yet.',
+    },
+    {
+      heading: 'Gold versus world price',
+      columns: ['Gold', 'Price', 'World (implied)', 'Unit', 'Premium %'],
+      rows: gold
+        ? [
+            [
+              `${gold.assetId} vs ${gold.worldAssetId}`,
+              gold.local,
+              gold.world,
+              `VND/${gold.per}`,
+              signed(gold.premiumPercent),
+            ],
+          ]
+        : [],
+      empty: 'Gold or world gold price unavailable.',
+    },
+    {
+      heading: 'USDT/VND premium',
+      columns: ['USDT', 'USD (official)', 'Rate source', 'Premium %'],
+      rows: usdt
+        ? [
+            [
+              usdt.usdtVnd,
+              usdt.usdVnd,
+              usdt.fxSource,
+              signed(usdt.premiumPercent),
+            ],
+          ]
+        : [],
+      empty: 'USDT price or USD/VND rate unavailable.',
+    },
+    {
+      heading: 'Crawl failures',
+      columns: ['Job', 'Failures', 'Outcomes', 'Last error', 'Last failed'],
+      rows: digest.failures.map((failure) => [
+        failure.jobId,
+        failure.count,
+        Object.entries(failure.outcomes)
+          .map(([outcome, count]) => `${outcome} ${count}`)
+          .join(', '),
+        failure.lastError ? truncate(failure.lastError) : null,
+        time(failure.lastAt),
+      ]),
+      empty: 'No crawl failures in this period.',
+    },
+  ];
+}
+
+function period({ from, to }: Digest): string {
+  return `Period: ${time(from)} – ${time(to)}`;
+}
+
+function text(cell: Cell): string {
+  if (cell === null) return '–';
+  return typeof cell === 'number'
+    ? cell.toLocaleString('en-US', { maximumFractionDigits: 2 })
+    : cell;
+}
+
+function signed(percent: number | null): string | null {
+  if (percent === null) return null;
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}`;
+}
+
+// Errors can span lines (Puppeteer's do), which would break a table row
+function truncate(error: string): string {
+  const line = error.replace(/\s+/g, ' ').trim();
+  return line.length > 160 ? `${line.slice(0, 159)}…` : line;
+}
+
+function time(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${toDateKey(date)} ${hours}:${minutes}`;
+}
+
+function escape(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
@@ -0,0 +1,79 @@
+import { WeightUnit } from '../units/price-unit';
+import { CrawlOutcome } from '../observability/crawl-run.interface';
+
+export const REPORT_PERIODS = ['daily', 'weekly'] as const;
+
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export const REPORT_FORMATS = ['markdown', 'html'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportConfig {
+  period: ReportPeriod;
+  schedule: string; // Cron expression or a CronExpression key
+  format?: ReportFormat; // Defaults to html
+  channels?: string[]; // Channel ids from config/alerts.json
+  directory?: string; // Writes <period>-<date>.md/.html, e.g. a Drive-synced folder
+}
+
+export interface ReportsConfig {
+  reports: ReportConfig[];
+  assets?: string[]; // Defaults to every enabled asset
+  goldAsset?: string; // Defaults to DOJI_RING
+  worldGoldAsset?: string; // Per its `per`, else troy ounce; defaults to PAXG
+  usdtAsset?: string; // USDT in VND, defaults to USDT
+}
+
+export interface DigestAssetRow {
+  assetId: string;
+  name: string;
+  currency: string;
+  per?: WeightUnit;
+  value: number;
+  asOf: Date;
+  previousClose: number | null; // Last quote before today
+  changePercent: number | null;
+  weekAgo: number | null; // Last quote seven days before the digest
+  weekChangePercent: number | null;
+}
+
+export interface DigestGold {
+  assetId: string;
+  worldAssetId: string;
+  per: WeightUnit;
+  local: number;
+  world: number; // World price converted to the same weight
+  premiumPercent: number;
+}
+
+export interface DigestUsdtPremium {
+  usdtVnd: number;
+  usdVnd: number; // Official rate from the FX service
+  fxSource: string;
+  premiumPercent: number;
+}
+
+export interface DigestFailure {
+  jobId: string;
+  count: number;
+  outcomes: Partial<Record<CrawlOutcome, number>>;
+  lastError?: string;
+  lastAt: Date;
+}
+
+export interface Digest {
+  period: ReportPeriod;
+  from: Date;
+  to: Date;
+  assets: DigestAssetRow[];
+  gold: DigestGold | null;
+  usdt: DigestUsdtPremium | null;
+  failures: DigestFailure[];
+}
+
+export interface ReportDelivery {
+  period: ReportPeriod;
+  files: string[];
+  channels: number; // Channels that accepted the report
+}
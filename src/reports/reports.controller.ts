@@ -0,0 +1,60 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../common/api-key.guard';
+import { ReportsService } from './reports.service';
+import { renderHtml, renderMarkdown } from './digest-renderer';
+import { REPORT_PERIODS } from './report.interface';
+import type { Digest, ReportDelivery, ReportPeriod } from './report.interface';
+
+@Controller('reports')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @Get(':period')
+  getDigest(@Param('period') period: string): Promise<Digest> {
+    return this.reportsService.build(toPeriod(period));
+  }
+
+  @Get(':period/markdown')
+  @Header('Content-Type', 'text/markdown; charset=utf-8')
+  async getMarkdown(@Param('period') period: string): Promise<string> {
+    return renderMarkdown(await this.reportsService.build(toPeriod(period)));
+  }
+
+  @Get(':period/html')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  async getHtml(@Param('period') period: string): Promise<string> {
+    return renderHtml(await this.reportsService.build(toPeriod(period)));
+  }
+
+  @Post(':period/send')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  async send(@Param('period') period: string): Promise<ReportDelivery[]> {
+    try {
+      return await this.reportsService.send(toPeriod(period));
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
+
+function toPeriod(period: string): ReportPeriod {
+  if (!REPORT_PERIODS.includes(period as ReportPeriod)) {
+    throw new NotFoundException(
+      `Unknown report period "${period}", use ${REPORT_PERIODS.join(' or ')}`,
+    );
+  }
+  return period as ReportPeriod;
+}
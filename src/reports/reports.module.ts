@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { AssetsModule } from '../assets/assets.module';
+import { HistoryModule } from '../history/history.module';
+import { ObservabilityModule } from '../observability/observability.module';
+import { FxModule } from '../fx/fx.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { ReportsService } from './reports.service';
+import { ReportsController } from './reports.controller';
+
+@Module({
+  imports: [
+    AssetsModule,
+    HistoryModule,
+    ObservabilityModule,
+    FxModule,
+    AlertsModule,
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+})
+export class ReportsModule {}
@@ -0,0 +1,268 @@
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ReportsService } from './reports.service';
+import { ReportsConfig } from './report.interface';
+import { AssetConfig } from '../assets/asset.interface';
+import { PriceHistoryService } from '../history/price-history.service';
+import { RunJournalService } from '../observability/run-journal.service';
+import { MetricsService } from '../observability/metrics.service';
+
+function asset(id: string, extra: Partial<AssetConfig> = {}): AssetConfig {
+  return {
+    id,
+    source: 'dnse-stock',
+    symbol: id,
+    currency: 'VND',
+    schedule: '0 0 16 * * *',
+    sinks: [],
+    ...extra,
+  };
+}
+
+const VCB = asset('VCB', { name: 'Vietcombank' });
+const DOJI_RING = asset('DOJI_RING', { source: 'doji-gold', per: 'chỉ' });
+const PAXG = asset('PAXG', { source: 'binance-ticker' });
+const USDT = asset('USDT', { source: 'binance-price-page' });
+
+// Local times, so "before today" holds in any time zone
+const TO = new Date(2025, 9, 22, 17, 30);
+const at = (day: number, hours = 16) => new Date(2025, 9, day, hours);
+
+// 140 million VND per lượng, expressed per troy ounce
+const VND_PER_OUNCE = (140_000_000 * 31.1034768) / 37.5;
+
+describe('ReportsService', () => {
+  let dir: string;
+  let schedulerRegistry: SchedulerRegistry;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reports-'));
+    schedulerRegistry = new SchedulerRegistry();
+  });
+
+  afterEach(() => {
+    schedulerRegistry.getCronJobs().forEach((job) => void job.stop());
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createService(
+    config: Partial<ReportsConfig> = {},
+    assets = [VCB, DOJI_RING, PAXG, USDT],
+  ) {
+    const path = join(dir, 'reports.json');
+    writeFileSync(
+      path,
+      JSON.stringify({
+        reports: [
+          { period: 'daily', schedule: '0 30 17 * * 1-5', channels: ['mail'] },
+          {
+            period: 'weekly',
+            schedule: '0 0 9 * * 6',
+            format: 'markdown',
+            directory: join(dir, 'out'),
+          },
+        ],
+        ...config,
+      }),
+    );
+    const database = { db: new Database(':memory:') };
+    const history = new PriceHistoryService(database as never);
+    history.onModuleInit();
+    const runJournal = new RunJournalService(
+      new ConfigService({}),
+      database as never,
+      new MetricsService(),
+    );
+    runJournal.onModuleInit();
+    const fxService = {
+      convert: jest.fn(() =>
+        Promise.resolve({ value: 26000, source: 'vietcombank' }),
+      ),
+    };
+    const notifier = { notify: jest.fn(() => Promise.resolve(1)) };
+    const registry = new Map(assets.map((a) => [a.id, a]));
+
+    const service = new ReportsService(
+      new ConfigService({ REPORTS_CONFIG_PATH: path }),
+      schedulerRegistry,
+      {
+        get: (id: string) => registry.get(id),
+        getEnabled: () => assets,
+      } as never,
+      history,
+      runJournal,
+      fxService as never,
+      {
+        getChannels: (ids: string[]) =>
+          ids.flatMap((id) => (id === 'mail' ? [{ id, type: 'email' }] : [])),
+      } as never,
+      notifier as never,
+    );
+    service.onModuleInit();
+
+    jest.useFakeTimers({ now: TO, doNotFake: ['setImmediate', 'nextTick'] });
+    const record = (target: AssetConfig, value: number, fetchedAt: Date) => {
+      jest.setSystemTime(fetchedAt);
+      history.record(
+        target,
+        {
+          symbol: target.symbol,
+          price: value,
+          currency: target.currency,
+          timestamp: fetchedAt,
+          source: target.source,
+        },
+        value,
+      );
+      jest.setSystemTime(TO);
+    };
+    return { service, record, runJournal, fxService, notifier };
+  }
+
+  it('reports daily and weekly changes per asset', async () => {
+    const { service, record } = createService({ assets: ['VCB'] });
+    record(VCB, 62000, at(14));
+    record(VCB, 64000, at(21));
+    record(VCB, 64600, at(22));
+
+    const digest = await service.build('daily', TO);
+
+    expect(digest.from).toEqual(new Date(TO.getTime() - 24 * 60 * 60 * 1000));
+    expect(digest.assets).toEqual([
+      expect.objectContaining({
+        assetId: 'VCB',
+        name: 'Vietcombank',
+        value: 64600,
+        previousClose: 64000,
+        weekAgo: 62000,
+      }),
+    ]);
+    expect(digest.assets[0].changePercent).toBeCloseTo(0.9375);
+    expect(digest.assets[0].weekChangePercent).toBeCloseTo(4.194, 3);
+  });
+
+  it('compares local gold with the world price per the same weight', async () => {
+    const { service, record } = createService();
+    record(DOJI_RING, 14_700_000, at(22));
+    record(PAXG, VND_PER_OUNCE, at(22));
+
+    const { gold } = await service.build('daily', TO);
+
+    expect(gold).toMatchObject({
+      assetId: 'DOJI_RING',
+      worldAssetId: 'PAXG',
+      per: 'chỉ',
+      local: 14_700_000,
+    });
+    expect(gold?.world).toBeCloseTo(14_000_000);
+    expect(gold?.premiumPercent).toBeCloseTo(5);
+  });
+
+  it('takes the world price in the unit its asset is stored in', async () => {
+    const paxgPerLuong = { ...PAXG, per: 'lượng' as const };
+    const { service, record } = createService({}, [DOJI_RING, paxgPerLuong]);
+    record(DOJI_RING, 14_700_000, at(22));
+    record(paxgPerLuong, 140_000_000, at(22));
+
+    const { gold } = await service.build('daily', TO);
+
+    expect(gold?.world).toBeCloseTo(14_000_000);
+  });
+
+  it('prices USDT against the official dollar rate', async () => {
+    const { service, record, fxService } = createService();
+    record(USDT, 26_520, at(22));
+
+    await expect(service.build('daily', TO)).resolves.toMatchObject({
+      usdt: { usdtVnd: 26_520, usdVnd: 26_000, fxSource: 'vietcombank' },
+    });
+
+    fxService.convert.mockRejectedValueOnce(new Error('No FX rate'));
+    await expect(service.build('daily', TO)).resolves.toMatchObject({
+      usdt: null,
+    });
+  });
+
+  it('groups failed runs per job, most failures first', async () => {
+    const { service, runJournal } = createService();
+    jest.setSystemTime(at(22, 9));
+    runJournal.start('VCB').fail({ outcome: 'stale', error: 'old close' });
+    runJournal.start('DOJI_RING').fail({ outcome: 'failure', error: 'a' });
+    runJournal.start('DOJI_RING').fail({ outcome: 'rejected', error: 'b' });
+    jest.setSystemTime(at(20, 9));
+    runJournal.start('VCB').fail({ outcome: 'failure', error: 'too old' });
+    jest.setSystemTime(TO);
+
+    const { failures } = await service.build('daily', TO);
+
+    expect(failures).toEqual([
+      {
+        jobId: 'DOJI_RING',
+        count: 2,
+        outcomes: { failure: 1, rejected: 1 },
+        lastError: 'b',
+        lastAt: at(22, 9),
+      },
+      {
+        jobId: 'VCB',
+        count: 1,
+        outcomes: { stale: 1 },
+        lastError: 'old close',
+        lastAt: at(22, 9),
+      },
+    ]);
+  });
+
+  it('sends a digest to its channels and writes it to its directory', async () => {
+    const { service, notifier } = createService();
+
+    const [daily] = await service.send('daily');
+    const [weekly] = await service.send('weekly');
+
+    expect(daily).toEqual({ period: 'daily', files: [], channels: 1 });
+    expect(notifier.notify).toHaveBeenCalledWith(
+      expect.objectContaining({ title: expect.any(String) as string }),
+      [{ id: 'mail', type: 'email' }],
+    );
+    expect(weekly.files).toEqual([join(dir, 'out', 'weekly-2025-10-22.md')]);
+    expect(readFileSync(weekly.files[0], 'utf8')).toContain('#');
+  });
+
+  it('journals a failed scheduled delivery', async () => {
+    const { service, runJournal, notifier } = createService();
+    notifier.notify.mockRejectedValueOnce(new Error('SMTP refused'));
+    service.onApplicationBootstrap();
+
+    void schedulerRegistry.getCronJob('report:daily:0').fireOnTick();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(runJournal.list('report:daily:0')).toEqual([
+      expect.objectContaining({ outcome: 'failure', error: 'SMTP refused' }),
+    ]);
+  });
+
+  it('rejects a report without channels or directory and unknown assets', () => {
+    expect(() =>
+      createService({
+        reports: [{ period: 'daily', schedule: 'EVERY_DAY_AT_5PM' }],
+      }),
+    ).toThrow('Report "daily" needs "channels" or a "directory"');
+    expect(() =>
+      createService({
+        reports: [
+          { period: 'daily', schedule: 'EVERY_DAY_AT_5PM', channels: ['sms'] },
+        ],
+      }),
+    ).toThrow(
+      'Report "daily" uses channels missing from the alerts config: sms',
+    );
+    expect(() => createService({ assets: ['FPT'] })).toThrow(
+      'Reports config lists unknown asset "FPT"',
+    );
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { toDateKey } from '../common/date-key';
+import { resolveSchedule } from '../assets/schedule';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { PriceHistoryService } from '../history/price-history.service';
+import { RunJournalService } from '../observability/run-journal.service';
+import { FxService } from '../fx/fx.service';
+import { AlertRulesService } from '../alerts/alert-rules.service';
+import { NotifierService } from '../alerts/channels/notifier.service';
+import { convertWeight } from '../units/price-unit';
+import { digestTitle, renderHtml, renderMarkdown } from './digest-renderer';
+import {
+  Digest,
+  DigestAssetRow,
+  DigestFailure,
+  DigestGold,
+  DigestUsdtPremium,
+  REPORT_FORMATS,
+  REPORT_PERIODS,
+  ReportConfig,
+  ReportDelivery,
+  ReportPeriod,
+  ReportsConfig,
+} from './report.interface';
+
+const DEFAULT_REPORTS_CONFIG_PATH = 'config/reports.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_DAYS: Record<ReportPeriod, number> = { daily: 1, weekly: 7 };
+
+/**
+ * Builds daily and weekly digests from stored quotes and the run journal,
+ * and delivers them to notification channels and/or a folder on a
+ * schedule. Scheduling is disabled when config/reports.json does not exist.
+ */
+@Injectable()
+export class ReportsService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(ReportsService.name);
+  private config: ReportsConfig = { reports: [] };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly runJournal: RunJournalService,
+    private readonly fxService: FxService,
+    private readonly alertRules: AlertRulesService,
+    private readonly notifier: NotifierService,
+  ) {}
+
+  onModuleInit() {
+    const path = resolve(
+      this.configService.get<string>('REPORTS_CONFIG_PATH') ??
+        DEFAULT_REPORTS_CONFIG_PATH,
+    );
+    if (!existsSync(path)) {
+      this.logger.log(`No reports config at ${path}, digests are API-only`);
+      return;
+    }
+    this.config = this.check(
+      JSON.parse(readFileSync(path, 'utf8')) as ReportsConfig,
+    );
+    this.logger.log(
+      `Loaded ${this.config.reports.length} reports from ${path}`,
+    );
+  }
+
+  onApplicationBootstrap() {
+    this.config.reports.forEach((report, i) => {
+      const schedule = resolveSchedule(report.schedule);
+      const name = `report:${report.period}:${i}`;
+      this.runJournal.track(name);
+      const job = CronJob.from({
+        cronTime: schedule,
+        onTick: () => void this.deliverScheduled(name, report),
+      });
+      this.schedulerRegistry.addCronJob(name, job);
+      job.start();
+      this.logger.log(`Scheduled ${report.period} digest at "${schedule}"`);
+    });
+  }
+
+  /** Digest for the period ending now. */
+  async build(period: ReportPeriod, to = new Date()): Promise<Digest> {
+    const from = new Date(to.getTime() - PERIOD_DAYS[period] * DAY_MS);
+    return {
+      period,
+      from,
+      to,
+      assets: this.assetRows(to),
+      gold: this.gold(),
+      usdt: await this.usdtPremium(),
+      failures: this.failures(from, to),
+    };
+  }
+
+  /** Delivers every configured report of that period. */
+  async send(period: ReportPeriod): Promise<ReportDelivery[]> {
+    const reports = this.config.reports.filter(
+      (report) => report.period === period,
+    );
+    if (reports.length === 0) {
+      throw new Error(`No ${period} report is configured`);
+    }
+    const deliveries: ReportDelivery[] = [];
+    for (const report of reports) {
+      deliveries.push(await this.deliver(report));
+    }
+    return deliveries;
+  }
+
+  // Journaled like a crawl, so a digest that keeps failing shows up in the
+  // metrics and in the failures of the next digest
+  private async deliverScheduled(jobId: string, report: ReportConfig) {
+    const run = this.runJournal.start(jobId);
+    try {
+      const delivery = await this.deliver(report);
+      run.succeed(delivery.channels);
+    } catch (error) {
+      run.fail({ outcome: 'failure', error });
+    }
+  }
+
+  private async deliver(report: ReportConfig): Promise<ReportDelivery> {
+    try {
+      const digest = await this.build(report.period);
+      const markdown = renderMarkdown(digest);
+      const html =
+        report.format === 'markdown' ? undefined : renderHtml(digest);
+
+      const files: string[] = [];
+      if (report.directory) {
+        const directory = resolve(report.directory);
+        const path = join(
+          directory,
+          `${report.period}-${toDateKey(digest.to)}.${html ? 'html' : 'md'}`,
+        );
+        await mkdir(directory, { recursive: true });
+        await writeFile(path, html ?? markdown);
+        files.push(path);
+      }
+
+      const configs = this.alertRules.getChannels(report.channels ?? []);
+      const channels = await this.notifier.notify(
+        { title: digestTitle(digest), text: markdown, html },
+        configs,
+      );
+      if (channels < configs.length) {
+        this.logger.warn(
+          `${report.period} digest reached ${channels} of ${configs.length} channels`,
+        );
+      }
+      this.logger.log(
+        `Delivered ${report.period} digest to ${files.length} files and ${channels} channels`,
+      );
+      return { period: report.period, files, channels };
+    } catch (error) {
+      this.logger.error(
+        `Failed to deliver ${report.period} digest: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  private assetRows(to: Date): DigestAssetRow[] {
+    const ids =
+      this.config.assets ??
+      this.assetRegistry.getEnabled().map((asset) => asset.id);
+    const startOfDay = new Date(to);
+    startOfDay.setHours(0, 0, 0, 0);
+    const weekAgo = new Date(to.getTime() - 7 * DAY_MS);
+
+    return ids.flatMap((id) => {
+      const asset = this.assetRegistry.get(id);
+      const latest = this.priceHistory.getLatest(id);
+      if (!asset || !latest) return [];
+      const previousClose =
+        this.priceHistory.getLatestBefore(id, startOfDay)?.value ?? null;
+      const weekValue =
+        this.priceHistory.getLatestBefore(id, weekAgo)?.value ?? null;
+      return [
+        {
+          assetId: id,
+          name: asset.name ?? id,
+          currency: asset.currency,
+          per: asset.per,
+          value: latest.value,
+          asOf: latest.fetchedAt,
+          previousClose,
+          changePercent: change(latest.value, previousClose),
+          weekAgo: weekValue,
+          weekChangePercent: change(latest.value, weekValue),
+        },
+      ];
+    });
+  }
+
+  // The world asset (PAXG) is stored per troy ounce unless it says otherwise
+  private gold(): DigestGold | null {
+    const assetId = this.config.goldAsset ?? 'DOJI_RING';
+    const worldAssetId = this.config.worldGoldAsset ?? 'PAXG';
+    const per = this.assetRegistry.get(assetId)?.per ?? 'lượng';
+    const worldPer = this.assetRegistry.get(worldAssetId)?.per ?? 'troy-ounce';
+    const local = this.priceHistory.getLatest(assetId);
+    const world = this.priceHistory.getLatest(worldAssetId);
+    if (!local || !world || local.valueCurrency !== world.valueCurrency) {
+      return null;
+    }
+    const worldValue = convertWeight(world.value, worldPer, per);
+    return {
+      assetId,
+      worldAssetId,
+      per,
+      local: local.value,
+      world: worldValue,
+      premiumPercent: (local.value / worldValue - 1) * 100,
+    };
+  }
+
+  private async usdtPremium(): Promise<DigestUsdtPremium | null> {
+    const usdt = this.priceHistory.getLatest(this.config.usdtAsset ?? 'USDT');
+    if (!usdt || usdt.valueCurrency !== 'VND') return null;
+    try {
+      const usd = await this.fxService.convert(1, 'USD', 'VND');
+      return {
+        usdtVnd: usdt.value,
+        usdVnd: usd.value,
+        fxSource: usd.source,
+        premiumPercent: (usdt.value / usd.value - 1) * 100,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `No USD/VND rate for the USDT premium: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private failures(from: Date, to: Date): DigestFailure[] {
+    const byJob = new Map<string, DigestFailure>();
+    for (const run of this.runJournal.listFailures(from, to)) {
+      const failure = byJob.get(run.jobId) ?? {
+        jobId: run.jobId,
+        count: 0,
+        outcomes: {},
+        lastAt: run.startedAt,
+      };
+      failure.count++;
+      failure.outcomes[run.outcome] = (failure.outcomes[run.outcome] ?? 0) + 1;
+      failure.lastError = run.error ?? failure.lastError;
+      failure.lastAt = run.startedAt;
+      byJob.set(run.jobId, failure);
+    }
+    return [...byJob.values()].sort((a, b) => b.count - a.count);
+  }
+
+  private check(config: ReportsConfig): ReportsConfig {
+    if (!Array.isArray(config?.reports)) {
+      throw new Error('Reports config needs a "reports" list');
+    }
+    for (const report of config.reports) {
+      const label = `Report "${report.period}"`;
+      if (!REPORT_PERIODS.includes(report.period)) {
+        throw new Error(`${label} has unknown period`);
+      }
+      if (report.format && !REPORT_FORMATS.includes(report.format)) {
+        throw new Error(`${label} has unknown format "${report.format}"`);
+      }
+      const channels = report.channels ?? [];
+      if (this.alertRules.getChannels(channels).length < channels.length) {
+        throw new Error(
+          `${label} uses channels missing from the alerts config: ${channels.join(', ')}`,
+        );
+      }
+      if (channels.length === 0 && !report.directory) {
+        throw new Error(`${label} needs "channels" or a "directory"`);
+      }
+      resolveSchedule(report.schedule);
+    }
+    for (const id of config.assets ?? []) {
+      if (!this.assetRegistry.get(id)) {
+        throw new Error(`Reports config lists unknown asset "${id}"`);
+      }
+    }
+    return config;
+  }
+}
+
+function change(value: number, reference: number | null): number | null {
+  return reference ? (value / reference - 1) * 100 : null;
+}
@@ -0,0 +1,59 @@
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerSnapshot {
+  state: BreakerState;
+  failures: number; // Consecutive failed runs since the last success
+  openedAt?: Date;
+}
+
+/**
+ * Opens after `threshold` consecutive failed runs and rejects calls until
+ * `resetMs` has passed, then lets a single probe through (half-open).
+ */
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly resetMs: number,
+  ) {}
+
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt! >= this.resetMs) {
+      this.state = 'half-open';
+    }
+    if (this.state === 'half-open') {
+      if (this.probing) return false;
+      this.probing = true;
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  onSuccess() {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.probing = false;
+  }
+
+  onFailure(now = Date.now()) {
+    this.failures++;
+    this.probing = false;
+    if (this.state === 'half-open' || this.failures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  snapshot(): BreakerSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt) : undefined,
+    };
+  }
+}
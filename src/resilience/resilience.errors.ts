@@ -0,0 +1,51 @@
+import { isAxiosError } from 'axios';
+
+export class CircuitOpenError extends Error {
+  constructor(readonly key: string) {
+    super(`Circuit for ${key} is open, skipping request`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class AttemptTimeoutError extends Error {
+  constructor(
+    readonly key: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`${key} did not respond within ${timeoutMs}ms`);
+    this.name = 'AttemptTimeoutError';
+  }
+}
+
+export class RetriesExhaustedError extends Error {
+  constructor(
+    readonly key: string,
+    readonly attempts: number,
+    readonly cause: unknown,
+  ) {
+    super(
+      `${cause instanceof Error ? cause.message : String(cause)} (after ${attempts} attempts)`,
+    );
+    this.name = 'RetriesExhaustedError';
+  }
+}
+
+/**
+ * Whether a failed run says the source itself is down: a timeout, a
+ * network error, a 5xx or a 429. A 4xx or a page without the expected
+ * value is about the one request, so it does not count against the breaker.
+ */
+export function isOutage(error: unknown): boolean {
+  if (error instanceof AttemptTimeoutError) {
+    return true;
+  }
+  if (isAxiosError(error)) {
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+  // Puppeteer navigation timeouts and connection errors
+  return (
+    error instanceof Error &&
+    (error.name === 'TimeoutError' || error.message.includes('net::ERR_'))
+  );
+}
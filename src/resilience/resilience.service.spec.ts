@@ -0,0 +1,154 @@
+import { ConfigService } from '@nestjs/config';
+import { AxiosError, AxiosResponse } from 'axios';
+import { breakerKey, ResilienceService } from './resilience.service';
+import {
+  AttemptTimeoutError,
+  CircuitOpenError,
+  RetriesExhaustedError,
+} from './resilience.errors';
+
+function httpError(status: number): AxiosError {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_RESPONSE',
+    undefined,
+    undefined,
+    { status } as AxiosResponse,
+  );
+}
+
+// Trips after two failed runs; retries are immediate
+function createBreakerService() {
+  return new ResilienceService(
+    new ConfigService({
+      RETRY_BASE_DELAY_MS: '0',
+      BREAKER_FAILURE_THRESHOLD: '2',
+    }),
+  );
+}
+
+describe('ResilienceService', () => {
+  const service = new ResilienceService(
+    new ConfigService({
+      RETRY_BASE_DELAY_MS: '0',
+      ATTEMPT_TIMEOUT_MS: '50',
+    }),
+  );
+
+  it('aborts the signal of an attempt that times out', async () => {
+    const signals: AbortSignal[] = [];
+    const task = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<number>((_, reject) =>
+        signal.addEventListener('abort', () => reject(signal.reason as Error)),
+      );
+    };
+
+    const error = await service
+      .execute('slow', task, { maxAttempts: 2 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(RetriesExhaustedError);
+    expect((error as RetriesExhaustedError).cause).toBeInstanceOf(
+      AttemptTimeoutError,
+    );
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('leaves the signal alone when the attempt finishes in time', async () => {
+    let received: AbortSignal | undefined;
+
+    const result = await service.execute('fast', (signal) => {
+      received = signal;
+      return Promise.resolve(42);
+    });
+
+    expect(result).toEqual({ value: 42, attempts: 1 });
+    expect(received?.aborted).toBe(false);
+  });
+
+  it('counts a run that used every retry as one failure', async () => {
+    const service = createBreakerService();
+    const task = jest.fn(() => Promise.reject(httpError(503)));
+
+    await expect(
+      service.execute('dnse-stock:VCB', task, { maxAttempts: 3 }),
+    ).rejects.toThrow(RetriesExhaustedError);
+
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(service.getBreakerState('dnse-stock:VCB')).toMatchObject({
+      state: 'closed',
+      failures: 1,
+    });
+  });
+
+  it('keeps other symbols on the source running when one trips', async () => {
+    const service = createBreakerService();
+    const down = () => Promise.reject(httpError(502));
+    const bad = breakerKey('dnse-stock', 'XXX');
+    const good = breakerKey('dnse-stock', 'VCB');
+
+    for (let run = 0; run < 2; run++) {
+      await expect(
+        service.execute(bad, down, { maxAttempts: 1 }),
+      ).rejects.toThrow(RetriesExhaustedError);
+    }
+
+    await expect(
+      service.execute(bad, () => Promise.resolve(1)),
+    ).rejects.toThrow(CircuitOpenError);
+    await expect(
+      service.execute(good, () => Promise.resolve(64600)),
+    ).resolves.toEqual({ value: 64600, attempts: 1 });
+  });
+
+  it('does not count answers that are about the request', async () => {
+    const service = createBreakerService();
+
+    for (let run = 0; run < 3; run++) {
+      await expect(
+        service.execute(
+          'dnse-stock:XXX',
+          () => Promise.reject(httpError(404)),
+          { maxAttempts: 1 },
+        ),
+      ).rejects.toThrow(RetriesExhaustedError);
+      await expect(
+        service.execute(
+          'dnse-stock:XXX',
+          () => Promise.reject(new Error('DNSE XXX has no close prices')),
+          { maxAttempts: 1 },
+        ),
+      ).rejects.toThrow(RetriesExhaustedError);
+    }
+
+    expect(service.getBreakerState('dnse-stock:XXX')).toMatchObject({
+      state: 'closed',
+      failures: 0,
+    });
+  });
+
+  it('counts timeouts and rate limits as outages', async () => {
+    const service = createBreakerService();
+
+    await expect(
+      service.execute(
+        'binance-ticker:BTCUSDT',
+        () => Promise.reject(httpError(429)),
+        { maxAttempts: 1 },
+      ),
+    ).rejects.toThrow(RetriesExhaustedError);
+    await expect(
+      service.execute(
+        'binance-ticker:BTCUSDT',
+        () => new Promise(() => undefined),
+        { maxAttempts: 1, attemptTimeoutMs: 10 },
+      ),
+    ).rejects.toThrow(RetriesExhaustedError);
+
+    expect(service.getBreakerState('binance-ticker:BTCUSDT').state).toBe(
+      'open',
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { sleep } from '../common/sleep';
+import { BreakerSnapshot, CircuitBreaker } from './circuit-breaker';
+import {
+  AttemptTimeoutError,
+  CircuitOpenError,
+  isOutage,
+  RetriesExhaustedError,
+} from './resilience.errors';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  attemptTimeoutMs: number;
+}
+
+export interface Attempted<T> {
+  value: T;
+  attempts: number;
+}
+
+/** Breaker key for one symbol on a source, e.g. 'dnse-stock:VCB'. */
+export function breakerKey(source: string, symbol: string): string {
+  return `${source}:${symbol}`;
+}
+
+@Injectable()
+export class ResilienceService {
+  private readonly logger = new Logger(ResilienceService.name);
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly defaults: RetryOptions;
+  private readonly breakerThreshold: number;
+  private readonly breakerResetMs: number;
+
+  constructor(configService: ConfigService) {
+    const num = (key: string, fallback: number) =>
+      Number(configService.get<string>(key) ?? fallback);
+
+    this.defaults = {
+      maxAttempts: num('RETRY_MAX_ATTEMPTS', 3),
+      baseDelayMs: num('RETRY_BASE_DELAY_MS', 2000),
+      maxDelayMs: num('RETRY_MAX_DELAY_MS', 60000),
+      attemptTimeoutMs: num('ATTEMPT_TIMEOUT_MS', 150000),
+    };
+    this.breakerThreshold = num('BREAKER_FAILURE_THRESHOLD', 5);
+    this.breakerResetMs = num('BREAKER_RESET_MS', 10 * 60 * 1000);
+  }
+
+  /**
+   * Runs `task` with retries, exponential backoff with full jitter and a
+   * timeout per attempt, behind the circuit breaker for `key` (usually a
+   * breakerKey). Throws CircuitOpenError without calling `task` while the
+   * breaker is open. The breaker counts whole runs, not attempts, and only
+   * runs that ended in an outage (see isOutage).
+   * Each attempt gets its own signal, aborted when the attempt times out so
+   * the request or page behind it is torn down instead of left running.
+   */
+  async execute<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    options: Partial<RetryOptions> = {},
+  ): Promise<Attempted<T>> {
+    const { maxAttempts, baseDelayMs, maxDelayMs, attemptTimeoutMs } = {
+      ...this.defaults,
+      ...options,
+    };
+    const breaker = this.getBreaker(key);
+
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(key);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const value = await withTimeout(task, key, attemptTimeoutMs);
+        this.recordSuccess(key, breaker);
+        return { value, attempts: attempt };
+      } catch (error) {
+        if (attempt >= maxAttempts) {
+          // Only outages count: a source that answered is up, even if the
+          // answer was unusable
+          if (isOutage(error)) {
+            this.recordFailure(key, breaker);
+          } else {
+            this.recordSuccess(key, breaker);
+          }
+          throw new RetriesExhaustedError(key, attempt, error);
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+        const delayMs = Math.round(Math.random() * ceiling);
+        this.logger.warn(
+          `Attempt ${attempt}/${maxAttempts} for ${key} failed: ${message}. Retrying in ${delayMs}ms`,
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  getBreakerState(key: string): BreakerSnapshot {
+    return this.getBreaker(key).snapshot();
+  }
+
+  private getBreaker(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerThreshold, this.breakerResetMs);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  private recordSuccess(key: string, breaker: CircuitBreaker) {
+    const before = breaker.snapshot().state;
+    breaker.onSuccess();
+    if (before !== 'closed') {
+      this.logger.log(`Circuit for ${key} closed after the source answered`);
+    }
+  }
+
+  private recordFailure(key: string, breaker: CircuitBreaker) {
+    const before = breaker.snapshot().state;
+    breaker.onFailure();
+    const after = breaker.snapshot();
+    if (before !== 'open' && after.state === 'open') {
+      this.logger.error(
+        `Circuit for ${key} opened after ${after.failures} consecutive failed runs, pausing for ${this.breakerResetMs}ms`,
+      );
+    }
+  }
+}
+
+function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  key: string,
+  timeoutMs: number,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AttemptTimeoutError(key, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([task(controller.signal), timeout]).finally(() =>
+    clearTimeout(timer),
+  );
+}
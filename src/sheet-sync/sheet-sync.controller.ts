@@ -0,0 +1,35 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../common/api-key.guard';
+import { SheetSyncService } from './sheet-sync.service';
+import type { SheetSyncResult } from './sheet-sync.interface';
+
+@Controller('sheet-sync')
+export class SheetSyncController {
+  constructor(private readonly sheetSync: SheetSyncService) {}
+
+  @Get()
+  getLastResult(): SheetSyncResult {
+    const result = this.sheetSync.getLastResult();
+    if (!result) {
+      throw new NotFoundException('No sheet sync has run yet');
+    }
+    return result;
+  }
+
+  @Post('run')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  run(): Promise<SheetSyncResult> {
+    if (!this.sheetSync.isEnabled()) {
+      throw new NotFoundException('Sheet sync is not configured');
+    }
+    return this.sheetSync.sync();
+  }
+}
@@ -0,0 +1,29 @@
+import { AssetConfig } from '../assets/asset.interface';
+
+/**
+ * Header names recognised in the Crawler tab (case and spacing ignored)
+ * and the asset field each fills. Columns may be in any order; unknown
+ * columns are left alone, so people can keep notes next to the rows.
+ */
+export const SHEET_ASSET_COLUMNS = {
+  id: 'id',
+  source: 'source',
+  symbol: 'symbol',
+  currency: 'currency',
+  target: 'target', // e.g. Detail!E19 or 'My tab'!E19
+  enabled: 'enabled', // TRUE/FALSE checkbox, yes/no or 1/0; empty means yes
+  schedule: 'schedule',
+  'convert with': 'convertWith',
+  per: 'per',
+  exchange: 'exchange',
+} as const satisfies Record<string, keyof AssetConfig>;
+
+// Written back by the app; added after the last column when missing
+export const SHEET_STATUS_COLUMNS = ['Last updated', 'Status'] as const;
+
+export interface SheetSyncResult {
+  syncedAt: Date;
+  assets: number; // Valid rows applied over the config file
+  added: string[]; // Assets that got a crawl job in this sync
+  errors: Record<string, string>; // By asset id, or by row as 'row 5'
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AssetsModule } from '../assets/assets.module';
+import { SheetsModule } from '../sheets/sheets.module';
+import { TasksModule } from '../tasks/tasks.module';
+import { SheetSyncService } from './sheet-sync.service';
+import { SheetSyncController } from './sheet-sync.controller';
+
+@Module({
+  imports: [AssetsModule, SheetsModule, TasksModule],
+  controllers: [SheetSyncController],
+  providers: [SheetSyncService],
+})
+export class SheetSyncModule {}
@@ -0,0 +1,292 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { AssetConfig, SheetTarget } from '../assets/asset.interface';
+import { resolveSchedule } from '../assets/schedule';
+import { SheetsWriterService, toColumn } from '../sheets/sheets-writer.service';
+import { TasksService } from '../tasks/tasks.service';
+import { toDateKey } from '../common/date-key';
+import {
+  SHEET_ASSET_COLUMNS,
+  SHEET_STATUS_COLUMNS,
+  SheetSyncResult,
+} from './sheet-sync.interface';
+
+const JOB_NAME = 'sheet-sync';
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'on'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+
+interface ParsedRows {
+  overrides: Partial<AssetConfig>[];
+  ids: (string | undefined)[]; // Per data row, undefined for blank rows
+  errors: Record<string, string>;
+}
+
+/**
+ * Reads assets from a tab in the spreadsheet (SHEET_SYNC_TAB, e.g.
+ * "Crawler") and layers them over config/assets.json, then writes each
+ * row's last update and status back next to it. Off unless the tab is set.
+ */
+@Injectable()
+export class SheetSyncService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(SheetSyncService.name);
+  private readonly tab?: string;
+  private readonly spreadsheetId?: string;
+  private readonly schedule: string;
+  private readonly defaults: Partial<AssetConfig>;
+  private running?: Promise<SheetSyncResult>;
+  private lastResult?: SheetSyncResult;
+
+  constructor(
+    configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly sheetsWriter: SheetsWriterService,
+    private readonly tasksService: TasksService,
+  ) {
+    this.tab = configService.get<string>('SHEET_SYNC_TAB') || undefined;
+    // Defaults to SPREADSHEET_ID, the one the prices are written to
+    this.spreadsheetId = configService.get<string>('SHEET_SYNC_SPREADSHEET_ID');
+    this.schedule = resolveSchedule(
+      configService.get<string>('SHEET_SYNC_SCHEDULE') ?? 'EVERY_5_MINUTES',
+    );
+    // Only assets that exist nowhere but the sheet get these
+    this.defaults = {
+      currency: 'VND',
+      schedule:
+        configService.get<string>('SHEET_SYNC_DEFAULT_SCHEDULE') ??
+        'EVERY_10_MINUTES',
+    };
+  }
+
+  // The first read happens before crawl jobs are registered, so sheet
+  // assets are part of the initial crawl
+  async onModuleInit() {
+    if (!this.tab) return;
+    try {
+      const rows = await this.readRows();
+      const parsed = this.parseRows(rows);
+      this.apply(parsed);
+      this.logger.log(
+        `Loaded ${parsed.overrides.length} assets from the ${this.tab} tab`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to read the ${this.tab} tab, using config/assets.json only: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  onApplicationBootstrap() {
+    if (!this.tab) return;
+    const job = CronJob.from({
+      cronTime: this.schedule,
+      onTick: () => void this.sync().catch(() => undefined),
+    });
+    this.schedulerRegistry.addCronJob(JOB_NAME, job);
+    job.start();
+    this.logger.log(`Syncing the ${this.tab} tab at "${this.schedule}"`);
+  }
+
+  isEnabled(): boolean {
+    return this.tab !== undefined;
+  }
+
+  getLastResult(): SheetSyncResult | undefined {
+    return this.lastResult;
+  }
+
+  /** Reads the tab, reconciles crawl jobs and writes statuses back. */
+  sync(): Promise<SheetSyncResult> {
+    if (!this.tab) {
+      return Promise.reject(new Error('Sheet sync is not configured'));
+    }
+    this.running ??= this.run().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  private async run(): Promise<SheetSyncResult> {
+    try {
+      const rows = await this.readRows();
+      const parsed = this.parseRows(rows);
+      this.apply(parsed);
+
+      const added = this.tasksService.reconcile();
+      for (const id of added) {
+        this.logger.log(`Crawling ${id}, added from the ${this.tab} tab`);
+        await this.tasksService.crawlAsset(id);
+      }
+
+      await this.writeStatuses(rows[0] ?? [], parsed);
+      this.lastResult = {
+        syncedAt: new Date(),
+        assets: parsed.overrides.length,
+        added,
+        errors: parsed.errors,
+      };
+      const problems = Object.keys(parsed.errors).length;
+      this.logger.log(
+        `Synced ${parsed.overrides.length} rows from the ${this.tab} tab, ${added.length} added, ${problems} with errors`,
+      );
+      return this.lastResult;
+    } catch (error) {
+      this.logger.error(
+        `Failed to sync the ${this.tab} tab: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  private readRows(): Promise<string[][]> {
+    return this.sheetsWriter.read(this.spreadsheetId, this.tab!, 'A1:Z');
+  }
+
+  private apply(parsed: ParsedRows) {
+    const invalid = this.assetRegistry.applyOverrides(
+      parsed.overrides,
+      this.defaults,
+    );
+    for (const [id, message] of invalid) {
+      parsed.errors[id] = message;
+    }
+  }
+
+  private parseRows([header = [], ...rows]: string[][]): ParsedRows {
+    const columns = header.map((name) =>
+      name.trim().toLowerCase().replace(/\s+/g, ' '),
+    );
+    if (!columns.includes('id')) {
+      throw new Error(`The ${this.tab} tab needs an "id" column in row 1`);
+    }
+
+    const parsed: ParsedRows = { overrides: [], ids: [], errors: {} };
+    rows.forEach((row, index) => {
+      const line = `row ${index + 2}`;
+      const entry: Partial<Record<keyof AssetConfig, unknown>> = {};
+      columns.forEach((column, i) => {
+        const field =
+          SHEET_ASSET_COLUMNS[column as keyof typeof SHEET_ASSET_COLUMNS];
+        const value = row[i]?.trim();
+        if (field && value) entry[field] = value;
+      });
+
+      const id = entry.id as string | undefined;
+      parsed.ids.push(id);
+      if (!id) return;
+      if (parsed.overrides.some((override) => override.id === id)) {
+        parsed.errors[line] = `Duplicate id "${id}"`;
+        parsed.ids[index] = undefined;
+        return;
+      }
+
+      try {
+        if (entry.enabled !== undefined) {
+          entry.enabled = toBoolean(entry.enabled as string);
+        }
+        if (entry.target !== undefined) {
+          entry.target = this.toTarget(entry.target as string);
+        }
+        parsed.overrides.push(entry as Partial<AssetConfig>);
+      } catch (error) {
+        parsed.errors[id] =
+          error instanceof Error ? error.message : String(error);
+      }
+    });
+    return parsed;
+  }
+
+  private toTarget(text: string): SheetTarget {
+    const match = /^(?:'((?:[^']|'')+)'|([^!]+))!\$?([A-Z]+)\$?(\d+)$/i.exec(
+      text,
+    );
+    if (!match) {
+      throw new Error(`Target "${text}" is not like Detail!E19`);
+    }
+    return {
+      spreadsheetId: this.spreadsheetId,
+      sheet: match[1]?.replaceAll("''", "'") ?? match[2],
+      cell: `${match[3].toUpperCase()}${match[4]}`,
+    };
+  }
+
+  private async writeStatuses(header: string[], parsed: ParsedRows) {
+    const columns = header.map((name) => name.trim().toLowerCase());
+    let next = header.length;
+    const [updatedColumn, statusColumn] = SHEET_STATUS_COLUMNS.map((name) => {
+      const at = columns.indexOf(name.toLowerCase());
+      return at >= 0 ? at : next++;
+    });
+
+    const updated: string[][] = [['Last updated']];
+    const statuses: string[][] = [['Status']];
+    parsed.ids.forEach((id) => {
+      const [when, status] = id ? this.describe(id, parsed.errors) : ['', ''];
+      updated.push([when]);
+      statuses.push([status]);
+    });
+
+    const at = (column: number): SheetTarget => ({
+      spreadsheetId: this.spreadsheetId,
+      sheet: this.tab!,
+      cell: `${toColumn(column + 1)}1`,
+    });
+    await Promise.all([
+      this.sheetsWriter.writeRows(at(updatedColumn), updated),
+      this.sheetsWriter.writeRows(at(statusColumn), statuses),
+    ]);
+  }
+
+  private describe(
+    id: string,
+    errors: Record<string, string>,
+  ): [string, string] {
+    if (errors[id]) {
+      return ['', `Error: ${errors[id]}`];
+    }
+    const asset = this.assetRegistry.get(id);
+    if (!asset) {
+      return ['', 'Error: unknown asset'];
+    }
+    if (asset.enabled === false) {
+      return ['', 'Disabled'];
+    }
+
+    const status = this.tasksService.getStatus(asset);
+    const when = status.lastSuccessAt
+      ? formatTimestamp(status.lastSuccessAt)
+      : '';
+    switch (status.lastOutcome) {
+      case undefined:
+        return [when, 'Pending'];
+      case 'success':
+        return [when, 'OK'];
+      default:
+        return [when, `${status.lastOutcome}: ${status.lastError}`];
+    }
+  }
+}
+
+function toBoolean(text: string): boolean {
+  const value = text.toLowerCase();
+  if (TRUE_VALUES.includes(value)) return true;
+  if (FALSE_VALUES.includes(value)) return false;
+  throw new Error(`"enabled" must be TRUE or FALSE, got "${text}"`);
+}
+
+// Local time, which the sheet reads as a date with USER_ENTERED
+function formatTimestamp(date: Date): string {
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+  return `${toDateKey(date)} ${time}`;
+}
@@ -0,0 +1,210 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  SheetsWriterService,
+  toA1Range,
+  toColumn,
+} from './sheets-writer.service';
+import { DryRunService } from '../dry-run/dry-run.service';
+import { sleep } from '../common/sleep';
+
+const batchUpdate = jest.fn();
+
+jest.mock('googleapis', () => ({
+  google: {
+    auth: { GoogleAuth: jest.fn() },
+    sheets: () => ({ spreadsheets: { values: { batchUpdate } } }),
+  },
+}));
+jest.mock('../common/sleep', () => ({
+  sleep: jest.fn(() => Promise.resolve()),
+}));
+
+const SHEET_ID = '1AbcDEFghiJKLmnopQRstuVWxyz0123456789abcdEF';
+
+function createWriter(dryRun = false) {
+  const capture = jest.fn(() => Promise.resolve());
+  const writer = new SheetsWriterService(
+    new ConfigService({
+      SPREADSHEET_ID: SHEET_ID,
+      // Flushed by hand in each test
+      SHEETS_FLUSH_DELAY_MS: '60000',
+      SHEETS_MAX_ATTEMPTS: '3',
+    }),
+    { enabled: dryRun, capture } as unknown as DryRunService,
+  );
+  return { writer, capture };
+}
+
+function quotaError() {
+  return Object.assign(new Error('Quota exceeded'), { code: 429 });
+}
+
+describe('SheetsWriterService', () => {
+  beforeEach(() => {
+    batchUpdate.mockReset().mockResolvedValue({});
+    jest.mocked(sleep).mockClear();
+  });
+
+  it('sends the writes of one tick as a single batch per spreadsheet', async () => {
+    const { writer } = createWriter();
+
+    const writes = Promise.all([
+      writer.write({ sheet: 'Detail', cell: 'E19' }, 64600),
+      writer.write({ sheet: 'Detail', cell: 'C9' }, 26412.35),
+      writer.write(
+        { spreadsheetId: 'other', sheet: 'Gold', cell: 'B2' },
+        14530000,
+      ),
+    ]);
+    await writer.flush();
+    await writes;
+
+    expect(batchUpdate).toHaveBeenCalledTimes(2);
+    expect(batchUpdate).toHaveBeenCalledWith({
+      spreadsheetId: SHEET_ID,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: [
+          { range: "'Detail'!E19", values: [['64600']] },
+          { range: "'Detail'!C9", values: [['26412,35']] },
+        ],
+      },
+    });
+  });
+
+  it('keeps only the latest value for a cell that is still queued', async () => {
+    const { writer } = createWriter();
+
+    const writes = Promise.all([
+      writer.write({ sheet: 'Detail', cell: 'E19' }, 64200),
+      writer.write({ sheet: 'Detail', cell: 'E19' }, 64600),
+    ]);
+    await writer.flush();
+    await writes;
+
+    expect(batchUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestBody: {
+          valueInputOption: 'USER_ENTERED',
+          data: [{ range: "'Detail'!E19", values: [['64600']] }],
+        },
+      }),
+    );
+  });
+
+  it('writes a block of rows from its top-left cell', async () => {
+    const { writer } = createWriter();
+
+    const write = writer.writeRows({ sheet: 'Crawler', cell: 'F2' }, [
+      ['ok', 64600],
+      [null, 1.5],
+    ]);
+    await writer.flush();
+    await write;
+
+    expect(batchUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestBody: {
+          valueInputOption: 'USER_ENTERED',
+          data: [
+            {
+              range: "'Crawler'!F2:G3",
+              values: [
+                ['ok', '64600'],
+                ['', '1,5'],
+              ],
+            },
+          ],
+        },
+      }),
+    );
+  });
+
+  it('retries a batch that hit the quota', async () => {
+    const { writer } = createWriter();
+    batchUpdate.mockRejectedValueOnce(quotaError());
+
+    const write = writer.write({ sheet: 'Detail', cell: 'E19' }, 64600);
+    await writer.flush();
+    await write;
+
+    expect(batchUpdate).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects every write in the batch once the retries run out', async () => {
+    const { writer } = createWriter();
+    batchUpdate.mockRejectedValue(quotaError());
+
+    const writes = [
+      writer.write({ sheet: 'Detail', cell: 'E19' }, 64600),
+      writer.write({ sheet: 'Detail', cell: 'C9' }, 26412),
+    ];
+    await writer.flush();
+
+    for (const write of writes) {
+      await expect(write).rejects.toThrow('Quota exceeded');
+    }
+    expect(batchUpdate).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    const { writer } = createWriter();
+    batchUpdate.mockRejectedValue(
+      Object.assign(new Error('Unable to parse range'), { code: 400 }),
+    );
+
+    const write = writer.write({ sheet: 'Missing', cell: 'A1' }, 1);
+    await writer.flush();
+
+    await expect(write).rejects.toThrow('Unable to parse range');
+    expect(batchUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('captures the batch instead of sending it in a dry run', async () => {
+    const { writer, capture } = createWriter(true);
+
+    const write = writer.write({ sheet: 'Detail', cell: 'E19' }, 64600);
+    await writer.flush();
+    await write;
+
+    expect(batchUpdate).not.toHaveBeenCalled();
+    expect(capture).toHaveBeenCalledWith('sheets', SHEET_ID, [
+      { range: "'Detail'!E19", values: [['64600']] },
+    ]);
+  });
+});
+
+describe('toA1Range', () => {
+  it('quotes the sheet name', () => {
+    expect(toA1Range({ sheet: 'Detail', cell: 'E19' })).toBe("'Detail'!E19");
+    expect(toA1Range({ sheet: "Mom's", cell: 'A1' })).toBe("'Mom''s'!A1");
+  });
+
+  it('extends the cell to a range for blocks', () => {
+    expect(toA1Range({ sheet: 'Crawler', cell: 'B2' }, 3, 2)).toBe(
+      "'Crawler'!B2:C4",
+    );
+    expect(toA1Range({ sheet: 'Crawler', cell: 'Z1' }, 1, 3)).toBe(
+      "'Crawler'!Z1:AB1",
+    );
+  });
+
+  it('refuses to extend a named range', () => {
+    expect(() => toA1Range({ sheet: 'Detail', cell: 'Prices' }, 2, 1)).toThrow(
+      'Cannot extend "Prices" to a range, use a single cell',
+    );
+  });
+});
+
+describe('toColumn', () => {
+  it.each([
+    [1, 'A'],
+    [26, 'Z'],
+    [27, 'AA'],
+    [52, 'AZ'],
+    [703, 'AAA'],
+  ])('turns %i into %s', (index, letters) => {
+    expect(toColumn(index)).toBe(letters);
+  });
+});
@@ -0,0 +1,260 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { google, sheets_v4 } from 'googleapis';
+import { SheetTarget } from '../assets/asset.interface';
+import { sleep } from '../common/sleep';
+import { DryRunService } from '../dry-run/dry-run.service';
+import { formatNumber, NUMBER_LOCALES, NumberLocale } from '../units/vn-number';
+
+interface PendingWrite {
+  spreadsheetId: string;
+  range: string;
+  values: string[][];
+  waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Queues cell writes and flushes them with one values.batchUpdate per
+ * spreadsheet, so cells written by the same cron tick land together.
+ * A later write to a cell that is still queued replaces the earlier value.
+ */
+@Injectable()
+export class SheetsWriterService implements OnModuleDestroy {
+  private readonly logger = new Logger(SheetsWriterService.name);
+  private readonly pending = new Map<string, PendingWrite>();
+  private readonly defaultSpreadsheetId?: string;
+  private readonly flushDelayMs: number;
+  private readonly maxAttempts: number;
+  private readonly locale: NumberLocale;
+  private auth?: InstanceType<typeof google.auth.GoogleAuth>;
+  private client?: sheets_v4.Sheets;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    configService: ConfigService,
+    private readonly dryRun: DryRunService,
+  ) {
+    this.defaultSpreadsheetId = configService.get<string>('SPREADSHEET_ID');
+    this.flushDelayMs = Number(
+      configService.get<string>('SHEETS_FLUSH_DELAY_MS') ?? 2000,
+    );
+    this.maxAttempts = Number(
+      configService.get<string>('SHEETS_MAX_ATTEMPTS') ?? 5,
+    );
+    // Spreadsheet locale decides how USER_ENTERED numbers are read
+    this.locale = configService.get<NumberLocale>('SHEETS_LOCALE') ?? 'vi-VN';
+    if (!NUMBER_LOCALES.includes(this.locale)) {
+      throw new Error(
+        `SHEETS_LOCALE must be one of ${NUMBER_LOCALES.join(', ')}, got "${this.locale}"`,
+      );
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.flush();
+  }
+
+  /** Resolves once the batch containing this cell has been written. */
+  write(target: SheetTarget, value: number): Promise<void> {
+    return this.enqueue(target, [[formatNumber(value, this.locale)]]);
+  }
+
+  /**
+   * Writes a block of cells with its top-left corner at `target.cell`.
+   * Numbers are formatted for the sheet locale, strings are written as-is.
+   */
+  writeRows(
+    target: SheetTarget,
+    rows: (string | number | null)[][],
+  ): Promise<void> {
+    return this.enqueue(
+      target,
+      rows.map((row) =>
+        row.map((cell) =>
+          typeof cell === 'number'
+            ? formatNumber(cell, this.locale)
+            : (cell ?? ''),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Reads a range as the sheet displays it, e.g. `A1:Z` of a tab. Rows are
+   * ragged: trailing empty cells and rows are left out.
+   */
+  async read(
+    spreadsheetId: string | undefined,
+    sheet: string,
+    range: string,
+  ): Promise<string[][]> {
+    const id = spreadsheetId ?? this.defaultSpreadsheetId;
+    if (!id) {
+      throw new Error(
+        `No spreadsheet to read ${sheet}!${range} from, set SPREADSHEET_ID`,
+      );
+    }
+    const { data } = await this.getClient().spreadsheets.values.get({
+      spreadsheetId: id,
+      range: `'${sheet.replaceAll("'", "''")}'!${range}`,
+    });
+    return (data.values ?? []).map((row) => row.map((cell) => String(cell)));
+  }
+
+  private enqueue(target: SheetTarget, values: string[][]): Promise<void> {
+    const spreadsheetId = target.spreadsheetId ?? this.defaultSpreadsheetId;
+    if (!spreadsheetId) {
+      return Promise.reject(
+        new Error(
+          `No spreadsheet for ${target.sheet}!${target.cell}, set SPREADSHEET_ID or target.spreadsheetId`,
+        ),
+      );
+    }
+
+    const range = toA1Range(target, values.length, values[0]?.length ?? 1);
+    return new Promise((resolve, reject) => {
+      const key = `${spreadsheetId}|${range}`;
+      const entry = this.pending.get(key) ?? {
+        spreadsheetId,
+        range,
+        values,
+        waiters: [],
+      };
+      entry.values = values;
+      entry.waiters.push({ resolve, reject });
+      this.pending.set(key, entry);
+
+      this.timer ??= setTimeout(() => void this.flush(), this.flushDelayMs);
+    });
+  }
+
+  async flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.pending.size === 0) return;
+
+    const bySpreadsheet = new Map<string, PendingWrite[]>();
+    for (const write of this.pending.values()) {
+      const writes = bySpreadsheet.get(write.spreadsheetId) ?? [];
+      writes.push(write);
+      bySpreadsheet.set(write.spreadsheetId, writes);
+    }
+    this.pending.clear();
+
+    for (const [spreadsheetId, writes] of bySpreadsheet) {
+      try {
+        await this.batchUpdate(spreadsheetId, writes);
+        this.logger.log(
+          `${this.dryRun.enabled ? 'Captured' : 'Successfully updated'} ${writes.length} ranges: ${writes.map(describe).join(', ')}`,
+        );
+        writes.forEach((w) => w.waiters.forEach(({ resolve }) => resolve()));
+      } catch (error) {
+        this.logger.error(
+          `Sheets batchUpdate Error: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        writes.forEach((w) => w.waiters.forEach(({ reject }) => reject(error)));
+      }
+    }
+  }
+
+  private async batchUpdate(spreadsheetId: string, writes: PendingWrite[]) {
+    if (this.dryRun.enabled) {
+      return this.dryRun.capture(
+        'sheets',
+        spreadsheetId,
+        writes.map(({ range, values }) => ({ range, values })),
+      );
+    }
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.getClient().spreadsheets.values.batchUpdate({
+          spreadsheetId,
+          requestBody: {
+            valueInputOption: 'USER_ENTERED',
+            data: writes.map(({ range, values }) => ({ range, values })),
+          },
+        });
+        return;
+      } catch (error) {
+        if (!isQuotaError(error) || attempt >= this.maxAttempts) {
+          throw error;
+        }
+        const delayMs = 1000 * 2 ** attempt + Math.round(Math.random() * 1000);
+        this.logger.warn(
+          `Sheets quota exceeded (attempt ${attempt}/${this.maxAttempts}), retrying in ${delayMs}ms`,
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Resolves to the service account (or other principal) the writes will
+   * use. Throws when no application-default credentials can be found.
+   */
+  async checkCredentials(): Promise<string> {
+    const { client_email } = await this.getAuth().getCredentials();
+    return client_email ?? 'application default credentials';
+  }
+
+  // Auth picks up application-default credentials once and caches tokens.
+  private getAuth() {
+    this.auth ??= new google.auth.GoogleAuth({
+      scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+    });
+    return this.auth;
+  }
+
+  private getClient(): sheets_v4.Sheets {
+    this.client ??= google.sheets({ version: 'v4', auth: this.getAuth() });
+    return this.client;
+  }
+}
+
+/** 'Sheet'!B2, or 'Sheet'!B2:D5 when more than one cell is written. */
+export function toA1Range(
+  { sheet, cell }: SheetTarget,
+  rows = 1,
+  columns = 1,
+): string {
+  const quoted = `'${sheet.replaceAll("'", "''")}'`;
+  if (rows === 1 && columns === 1) {
+    return `${quoted}!${cell}`;
+  }
+  const match = /^([A-Z]+)(\d+)$/i.exec(cell);
+  if (!match) {
+    throw new Error(`Cannot extend "${cell}" to a range, use a single cell`);
+  }
+  const end = `${toColumn(fromColumn(match[1]) + columns - 1)}${Number(match[2]) + rows - 1}`;
+  return `${quoted}!${cell}:${end}`;
+}
+
+function fromColumn(letters: string): number {
+  return [...letters.toUpperCase()].reduce(
+    (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+    0,
+  );
+}
+
+/** 1 → A, 27 → AA */
+export function toColumn(index: number): string {
+  let letters = '';
+  for (; index > 0; index = Math.floor((index - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((index - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function describe({ range, values }: PendingWrite): string {
+  return values.length === 1 && values[0].length === 1
+    ? `${range}=${values[0][0]}`
+    : `${range} (${values.length} rows)`;
+}
+
+function isQuotaError(error: unknown): boolean {
+  const { status, code } = (error ?? {}) as {
+    status?: number;
+    code?: number | string;
+  };
+  return status === 429 || Number(code) === 429;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DryRunModule } from '../dry-run/dry-run.module';
+import { SheetsWriterService } from './sheets-writer.service';
+
+@Module({
+  imports: [DryRunModule],
+  providers: [SheetsWriterService],
+  exports: [SheetsWriterService],
+})
+export class SheetsModule {}
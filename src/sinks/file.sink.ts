@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { appendFile, mkdir, stat } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { FileSinkTarget } from '../assets/asset.interface';
+import { PricePoint, PriceSink } from './price-sink.interface';
+
+const CSV_HEADER =
+  'recorded_at,asset,value,currency,source,symbol,price,quote_currency,raw\n';
+
+@Injectable()
+export class FileSink implements PriceSink<FileSinkTarget> {
+  readonly type = 'file';
+
+  async write(point: PricePoint, target: FileSinkTarget): Promise<void> {
+    const path = resolve(target.path);
+    await mkdir(dirname(path), { recursive: true });
+
+    if (target.format === 'csv') {
+      const exists = await stat(path).then(
+        () => true,
+        () => false,
+      );
+      await appendFile(path, (exists ? '' : CSV_HEADER) + toCsvRow(point));
+      return;
+    }
+
+    await appendFile(path, JSON.stringify(toRecord(point)) + '\n');
+  }
+}
+
+function toRecord({ asset, quote, value, recordedAt }: PricePoint) {
+  return {
+    recordedAt: recordedAt.toISOString(),
+    asset: asset.id,
+    value,
+    currency: asset.currency,
+    source: quote.source,
+    symbol: quote.symbol,
+    price: quote.price,
+    quoteCurrency: quote.currency,
+    raw: quote.raw ?? null,
+  };
+}
+
+function toCsvRow(point: PricePoint): string {
+  return (
+    Object.values(toRecord(point))
+      .map((field) => {
+        const text = field === null ? '' : String(field);
+        return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+      })
+      .join(',') + '\n'
+  );
+}
@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { GoogleSheetsSinkTarget } from '../assets/asset.interface';
+import { SheetsWriterService } from '../sheets/sheets-writer.service';
+import { PricePoint, PriceSink } from './price-sink.interface';
+
+@Injectable()
+export class GoogleSheetsSink implements PriceSink<GoogleSheetsSinkTarget> {
+  readonly type = 'google-sheets';
+
+  constructor(private readonly sheetsWriter: SheetsWriterService) {}
+
+  write(point: PricePoint, target: GoogleSheetsSinkTarget): Promise<void> {
+    return this.sheetsWriter.write(target, point.value);
+  }
+}
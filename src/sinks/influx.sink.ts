@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { InfluxSinkTarget } from '../assets/asset.interface';
+import { PricePoint, PriceSink } from './price-sink.interface';
+
+@Injectable()
+export class InfluxSink implements PriceSink<InfluxSinkTarget> {
+  readonly type = 'influxdb';
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async write(point: PricePoint, target: InfluxSinkTarget): Promise<void> {
+    const token =
+      target.token ?? this.configService.get<string>('INFLUX_TOKEN');
+    const url = new URL('/api/v2/write', target.url);
+    url.search = new URLSearchParams({
+      org: target.org,
+      bucket: target.bucket,
+      precision: 'ms',
+    }).toString();
+
+    await firstValueFrom(
+      this.httpService.post(url.toString(), toLineProtocol(point, target), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          ...(token ? { Authorization: `Token ${token}` } : {}),
+        },
+      }),
+    );
+  }
+}
+
+// e.g. asset_price,asset=VCB,source=dnse-stock,currency=VND value=61000,price=61 1760000000000
+export function toLineProtocol(
+  { asset, quote, value, recordedAt }: PricePoint,
+  target: Pick<InfluxSinkTarget, 'measurement'>,
+): string {
+  const tags = [
+    ['asset', asset.id],
+    ['source', quote.source],
+    ['currency', asset.currency],
+  ]
+    .map(([key, tag]) => `${key}=${escapeTag(tag)}`)
+    .join(',');
+  const fields = `value=${value},price=${quote.price}`;
+  const measurement = escapeTag(target.measurement ?? 'asset_price');
+  return `${measurement},${tags} ${fields} ${recordedAt.getTime()}`;
+}
+
+function escapeTag(text: string): string {
+  return text.replace(/[,= ]/g, (char) => `\\${char}`);
+}
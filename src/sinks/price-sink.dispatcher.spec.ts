@@ -0,0 +1,161 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PriceSinkDispatcher } from './price-sink.dispatcher';
+import { PricePoint, PriceSink } from './price-sink.interface';
+import { FileSink } from './file.sink';
+import { toLineProtocol } from './influx.sink';
+import { AssetConfig, SinkTarget } from '../assets/asset.interface';
+import { DryRunService } from '../dry-run/dry-run.service';
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  sinks: [],
+};
+
+function point(sinks: SinkTarget[]): PricePoint {
+  return {
+    asset: { ...VCB, sinks },
+    quote: {
+      symbol: 'VCB',
+      price: 64600,
+      currency: 'VND',
+      timestamp: new Date('2025-10-22T08:00:00Z'),
+      source: 'dnse-stock',
+      raw: '64.6',
+    },
+    value: 64600,
+    recordedAt: new Date('2025-10-22T09:00:00Z'),
+  };
+}
+
+function fakeSink(type: PriceSink['type'], write: PriceSink['write']) {
+  return { type, write: jest.fn(write) };
+}
+
+function createDispatcher(sinks: PriceSink[], dryRun = false) {
+  const capture = jest.fn(() => Promise.resolve());
+  const dispatcher = new PriceSinkDispatcher(sinks, {
+    enabled: dryRun,
+    capture,
+  } as unknown as DryRunService);
+  return { dispatcher, capture };
+}
+
+const WEBHOOK: SinkTarget = {
+  type: 'webhook',
+  url: 'https://hooks.example/prices',
+};
+const SHEET: SinkTarget = {
+  type: 'google-sheets',
+  sheet: 'Detail',
+  cell: 'E19',
+};
+
+describe('PriceSinkDispatcher', () => {
+  it('writes the price to every configured sink', async () => {
+    const sheets = fakeSink('google-sheets', () => Promise.resolve());
+    const webhook = fakeSink('webhook', () => Promise.resolve());
+    const { dispatcher } = createDispatcher([sheets, webhook]);
+    const published = point([SHEET, WEBHOOK]);
+
+    await dispatcher.publish(published);
+
+    expect(sheets.write).toHaveBeenCalledWith(published, SHEET);
+    expect(webhook.write).toHaveBeenCalledWith(published, WEBHOOK);
+  });
+
+  it('keeps writing after one sink fails, then reports the failures', async () => {
+    const sheets = fakeSink('google-sheets', () => Promise.resolve());
+    const webhook = fakeSink('webhook', () =>
+      Promise.reject(new Error('Request failed with status code 502')),
+    );
+    const { dispatcher } = createDispatcher([sheets, webhook]);
+
+    await expect(dispatcher.publish(point([WEBHOOK, SHEET]))).rejects.toThrow(
+      '1/2 sinks failed: webhook https://hooks.example/prices: Request failed with status code 502',
+    );
+    expect(sheets.write).toHaveBeenCalled();
+  });
+
+  it('fails a target whose sink type is not registered', async () => {
+    const { dispatcher } = createDispatcher([]);
+
+    await expect(dispatcher.publish(point([WEBHOOK]))).rejects.toThrow(
+      'No price sink registered for "webhook"',
+    );
+  });
+
+  it('captures outbound sinks in a dry run and still writes the sheet', async () => {
+    const sheets = fakeSink('google-sheets', () => Promise.resolve());
+    const webhook = fakeSink('webhook', () => Promise.resolve());
+    const { dispatcher, capture } = createDispatcher([sheets, webhook], true);
+
+    await dispatcher.publish(point([SHEET, WEBHOOK]));
+
+    expect(webhook.write).not.toHaveBeenCalled();
+    expect(sheets.write).toHaveBeenCalled();
+    expect(capture).toHaveBeenCalledWith(
+      'sink',
+      'webhook https://hooks.example/prices',
+      {
+        asset: 'VCB',
+        value: 64600,
+        currency: 'VND',
+        recordedAt: '2025-10-22T09:00:00.000Z',
+      },
+    );
+  });
+});
+
+describe('FileSink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'file-sink-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('appends CSV rows under a single header', async () => {
+    const path = join(dir, 'nested', 'prices.csv');
+    const sink = new FileSink();
+
+    await sink.write(point([]), { type: 'file', path, format: 'csv' });
+    await sink.write(point([]), { type: 'file', path, format: 'csv' });
+
+    expect(readFileSync(path, 'utf8').split('\n')).toEqual([
+      'recorded_at,asset,value,currency,source,symbol,price,quote_currency,raw',
+      '2025-10-22T09:00:00.000Z,VCB,64600,VND,dnse-stock,VCB,64600,VND,64.6',
+      '2025-10-22T09:00:00.000Z,VCB,64600,VND,dnse-stock,VCB,64600,VND,64.6',
+      '',
+    ]);
+  });
+
+  it('appends JSON lines by default', async () => {
+    const path = join(dir, 'prices.jsonl');
+
+    await new FileSink().write(point([]), { type: 'file', path });
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({
+      asset: 'VCB',
+      value: 64600,
+      raw: '64.6',
+    });
+  });
+});
+
+describe('toLineProtocol', () => {
+  it('escapes tags and stamps the point in milliseconds', () => {
+    const published = point([]);
+    published.asset = { ...published.asset, id: 'DOJI RING,9999' };
+
+    expect(toLineProtocol(published, { measurement: 'gold price' })).toBe(
+      'gold\\ price,asset=DOJI\\ RING\\,9999,source=dnse-stock,currency=VND value=64600,price=64600 1761123600000',
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SinkTarget, SinkType } from '../assets/asset.interface';
+import { DryRunService } from '../dry-run/dry-run.service';
+import { PRICE_SINKS, PricePoint, PriceSink } from './price-sink.interface';
+
+/** Fans a price out to every sink configured for its asset. */
+@Injectable()
+export class PriceSinkDispatcher {
+  private readonly logger = new Logger(PriceSinkDispatcher.name);
+  private readonly sinks = new Map<SinkType, PriceSink>();
+
+  constructor(
+    @Inject(PRICE_SINKS) sinks: PriceSink[],
+    private readonly dryRun: DryRunService,
+  ) {
+    for (const sink of sinks) {
+      this.sinks.set(sink.type, sink);
+    }
+  }
+
+  /**
+   * Writes to all sinks even when some fail, then throws once listing the
+   * failures so the crawl is reported as failed.
+   */
+  async publish(point: PricePoint): Promise<void> {
+    const targets = point.asset.sinks;
+    const results = await Promise.allSettled(
+      targets.map((target) => this.write(point, target)),
+    );
+
+    const failures = results.flatMap((result, i) =>
+      result.status === 'rejected'
+        ? [`${describe(targets[i])}: ${errorMessage(result.reason)}`]
+        : [],
+    );
+    for (const failure of failures) {
+      this.logger.error(`Failed to write ${point.asset.id} to ${failure}`);
+    }
+    if (failures.length > 0) {
+      throw new Error(
+        `${failures.length}/${targets.length} sinks failed: ${failures.join('; ')}`,
+      );
+    }
+  }
+
+  private write(point: PricePoint, target: SinkTarget): Promise<void> {
+    const sink = this.sinks.get(target.type);
+    if (!sink) {
+      return Promise.reject(
+        new Error(`No price sink registered for "${target.type}"`),
+      );
+    }
+    // Sheet writes are captured by the writer; files stay local
+    if (
+      this.dryRun.enabled &&
+      (target.type === 'webhook' || target.type === 'influxdb')
+    ) {
+      return this.dryRun.capture('sink', describe(target), {
+        asset: point.asset.id,
+        value: point.value,
+        currency: point.asset.currency,
+        recordedAt: point.recordedAt.toISOString(),
+      });
+    }
+    return sink.write(point, target);
+  }
+}
+
+function describe(target: SinkTarget): string {
+  switch (target.type) {
+    case 'google-sheets':
+      return `${target.type} ${target.sheet}!${target.cell}`;
+    case 'file':
+      return `${target.type} ${target.path}`;
+    case 'webhook':
+    case 'influxdb':
+      return `${target.type} ${target.url}`;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
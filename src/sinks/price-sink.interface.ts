@@ -0,0 +1,18 @@
+import { AssetConfig, SinkTarget, SinkType } from '../assets/asset.interface';
+import { Quote } from '../sources/price-source.interface';
+
+export interface PricePoint {
+  asset: AssetConfig;
+  quote: Quote;
+  value: number; // In asset.currency, after conversion
+  recordedAt: Date;
+}
+
+export interface PriceSink<T extends SinkTarget = SinkTarget> {
+  readonly type: SinkType;
+
+  /** Throws when the destination did not accept the value. */
+  write(point: PricePoint, target: T): Promise<void>;
+}
+
+export const PRICE_SINKS = Symbol('PRICE_SINKS');
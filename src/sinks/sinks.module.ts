@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { timedHttpModule } from '../common/timed-http';
+import { SheetsModule } from '../sheets/sheets.module';
+import { DryRunModule } from '../dry-run/dry-run.module';
+import { PRICE_SINKS, PriceSink } from './price-sink.interface';
+import { PriceSinkDispatcher } from './price-sink.dispatcher';
+import { GoogleSheetsSink } from './google-sheets.sink';
+import { FileSink } from './file.sink';
+import { WebhookSink } from './webhook.sink';
+import { InfluxSink } from './influx.sink';
+
+// New sinks only need to be added here and to SINK_TYPES.
+const SINKS = [GoogleSheetsSink, FileSink, WebhookSink, InfluxSink];
+
+@Module({
+  imports: [timedHttpModule(), SheetsModule, DryRunModule],
+  providers: [
+    ...SINKS,
+    {
+      provide: PRICE_SINKS,
+      useFactory: (...sinks: PriceSink[]) => sinks,
+      inject: SINKS,
+    },
+    PriceSinkDispatcher,
+  ],
+  exports: [PriceSinkDispatcher],
+})
+export class SinksModule {}
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { WebhookSinkTarget } from '../assets/asset.interface';
+import { PricePoint, PriceSink } from './price-sink.interface';
+
+@Injectable()
+export class WebhookSink implements PriceSink<WebhookSinkTarget> {
+  readonly type = 'webhook';
+
+  constructor(private readonly httpService: HttpService) {}
+
+  async write(
+    { asset, quote, value, recordedAt }: PricePoint,
+    target: WebhookSinkTarget,
+  ): Promise<void> {
+    await firstValueFrom(
+      this.httpService.post(
+        target.url,
+        {
+          asset: asset.id,
+          name: asset.name,
+          value,
+          currency: asset.currency,
+          recordedAt: recordedAt.toISOString(),
+          quote: {
+            source: quote.source,
+            symbol: quote.symbol,
+            price: quote.price,
+            currency: quote.currency,
+            timestamp: quote.timestamp.toISOString(),
+          },
+        },
+        { headers: target.headers },
+      ),
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { of } from 'rxjs';
+import { RecipeEngineService } from '../recipes/recipe-engine.service';
+import { BrowserPoolService } from '../../browser/browser-pool.service';
+import { DriftService } from '../../drift/drift.service';
+
+export function readFixture(name: string): string {
+  return readFileSync(join(__dirname, name), 'utf8');
+}
+
+/**
+ * A recipe engine loaded with the real config/recipes.json whose browser
+ * pool and HTTP client both serve `html`, so specs exercise the recipes
+ * exactly as they ship. `config` adds environment variables.
+ */
+export function createRecipeEngine(
+  html: string,
+  config: Record<string, string> = {},
+) {
+  const page = {
+    goto: jest.fn(() => Promise.resolve(null)),
+    waitForSelector: jest.fn(() => Promise.resolve(null)),
+    waitForFunction: jest.fn(() => Promise.resolve(null)),
+    content: jest.fn(() => Promise.resolve(html)),
+  };
+  const browserPool = {
+    withPage: jest.fn((task: (p: typeof page) => Promise<unknown>) =>
+      task(page),
+    ),
+  };
+  const httpService = { get: jest.fn(() => of({ data: html })) };
+  const drift = { observe: jest.fn(() => Promise.resolve()) };
+
+  const engine = new RecipeEngineService(
+    new ConfigService({
+      RECIPES_CONFIG_PATH: join(__dirname, '../../../config/recipes.json'),
+      ...config,
+    }),
+    httpService as unknown as HttpService,
+    browserPool as unknown as BrowserPoolService,
+    drift as unknown as DriftService,
+  );
+  engine.onModuleInit();
+  return { engine, page, drift };
+}
@@ -0,0 +1,50 @@
+import { BinancePricePageSource } from './binance-price-page.source';
+import { createRecipeEngine, readFixture } from './__fixtures__/recipe-engine';
+
+describe('BinancePricePageSource', () => {
+  it('reads the conversion line of the price page', async () => {
+    const { engine, page } = createRecipeEngine(
+      readFixture('binance-price-tether-vnd.html'),
+    );
+
+    const quote = await new BinancePricePageSource(engine).fetchQuote('tether');
+
+    expect(quote).toMatchObject({
+      symbol: 'tether',
+      price: 26412.35,
+      currency: 'VND',
+      source: 'binance-price-page',
+      raw: '26,412.35',
+    });
+    expect(page.goto).toHaveBeenCalledWith(
+      'https://www.binance.com/vi/price/tether/VND',
+      expect.anything(),
+    );
+  });
+
+  it('loads the page from BINANCE_WEB_BASE_URL when set', async () => {
+    const { engine, page } = createRecipeEngine(
+      readFixture('binance-price-tether-vnd.html'),
+      { BINANCE_WEB_BASE_URL: 'http://localhost:4010' },
+    );
+
+    await new BinancePricePageSource(engine).fetchQuote('tether');
+
+    expect(page.goto).toHaveBeenCalledWith(
+      'http://localhost:4010/vi/price/tether/VND',
+      expect.anything(),
+    );
+  });
+
+  it('throws when the page has no conversion line', async () => {
+    const { engine } = createRecipeEngine(
+      readFixture('binance-price-tether-blocked.html'),
+    );
+
+    await expect(
+      new BinancePricePageSource(engine).fetchQuote('tether'),
+    ).rejects.toThrow(
+      'Recipe "binance-price-page" matched no element for "tether"',
+    );
+  });
+});
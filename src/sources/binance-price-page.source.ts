@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { PriceSource, Quote } from './price-source.interface';
+import { RecipeEngineService } from './recipes/recipe-engine.service';
+
+/** Selectors live in the "binance-price-page" recipe in config/recipes.json. */
+@Injectable()
+export class BinancePricePageSource implements PriceSource {
+  readonly type = 'binance-price-page';
+
+  constructor(private readonly recipes: RecipeEngineService) {}
+
+  /** `coin` is the slug in the page URL, e.g. 'tether'. */
+  async fetchQuote(
+    coin: string,
+    currency = 'VND',
+    signal?: AbortSignal,
+  ): Promise<Quote> {
+    const { value, per, raw } = await this.recipes.run(
+      this.type,
+      { symbol: coin, currency },
+      signal,
+    );
+    return {
+      symbol: coin,
+      price: value,
+      per,
+      currency,
+      timestamp: new Date(),
+      source: this.type,
+      raw,
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { of } from 'rxjs';
+import { BinanceTickerSource } from './binance-ticker.source';
+import { BinanceStreamService } from '../streaming/binance-stream.service';
+import { StreamTick } from '../streaming/binance-stream.interface';
+
+function fixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(join(__dirname, '__fixtures__', name), 'utf8'),
+  ) as unknown;
+}
+
+function createSource(
+  data: unknown,
+  {
+    config = {},
+    tick,
+  }: { config?: Record<string, string>; tick?: StreamTick } = {},
+) {
+  const get = jest.fn(() => of({ data }));
+  const source = new BinanceTickerSource(
+    { get } as unknown as HttpService,
+    { getFresh: () => tick } as unknown as BinanceStreamService,
+    new ConfigService(config),
+  );
+  return { source, get };
+}
+
+describe('BinanceTickerSource', () => {
+  it('parses the REST ticker price and its quote asset', async () => {
+    const { source, get } = createSource(
+      fixture('binance-ticker-btcusdt.json'),
+    );
+
+    const quote = await source.fetchQuote('BTCUSDT');
+
+    expect(quote).toMatchObject({
+      symbol: 'BTCUSDT',
+      price: 107234.56,
+      currency: 'USDT',
+      source: 'binance-ticker',
+      raw: '107234.56000000',
+    });
+    expect(get).toHaveBeenCalledWith(
+      'https://api.binance.com/api/v3/ticker/price?symbol=BTCUSDT',
+      { signal: undefined },
+    );
+  });
+
+  it('uses BINANCE_BASE_URL when set', async () => {
+    const { source, get } = createSource(
+      fixture('binance-ticker-btcusdt.json'),
+      { config: { BINANCE_BASE_URL: 'http://localhost:4010' } },
+    );
+
+    await source.fetchQuote('BTCUSDT');
+
+    expect(get).toHaveBeenCalledWith(
+      'http://localhost:4010/api/v3/ticker/price?symbol=BTCUSDT',
+      { signal: undefined },
+    );
+  });
+
+  it('passes the abort signal to the request', async () => {
+    const { source, get } = createSource(
+      fixture('binance-ticker-btcusdt.json'),
+    );
+    const { signal } = new AbortController();
+
+    await source.fetchQuote('BTCUSDT', undefined, signal);
+
+    expect(get).toHaveBeenCalledWith(expect.any(String), { signal });
+  });
+
+  it('throws on an error payload instead of returning NaN', async () => {
+    const { source } = createSource(
+      fixture('binance-ticker-invalid-symbol.json'),
+    );
+
+    await expect(source.fetchQuote('BTCUSDX')).rejects.toThrow(
+      'Binance BTCUSDX response has no price: {"code":-1121,"msg":"Invalid symbol."}',
+    );
+  });
+
+  it('serves a fresh stream tick without calling REST', async () => {
+    const eventTime = new Date('2025-10-22T03:00:00Z');
+    const { source, get } = createSource(undefined, {
+      tick: {
+        symbol: 'BTCUSDT',
+        price: 107300.1,
+        raw: '107300.10',
+        eventTime,
+        receivedAt: eventTime,
+      },
+    });
+
+    const quote = await source.fetchQuote('BTCUSDT');
+
+    expect(quote).toMatchObject({ price: 107300.1, timestamp: eventTime });
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('maps klines to daily candles', async () => {
+    const { source, get } = createSource(
+      fixture('binance-klines-paxgusdt.json'),
+    );
+    const from = new Date(1760918400000);
+    const to = new Date(1761091200000);
+
+    const page = await source.fetchCandles('PAXGUSDT', from, to);
+
+    expect(page.currency).toBe('USDT');
+    expect(page.candles).toEqual([
+      {
+        time: new Date(1760918400000),
+        open: 4210.12,
+        high: 4260,
+        low: 4198.55,
+        close: 4251.3,
+        volume: 812.4471,
+      },
+      {
+        time: new Date(1761004800000),
+        open: 4251.31,
+        high: 4282.9,
+        low: 4230.02,
+        close: 4275.88,
+        volume: 644.913,
+      },
+    ]);
+    expect(get).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `symbol=PAXGUSDT&interval=1d&startTime=${from.getTime()}&endTime=${to.getTime() - 1}`,
+      ),
+      { signal: undefined },
+    );
+  });
+
+  it('throws when klines come back as an error object', async () => {
+    const { source } = createSource(
+      fixture('binance-ticker-invalid-symbol.json'),
+    );
+
+    await expect(
+      source.fetchCandles('PAXGUSDX', new Date(0), new Date(1)),
+    ).rejects.toThrow('Binance PAXGUSDX klines response is empty');
+  });
+});
@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import {
+  Candle,
+  CandlePage,
+  PriceSource,
+  Quote,
+} from './price-source.interface';
+import { BinanceStreamService } from '../streaming/binance-stream.service';
+
+export interface BinanceResponse {
+  symbol: string;
+  price: string;
+}
+
+// [openTime, open, high, low, close, volume, closeTime, ...]
+export type BinanceKline = [
+  number,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+];
+
+// Checked in order, so longer suffixes must come before their substrings.
+const QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'BTC', 'ETH', 'BNB'];
+
+const DEFAULT_BINANCE_BASE_URL = 'https://api.binance.com';
+
+@Injectable()
+export class BinanceTickerSource implements PriceSource {
+  readonly type = 'binance-ticker';
+  readonly historyPageDays = 1000; // klines limit
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly binanceStream: BinanceStreamService,
+    configService: ConfigService,
+  ) {
+    this.baseUrl =
+      configService.get<string>('BINANCE_BASE_URL') ?? DEFAULT_BINANCE_BASE_URL;
+  }
+
+  // Served from the WebSocket cache while streaming is up, REST otherwise
+  async fetchQuote(
+    symbol: string,
+    _currency?: string,
+    signal?: AbortSignal,
+  ): Promise<Quote> {
+    const tick = this.binanceStream.getFresh(symbol);
+    if (tick) {
+      return {
+        symbol,
+        price: tick.price,
+        currency: quoteAssetOf(symbol),
+        timestamp: tick.eventTime,
+        source: this.type,
+        raw: tick.raw,
+      };
+    }
+
+    const apiUrl = `${this.baseUrl}/api/v3/ticker/price?symbol=${symbol}`;
+
+    const response = await firstValueFrom(
+      this.httpService.get<BinanceResponse>(apiUrl, { signal }),
+    );
+    if (!response?.data) {
+      throw new Error(`Binance ${symbol} response data is empty`);
+    }
+    const price = Number(response.data.price);
+    if (!response.data.price || !Number.isFinite(price)) {
+      throw new Error(
+        `Binance ${symbol} response has no price: ${JSON.stringify(response.data).slice(0, 120)}`,
+      );
+    }
+
+    return {
+      symbol,
+      price,
+      currency: quoteAssetOf(symbol),
+      timestamp: new Date(),
+      source: this.type,
+      raw: response.data.price,
+    };
+  }
+
+  async fetchCandles(
+    symbol: string,
+    from: Date,
+    to: Date,
+    signal?: AbortSignal,
+  ): Promise<CandlePage> {
+    const apiUrl = `${this.baseUrl}/api/v3/klines?symbol=${symbol}&interval=1d&startTime=${from.getTime()}&endTime=${to.getTime() - 1}&limit=${this.historyPageDays}`;
+
+    const response = await firstValueFrom(
+      this.httpService.get<BinanceKline[]>(apiUrl, { signal }),
+    );
+    if (!Array.isArray(response?.data)) {
+      throw new Error(`Binance ${symbol} klines response is empty`);
+    }
+
+    const candles: Candle[] = response.data.map(
+      ([time, open, high, low, close, volume]) => ({
+        time: new Date(time),
+        open: Number(open),
+        high: Number(high),
+        low: Number(low),
+        close: Number(close),
+        volume: Number(volume),
+      }),
+    );
+    return { currency: quoteAssetOf(symbol), candles };
+  }
+}
+
+function quoteAssetOf(symbol: string): string {
+  return QUOTE_ASSETS.find((quote) => symbol.endsWith(quote)) ?? 'USDT';
+}
@@ -0,0 +1,119 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { of } from 'rxjs';
+import { DnseSource } from './dnse.source';
+
+function fixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(join(__dirname, '__fixtures__', name), 'utf8'),
+  ) as unknown;
+}
+
+function createSource(data: unknown, config: Record<string, string> = {}) {
+  const get = jest.fn(() => of({ data }));
+  const source = new DnseSource(
+    { get } as unknown as HttpService,
+    new ConfigService(config),
+  );
+  return { source, get };
+}
+
+describe('DnseSource', () => {
+  it('returns the last close in VND with its bar time and all candles', async () => {
+    const { source } = createSource(fixture('dnse-ohlcs-vcb.json'));
+
+    const quote = await source.fetchQuote('VCB');
+
+    expect(quote).toMatchObject({
+      symbol: 'VCB',
+      price: 64600,
+      currency: 'VND',
+      source: 'dnse-stock',
+      raw: '64.6',
+      timestamp: new Date(1761091200 * 1000),
+    });
+    expect(quote.candles).toHaveLength(3);
+    expect(quote.candles![0]).toEqual({
+      time: new Date(1760918400 * 1000),
+      open: 63400,
+      high: 64100,
+      low: 63100,
+      close: 63900,
+      volume: 2154300,
+    });
+  });
+
+  it('keeps prices that are already in VND', async () => {
+    const { source } = createSource(fixture('dnse-ohlcs-vcb-vnd.json'));
+
+    const quote = await source.fetchQuote('VCB');
+
+    expect(quote).toMatchObject({ price: 64600, raw: '64600' });
+    expect(quote.candles![0]).toMatchObject({
+      open: 63400,
+      high: 64100,
+      low: 63100,
+      close: 63900,
+    });
+  });
+
+  it('requests the chart API under DNSE_BASE_URL', async () => {
+    const { source, get } = createSource(fixture('dnse-ohlcs-vcb.json'), {
+      DNSE_BASE_URL: 'http://localhost:4010',
+    });
+
+    await source.fetchQuote('VCB');
+
+    expect(get).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^http:\/\/localhost:4010\/chart-api\/v2\/ohlcs\/stock\?resolution=1D&symbol=VCB&from=\d+&to=\d+$/,
+      ),
+      { signal: undefined },
+    );
+  });
+
+  it('throws when the symbol has no bars', async () => {
+    const { source } = createSource(fixture('dnse-ohlcs-no-data.json'));
+
+    await expect(source.fetchQuote('XYZ')).rejects.toThrow(
+      'DNSE XYZ has no close prices',
+    );
+  });
+
+  it('throws when the last close is not a number', async () => {
+    const { source } = createSource(fixture('dnse-ohlcs-malformed.json'));
+
+    await expect(source.fetchQuote('VCB')).rejects.toThrow(
+      'DNSE VCB close price null is not a number',
+    );
+  });
+
+  it('throws on an empty response body', async () => {
+    const { source } = createSource('');
+
+    await expect(source.fetchQuote('VCB')).rejects.toThrow(
+      'DNSE VCB response data is empty',
+    );
+  });
+
+  it('pages candles for the backfill with an exclusive end', async () => {
+    const { source, get } = createSource(fixture('dnse-ohlcs-vcb.json'));
+    const from = new Date('2025-10-20T00:00:00Z');
+    const to = new Date('2025-10-23T00:00:00Z');
+
+    const page = await source.fetchCandles('VCB', from, to);
+
+    expect(page.currency).toBe('VND');
+    expect(page.candles.map((candle) => candle.close)).toEqual([
+      63900, 64200, 64600,
+    ]);
+    expect(get).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `&from=${from.getTime() / 1000}&to=${to.getTime() / 1000 - 1}`,
+      ),
+      { signal: undefined },
+    );
+  });
+});
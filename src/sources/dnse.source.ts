@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { toCanonical } from '../units/price-unit';
+import {
+  Candle,
+  CandlePage,
+  PriceSource,
+  Quote,
+} from './price-source.interface';
+
+export interface DnseResponse {
+  s: string; // Status
+  c: number[]; // Close prices
+  h: number[]; // High prices
+  l: number[]; // Low prices
+  o: number[]; // Open prices
+  t: number[]; // Timestamps
+  v: number[]; // Volume
+}
+
+// Long enough to span the Tết closure; the latest bar is checked against
+// the trading calendar by the crawler
+const LOOKBACK_SECONDS = 20 * 24 * 60 * 60;
+
+// The chart API prices stocks in nghìn đồng: 57.5 means 57,500 VND. Some
+// responses already carry đồng, and no listed stock trades under 1,000 VND,
+// so anything from 1,000 up is taken as it is
+const PRICE_UNIT = 'nghìn đồng';
+const MIN_VND_PRICE = 1000;
+
+const DEFAULT_DNSE_BASE_URL = 'https://services.entrade.com.vn';
+
+@Injectable()
+export class DnseSource implements PriceSource {
+  readonly type = 'dnse-stock';
+  readonly historyPageDays = 365;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.baseUrl =
+      configService.get<string>('DNSE_BASE_URL') ?? DEFAULT_DNSE_BASE_URL;
+  }
+
+  async fetchQuote(
+    symbol: string,
+    _currency?: string,
+    signal?: AbortSignal,
+  ): Promise<Quote> {
+    // 1. Generate UNIX timestamps for the lookback window to today
+    const toTime = Math.floor(Date.now() / 1000);
+    const fromTime = toTime - LOOKBACK_SECONDS;
+
+    // 2. Using the DNSE (Entrade) public chart API
+    const data = await this.fetchOhlcs(symbol, fromTime, toTime, signal);
+    if (!data.c || data.c.length === 0) {
+      throw new Error(`DNSE ${symbol} has no close prices`);
+    }
+
+    const { c: closePrices, t: timestamps } = data;
+    const last = closePrices.length - 1;
+
+    // Grab the very last closing price in the array (the most current one)
+    const rawStockPrice = closePrices[last];
+    if (!Number.isFinite(rawStockPrice)) {
+      throw new Error(
+        `DNSE ${symbol} close price ${String(rawStockPrice)} is not a number`,
+      );
+    }
+
+    return {
+      symbol,
+      price: toVnd(rawStockPrice),
+      currency: 'VND',
+      timestamp: timestamps?.[last]
+        ? new Date(timestamps[last] * 1000)
+        : new Date(),
+      source: this.type,
+      raw: String(rawStockPrice),
+      candles: this.toCandles(data),
+    };
+  }
+
+  async fetchCandles(
+    symbol: string,
+    from: Date,
+    to: Date,
+    signal?: AbortSignal,
+  ): Promise<CandlePage> {
+    const data = await this.fetchOhlcs(
+      symbol,
+      Math.floor(from.getTime() / 1000),
+      Math.floor(to.getTime() / 1000) - 1,
+      signal,
+    );
+    return { currency: 'VND', candles: this.toCandles(data) };
+  }
+
+  private async fetchOhlcs(
+    symbol: string,
+    fromTime: number,
+    toTime: number,
+    signal?: AbortSignal,
+  ): Promise<DnseResponse> {
+    const apiUrl = `${this.baseUrl}/chart-api/v2/ohlcs/stock?resolution=1D&symbol=${symbol}&from=${fromTime}&to=${toTime}`;
+
+    const response = await firstValueFrom(
+      this.httpService.get<DnseResponse>(apiUrl, { signal }),
+    );
+    if (!response?.data) {
+      throw new Error(`DNSE ${symbol} response data is empty`);
+    }
+    return response.data;
+  }
+
+  private toCandles(data: DnseResponse): Candle[] {
+    return (data.t ?? []).map((time, i) => ({
+      time: new Date(time * 1000),
+      open: toVnd(data.o[i]),
+      high: toVnd(data.h[i]),
+      low: toVnd(data.l[i]),
+      close: toVnd(data.c[i]),
+      volume: data.v?.[i],
+    }));
+  }
+}
+
+function toVnd(price: number): number {
+  if (price >= MIN_VND_PRICE) {
+    return Math.round(price);
+  }
+  return Math.round(toCanonical(price, PRICE_UNIT).value);
+}
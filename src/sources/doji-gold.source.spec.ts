@@ -0,0 +1,73 @@
+import { DojiGoldSource } from './doji-gold.source';
+import { createRecipeEngine, readFixture } from './__fixtures__/recipe-engine';
+
+describe('DojiGoldSource', () => {
+  it('reads the buy price of the requested product in VND per lượng', async () => {
+    const { engine, page } = createRecipeEngine(
+      readFixture('giavang-doji.html'),
+    );
+
+    const quote = await new DojiGoldSource(engine).fetchQuote('Giá vàng Nhẫn');
+
+    expect(quote).toMatchObject({
+      symbol: 'Giá vàng Nhẫn',
+      price: 145300000,
+      per: 'lượng',
+      currency: 'VND',
+      source: 'doji-gold',
+      raw: '145.300',
+    });
+    expect(page.goto).toHaveBeenCalledWith(
+      'https://giavang.org/trong-nuoc/doji/',
+      expect.anything(),
+    );
+  });
+
+  it('loads the page from GIAVANG_BASE_URL when set', async () => {
+    const { engine, page } = createRecipeEngine(
+      readFixture('giavang-doji.html'),
+      { GIAVANG_BASE_URL: 'http://localhost:4010/' },
+    );
+
+    await new DojiGoldSource(engine).fetchQuote('Giá vàng SJC');
+
+    expect(page.goto).toHaveBeenCalledWith(
+      'http://localhost:4010/trong-nuoc/doji/',
+      expect.anything(),
+    );
+  });
+
+  it('picks the section by heading, not position', async () => {
+    const { engine } = createRecipeEngine(readFixture('giavang-doji.html'));
+
+    const quote = await new DojiGoldSource(engine).fetchQuote('Giá vàng SJC');
+
+    expect(quote.price).toBe(146800000);
+  });
+
+  it('throws when the product is not on the page', async () => {
+    const { engine } = createRecipeEngine(readFixture('giavang-doji.html'));
+
+    await expect(
+      new DojiGoldSource(engine).fetchQuote('Giá vàng PNJ'),
+    ).rejects.toThrow(
+      'Recipe "doji-gold" matched no element for "Giá vàng PNJ"',
+    );
+  });
+
+  it('throws and reports drift when the price cell holds no number', async () => {
+    const { engine, drift } = createRecipeEngine(
+      readFixture('giavang-doji-maintenance.html'),
+    );
+
+    await expect(
+      new DojiGoldSource(engine).fetchQuote('Giá vàng Nhẫn'),
+    ).rejects.toThrow('Recipe "doji-gold" found no number in "Đang cập nhật"');
+    expect(drift.observe).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipeId: 'doji-gold',
+        error: 'Recipe "doji-gold" found no number in "Đang cập nhật"',
+      }),
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { PriceSource, Quote } from './price-source.interface';
+import { RecipeEngineService } from './recipes/recipe-engine.service';
+
+/** Selectors live in the "doji-gold" recipe in config/recipes.json. */
+@Injectable()
+export class DojiGoldSource implements PriceSource {
+  readonly type = 'doji-gold';
+
+  constructor(private readonly recipes: RecipeEngineService) {}
+
+  /** `product` is the section heading on giavang.org, e.g. 'Giá vàng Nhẫn'. */
+  async fetchQuote(
+    product: string,
+    _currency?: string,
+    signal?: AbortSignal,
+  ): Promise<Quote> {
+    const { value, per, raw } = await this.recipes.run(
+      this.type,
+      { symbol: product, currency: 'VND' },
+      signal,
+    );
+    return {
+      symbol: product,
+      price: value,
+      per,
+      currency: 'VND',
+      timestamp: new Date(),
+      source: this.type,
+      raw,
+    };
+  }
+}
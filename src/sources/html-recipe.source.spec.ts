@@ -0,0 +1,47 @@
+import { HtmlRecipeSource } from './html-recipe.source';
+import { createRecipeEngine, readFixture } from './__fixtures__/recipe-engine';
+
+describe('HtmlRecipeSource', () => {
+  it('runs the recipe named in the symbol with the rest as {symbol}', async () => {
+    const { engine, page } = createRecipeEngine(
+      readFixture('giavang-doji.html'),
+    );
+
+    const quote = await new HtmlRecipeSource(engine).fetchQuote(
+      'doji-gold:Giá vàng SJC',
+    );
+
+    expect(quote).toMatchObject({
+      symbol: 'doji-gold:Giá vàng SJC',
+      price: 146800000,
+      per: 'lượng',
+      currency: 'VND',
+      source: 'html-recipe',
+    });
+    expect(page.goto).toHaveBeenCalledWith(
+      'https://giavang.org/trong-nuoc/doji/',
+      expect.anything(),
+    );
+  });
+
+  it('fills {currency} in the recipe currency', async () => {
+    const { engine } = createRecipeEngine(
+      readFixture('binance-price-tether-vnd.html'),
+    );
+
+    const quote = await new HtmlRecipeSource(engine).fetchQuote(
+      'binance-price-page:tether',
+      'VND',
+    );
+
+    expect(quote).toMatchObject({ price: 26412.35, currency: 'VND' });
+  });
+
+  it('rejects an unknown recipe', async () => {
+    const { engine } = createRecipeEngine('<html></html>');
+
+    await expect(
+      new HtmlRecipeSource(engine).fetchQuote('no-such-recipe'),
+    ).rejects.toThrow('Unknown scrape recipe "no-such-recipe"');
+  });
+});
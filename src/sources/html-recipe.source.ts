@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { PriceSource, Quote } from './price-source.interface';
+import { RecipeEngineService } from './recipes/recipe-engine.service';
+
+/**
+ * Runs any recipe from config/recipes.json. The asset symbol is the recipe
+ * id, optionally followed by `:value` to fill `{symbol}` in the recipe,
+ * e.g. 'doji-gold:Giá vàng Nhẫn'.
+ */
+@Injectable()
+export class HtmlRecipeSource implements PriceSource {
+  readonly type = 'html-recipe';
+
+  constructor(private readonly recipes: RecipeEngineService) {}
+
+  async fetchQuote(
+    symbol: string,
+    currency?: string,
+    signal?: AbortSignal,
+  ): Promise<Quote> {
+    const separator = symbol.indexOf(':');
+    const recipeId = separator < 0 ? symbol : symbol.slice(0, separator);
+    const vars = {
+      symbol: separator < 0 ? symbol : symbol.slice(separator + 1),
+      currency,
+    };
+
+    const { value, per, raw } = await this.recipes.run(recipeId, vars, signal);
+    return {
+      symbol,
+      price: value,
+      per,
+      currency: this.recipes
+        .get(recipeId)!
+        .currency.replaceAll('{currency}', currency ?? ''),
+      timestamp: new Date(),
+      source: this.type,
+      raw,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { AssetSourceType } from '../assets/asset.interface';
+import { WeightUnit } from '../units/price-unit';
+
+export interface Candle {
+  time: Date; // Start of the bar
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface Quote {
+  symbol: string;
+  price: number; // In whole currency units, never thousands
+  currency: string;
+  per?: WeightUnit; // Set for commodities quoted per weight, e.g. gold per lượng
+  timestamp: Date; // When the source says the price applies, not when we fetched it
+  source: AssetSourceType;
+  raw?: string; // Value as the source printed it, before any cleanup
+  candles?: Candle[]; // Full bars when the source returns them (DNSE)
+}
+
+export interface CandlePage {
+  currency: string;
+  candles: Candle[];
+}
+
+export interface PriceSource {
+  readonly type: AssetSourceType;
+  readonly historyPageDays?: number; // Longest range fetchCandles serves at once
+
+  /**
+   * Fetches the latest quote for a symbol. `currency` is the quote currency
+   * the caller wants, for sources that can serve more than one. `signal`
+   * cancels the request or page load when the caller gives up.
+   * Throws when the source has no usable price.
+   */
+  fetchQuote(
+    symbol: string,
+    currency?: string,
+    signal?: AbortSignal,
+  ): Promise<Quote>;
+
+  /**
+   * Daily candles opening in [from, to), for sources that keep history.
+   * Used by the backfill command, which pages through longer ranges.
+   */
+  fetchCandles?(
+    symbol: string,
+    from: Date,
+    to: Date,
+    signal?: AbortSignal,
+  ): Promise<CandlePage>;
+}
+
+export const PRICE_SOURCES = Symbol('PRICE_SOURCES');
@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { AssetSourceType } from '../assets/asset.interface';
+import { PRICE_SOURCES, PriceSource } from './price-source.interface';
+
+@Injectable()
+export class PriceSourceRegistry {
+  private readonly sources = new Map<AssetSourceType, PriceSource>();
+
+  constructor(@Inject(PRICE_SOURCES) sources: PriceSource[]) {
+    for (const source of sources) {
+      this.sources.set(source.type, source);
+    }
+  }
+
+  get(type: AssetSourceType): PriceSource {
+    const source = this.sources.get(type);
+    if (!source) {
+      throw new Error(`No price source registered for "${type}"`);
+    }
+    return source;
+  }
+}
@@ -0,0 +1,44 @@
+import { readFixture } from '../__fixtures__/recipe-engine';
+import { fingerprintRegion, MISSING_REGION } from './fingerprint';
+import { RecipeFill, RecipeStep } from './scrape-recipe.interface';
+
+// The first step of the giavang-org recipe
+const ANCHOR: RecipeStep = {
+  select: '.gold-price-box h2',
+  contains: '{symbol}',
+};
+
+function fill(symbol: string): RecipeFill {
+  const put = (text: string) => text.replace('{symbol}', symbol);
+  return { text: put, selector: put, pattern: put };
+}
+
+function fingerprint(fixture: string, symbol = 'Giá vàng SJC'): string {
+  return fingerprintRegion(readFixture(fixture), ANCHOR, fill(symbol));
+}
+
+describe('fingerprintRegion', () => {
+  const original = fingerprint('giavang-doji.html');
+
+  it('hashes the layout around the anchor', () => {
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprint('giavang-doji.html', 'Giá vàng Nhẫn')).toBe(original);
+  });
+
+  it('ignores prices, generated class names and page chrome', () => {
+    expect(fingerprint('giavang-doji-repriced.html')).toBe(original);
+  });
+
+  it('changes when the price box is redesigned', () => {
+    expect(fingerprint('giavang-doji-redesign.html')).not.toBe(original);
+  });
+
+  it('reports a missing region when the anchor is gone', () => {
+    expect(fingerprint('giavang-doji.html', 'Giá vàng PNJ')).toBe(
+      MISSING_REGION,
+    );
+    expect(fingerprintRegion('<html></html>', { select: 'h2' }, fill(''))).toBe(
+      MISSING_REGION,
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { CheerioAPI, load } from 'cheerio';
+import { createHash } from 'crypto';
+import { RecipeFill, RecipeStep } from './scrape-recipe.interface';
+
+// Deep enough to cover a price box, shallow enough to ignore page chrome
+const MAX_DEPTH = 6;
+
+export const MISSING_REGION = 'missing';
+
+// domhandler's AnyNode; cheerio uses it without re-exporting it
+export type DomNode = ReturnType<CheerioAPI>[number];
+
+/**
+ * Hashes the markup skeleton around what a recipe's first step finds: the
+ * parent of the first match, as tag names and class names without any
+ * text. Prices changing leave it alone; a redesign does not. Class names
+ * containing digits are dropped, since generated ones such as css-1x2y3z
+ * change on every deploy.
+ */
+export function fingerprintRegion(
+  html: string,
+  anchor: RecipeStep,
+  fill: RecipeFill,
+): string {
+  const $ = load(html);
+  let nodes = anchor.select
+    ? $(fill.selector(anchor.select))
+    : $.root().children();
+  if (anchor.contains !== undefined) {
+    const needle = fill.text(anchor.contains).toUpperCase();
+    nodes = nodes.filter((_, el) =>
+      $(el).text().toUpperCase().includes(needle),
+    );
+  }
+  const region = nodes.first().parent().get(0);
+  if (!region) {
+    return MISSING_REGION;
+  }
+
+  return createHash('sha256')
+    .update(skeleton(region, 0))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function skeleton(node: DomNode, depth: number): string {
+  // Only elements carry attribs; text and comments are skipped
+  if (!('attribs' in node) || depth > MAX_DEPTH) return '';
+  const classes = (node.attribs.class ?? '')
+    .split(/\s+/)
+    .filter((name) => name && !/\d/.test(name))
+    .sort();
+  const children = node.children
+    .map((child) => skeleton(child, depth + 1))
+    .filter(Boolean);
+  return `${[node.name, ...classes].join('.')}(${children.join(',')})`;
+}
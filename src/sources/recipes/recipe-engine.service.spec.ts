@@ -0,0 +1,54 @@
+import { createRecipeEngine } from '../__fixtures__/recipe-engine';
+import { ScrapeRecipe } from './scrape-recipe.interface';
+
+const HTML = `
+  <div class="box">
+    <h2 data-symbol="Giá vàng SJC (HN)">Giá vàng SJC (HN)</h2>
+    <span class="price">Giá vàng SJC (HN): 146.800</span>
+  </div>
+  <div class="box">
+    <h2 data-symbol="Giá vàng SJC">Giá vàng SJC</h2>
+    <span class="price">Giá vàng SJC: 145.900</span>
+  </div>`;
+
+function recipe(overrides: Partial<ScrapeRecipe>): ScrapeRecipe {
+  return {
+    id: 'test',
+    url: 'https://giavang.org/',
+    steps: [{ select: '.price' }],
+    number: { locale: 'vi-VN', unit: 'nghìn đồng/lượng' },
+    currency: 'VND',
+    ...overrides,
+  };
+}
+
+describe('RecipeEngineService', () => {
+  const { engine } = createRecipeEngine(HTML);
+  const vars = { symbol: 'Giá vàng SJC (HN)' };
+
+  it('matches a variable in the extract pattern literally', () => {
+    const result = engine.extract(
+      recipe({
+        steps: [{ select: '.price', contains: '{symbol}' }],
+        extract: { pattern: '{symbol}:\\s*([\\d.]+)' },
+      }),
+      HTML,
+      vars,
+    );
+
+    expect(result).toEqual({ value: 146800000, per: 'lượng', raw: '146.800' });
+  });
+
+  it('quotes a variable used in a selector', () => {
+    const withSymbol = recipe({
+      steps: [{ select: 'h2[data-symbol={symbol}]' }, { next: '.price' }],
+      extract: { pattern: ':\\s*([\\d.]+)' },
+    });
+
+    expect(engine.extract(withSymbol, HTML, vars).raw).toBe('146.800');
+    expect(
+      engine.extract(withSymbol, HTML, { symbol: 'Giá vàng SJC' }).raw,
+    ).toBe('145.900');
+    expect(engine.fingerprint(withSymbol, HTML, vars)).not.toBe('missing');
+  });
+});
@@ -0,0 +1,342 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Cheerio, load } from 'cheerio';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Page } from 'puppeteer';
+import { firstValueFrom } from 'rxjs';
+import { parsePriceUnit, toCanonical } from '../../units/price-unit';
+import { NUMBER_LOCALES, parseNumber } from '../../units/vn-number';
+import {
+  BrowserPoolService,
+  DEFAULT_USER_AGENT,
+} from '../../browser/browser-pool.service';
+import {
+  RecipeFill,
+  RecipeResult,
+  RecipeStep,
+  RecipeWait,
+  ScrapeRecipe,
+} from './scrape-recipe.interface';
+import { DomNode, fingerprintRegion } from './fingerprint';
+import { DriftService } from '../../drift/drift.service';
+
+const DEFAULT_RECIPES_CONFIG_PATH = 'config/recipes.json';
+const DEFAULT_EXTRACT_PATTERN = '([\\d.,]+)';
+const PAGE_TIMEOUT_MS = 60000;
+
+// Sites the recipes scrape, with the variable that points them elsewhere
+// (a mock server, say), like the base URLs of the API sources
+const ORIGIN_OVERRIDES: Record<string, string> = {
+  'https://giavang.org': 'GIAVANG_BASE_URL',
+  'https://www.binance.com': 'BINANCE_WEB_BASE_URL',
+};
+
+// Extra keys fill matching placeholders, e.g. { dealer: 'pnj' } for {dealer}
+export interface RecipeVars {
+  symbol: string;
+  currency?: string;
+  [name: string]: string | undefined;
+}
+
+/**
+ * Runs scrape recipes from config/recipes.json. Browser recipes only use
+ * Chromium to render the page; selection and parsing always happen on the
+ * resulting HTML, so both modes behave the same.
+ */
+@Injectable()
+export class RecipeEngineService implements OnModuleInit {
+  private readonly logger = new Logger(RecipeEngineService.name);
+  private recipes = new Map<string, ScrapeRecipe>();
+  private origins = new Map<string, string>(); // Recipe origin -> override
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+    private readonly browserPool: BrowserPoolService,
+    private readonly drift: DriftService,
+  ) {}
+
+  onModuleInit() {
+    const path = resolve(
+      this.configService.get<string>('RECIPES_CONFIG_PATH') ??
+        DEFAULT_RECIPES_CONFIG_PATH,
+    );
+    const file = JSON.parse(readFileSync(path, 'utf8')) as {
+      recipes?: ScrapeRecipe[];
+    };
+    for (const recipe of file.recipes ?? []) {
+      this.check(recipe);
+      this.recipes.set(recipe.id, recipe);
+    }
+    for (const [origin, key] of Object.entries(ORIGIN_OVERRIDES)) {
+      const override = this.configService.get<string>(key);
+      if (override) this.origins.set(origin, override.replace(/\/+$/, ''));
+    }
+    this.logger.log(`Loaded ${this.recipes.size} scrape recipes from ${path}`);
+  }
+
+  get(id: string): ScrapeRecipe | undefined {
+    return this.recipes.get(id);
+  }
+
+  async run(
+    id: string,
+    vars: RecipeVars,
+    signal?: AbortSignal,
+  ): Promise<RecipeResult> {
+    const recipe = this.recipes.get(id);
+    if (!recipe) {
+      throw new Error(`Unknown scrape recipe "${id}"`);
+    }
+    const html = await this.fetchHtml(recipe, vars, signal);
+    return this.scrape(recipe, html, vars);
+  }
+
+  /**
+   * Extracts from a page loaded with fetchHtml and reports the result to
+   * drift detection, as run does. Callers reading several values off one
+   * page use this for each, so their layout changes are caught too.
+   */
+  async scrape(
+    recipe: ScrapeRecipe,
+    html: string,
+    vars: RecipeVars,
+  ): Promise<RecipeResult> {
+    const scrape = {
+      recipeId: recipe.id,
+      target: `${interpolate(recipe.url, vars)} ${vars.symbol}`,
+      vars,
+      url: this.resolveUrl(recipe, vars),
+      html,
+      fingerprint: this.fingerprint(recipe, html, vars),
+    };
+    try {
+      const result = this.extract(recipe, html, vars);
+      await this.drift.observe({
+        ...scrape,
+        value: result.value,
+        raw: result.raw,
+      });
+      return result;
+    } catch (error) {
+      await this.drift.observe({
+        ...scrape,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /** Layout fingerprint of the region the recipe's first step lands in. */
+  fingerprint(recipe: ScrapeRecipe, html: string, vars: RecipeVars): string {
+    return fingerprintRegion(html, recipe.steps[0], filler(vars));
+  }
+
+  /** Applies a recipe to HTML that has already been fetched. */
+  extract(recipe: ScrapeRecipe, html: string, vars: RecipeVars): RecipeResult {
+    const fill = filler(vars);
+    const text = selectText(html, recipe.steps, fill);
+    if (text === null) {
+      throw new Error(
+        `Recipe "${recipe.id}" matched no element for "${vars.symbol}"`,
+      );
+    }
+
+    const { pattern, group = 1 } = recipe.extract ?? {
+      pattern: DEFAULT_EXTRACT_PATTERN,
+    };
+    const raw = new RegExp(fill.pattern(pattern)).exec(text)?.[group];
+    if (!raw) {
+      throw new Error(
+        `Recipe "${recipe.id}" found no number in "${text.trim().slice(0, 80)}"`,
+      );
+    }
+
+    const amount =
+      parseNumber(raw, recipe.number.locale) * (recipe.number.multiplier ?? 1);
+    if (!recipe.number.unit) {
+      return { value: amount, raw };
+    }
+    const { value, per } = toCanonical(amount, recipe.number.unit);
+    return { value, per, raw };
+  }
+
+  /**
+   * Loads the recipe's page once, for callers that extract several values.
+   * Aborting `signal` cancels the request or closes the browser page.
+   */
+  async fetchHtml(
+    recipe: ScrapeRecipe,
+    vars: RecipeVars,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const url = this.resolveUrl(recipe, vars);
+
+    if (recipe.mode === 'static') {
+      const { data } = await firstValueFrom(
+        this.httpService.get<string>(url, {
+          responseType: 'text',
+          headers: { 'User-Agent': DEFAULT_USER_AGENT },
+          signal,
+        }),
+      );
+      return data;
+    }
+
+    return this.browserPool.withPage(
+      async (page) => {
+        await page.goto(url, {
+          waitUntil: 'domcontentloaded',
+          timeout: PAGE_TIMEOUT_MS,
+        });
+        if (recipe.waitFor) {
+          await this.waitFor(page, recipe.waitFor, vars).catch(() => {
+            this.logger.warn(
+              `Timeout waiting for recipe "${recipe.id}" content, extracting anyway`,
+            );
+          });
+        }
+        return page.content();
+      },
+      { signal },
+    );
+  }
+
+  /** The recipe URL with its placeholders filled and its origin overridden. */
+  resolveUrl(recipe: ScrapeRecipe, vars: RecipeVars): string {
+    const url = interpolate(recipe.url, vars);
+    for (const [origin, override] of this.origins) {
+      if (url === origin || url.startsWith(`${origin}/`)) {
+        return override + url.slice(origin.length);
+      }
+    }
+    return url;
+  }
+
+  private async waitFor(page: Page, wait: RecipeWait, vars: RecipeVars) {
+    const timeout = wait.timeoutMs ?? PAGE_TIMEOUT_MS;
+    const fill = filler(vars);
+    if (wait.text === undefined) {
+      if (wait.selector) {
+        await page.waitForSelector(fill.selector(wait.selector), {
+          timeout,
+        });
+      }
+      return;
+    }
+    await page.waitForFunction(
+      (selector: string, text: string) =>
+        Array.from(document.querySelectorAll(selector)).some((el) =>
+          el.textContent?.includes(text),
+        ),
+      { timeout },
+      fill.selector(wait.selector ?? 'span'),
+      fill.text(wait.text),
+    );
+  }
+
+  private check(recipe: ScrapeRecipe) {
+    const label = `Scrape recipe "${recipe?.id}"`;
+    if (!recipe?.id || !recipe.url || !recipe.currency) {
+      throw new Error(`${label} needs "id", "url" and "currency"`);
+    }
+    if (this.recipes.has(recipe.id)) {
+      throw new Error(`Duplicate scrape recipe id "${recipe.id}"`);
+    }
+    if (recipe.mode && !['browser', 'static'].includes(recipe.mode)) {
+      throw new Error(`${label} has unknown mode "${recipe.mode}"`);
+    }
+    if (!Array.isArray(recipe.steps) || recipe.steps.length === 0) {
+      throw new Error(`${label} needs at least one step`);
+    }
+    recipe.steps.forEach((step, index) => {
+      if (!step.select && !step.next && step.contains === undefined) {
+        throw new Error(
+          `${label} steps[${index}] needs "select", "next" or "contains"`,
+        );
+      }
+    });
+    if (!NUMBER_LOCALES.includes(recipe.number?.locale)) {
+      throw new Error(
+        `${label} needs "number.locale" of ${NUMBER_LOCALES.join(' or ')}`,
+      );
+    }
+    try {
+      if (recipe.number.unit) parsePriceUnit(recipe.number.unit);
+    } catch (error) {
+      throw new Error(
+        `${label}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    try {
+      new RegExp(recipe.extract?.pattern ?? DEFAULT_EXTRACT_PATTERN);
+    } catch (error) {
+      throw new Error(
+        `${label} has an invalid extract pattern: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+function interpolate(
+  text: string,
+  vars: RecipeVars,
+  escape: (value: string) => string = (value) => value,
+): string {
+  // Names start with a letter so regex quantifiers such as {3} survive
+  return text.replace(/\{([A-Za-z_]\w*)\}/g, (_, name: string) =>
+    escape(vars[name] ?? ''),
+  );
+}
+
+/**
+ * Fills placeholders so values match literally wherever they land: a
+ * symbol such as "Giá vàng SJC (HN)" must not open a regex group or end a
+ * selector early.
+ */
+function filler(vars: RecipeVars): RecipeFill {
+  return {
+    text: (text) => interpolate(text, vars),
+    selector: (text) => interpolate(text, vars, quoteCss),
+    pattern: (text) => interpolate(text, vars, escapeRegExp),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function quoteCss(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/** Text of the first element left after all steps, or null if none. */
+function selectText(
+  html: string,
+  steps: RecipeStep[],
+  fill: RecipeFill,
+): string | null {
+  const $ = load(html);
+  let nodes: Cheerio<DomNode> = $.root();
+
+  for (const step of steps) {
+    if (step.select) {
+      nodes = nodes.find(fill.selector(step.select));
+    }
+    if (step.next) {
+      nodes =
+        step.next === '*' ? nodes.next() : nodes.next(fill.selector(step.next));
+    }
+    if (step.contains !== undefined) {
+      const needle = fill.text(step.contains).toUpperCase();
+      nodes = nodes.filter((_, el) =>
+        $(el).text().toUpperCase().includes(needle),
+      );
+    }
+    if (nodes.length === 0) return null;
+  }
+
+  return nodes.first().text();
+}
@@ -0,0 +1,63 @@
+import { WeightUnit } from '../../units/price-unit';
+import { NumberLocale } from '../../units/vn-number';
+
+/**
+ * A declarative description of how to read one number off an HTML page.
+ * `{symbol}`, `{currency}` and any other `{name}` the caller passes are
+ * replaced in url, waitFor, steps and pattern before the recipe runs.
+ * Values are matched literally: in a selector a placeholder becomes a
+ * quoted string, e.g. `[data-symbol={symbol}]`, and in `pattern` its regex
+ * characters are escaped.
+ */
+export interface ScrapeRecipe {
+  id: string;
+  url: string;
+  mode?: 'browser' | 'static'; // Defaults to browser; static skips Chromium
+  waitFor?: RecipeWait; // Browser mode only
+  steps: RecipeStep[];
+  extract?: RecipeExtractor; // Defaults to the first number in the text
+  number: RecipeNumberFormat;
+  currency: string;
+}
+
+export interface RecipeWait {
+  selector?: string; // Wait until an element matches
+  text?: string; // Wait until any element matching `selector` (or span) contains this
+  timeoutMs?: number; // Defaults to 60000; on timeout extraction still runs
+}
+
+/**
+ * Steps narrow a set of elements, starting from the document. A step either
+ * selects descendants (`select`) or moves to each element's next sibling
+ * (`next`), then optionally keeps only elements whose text contains
+ * `contains` (case-insensitive). A step with only `contains` just filters.
+ */
+export interface RecipeStep {
+  select?: string;
+  next?: string; // Selector the sibling must match, '*' for any
+  contains?: string;
+}
+
+export interface RecipeExtractor {
+  pattern: string; // Regular expression applied to the final element's text
+  group?: number; // Capture group holding the number, defaults to 1
+}
+
+export interface RecipeNumberFormat {
+  locale: NumberLocale; // vi-VN groups with '.', en-US with ','
+  unit?: string; // What the page prints, e.g. 'nghìn đồng/lượng'
+  multiplier?: number; // Extra factor for anything `unit` cannot express
+}
+
+export interface RecipeResult {
+  value: number; // In whole currency units
+  per?: WeightUnit; // From the recipe unit, e.g. lượng
+  raw: string; // Matched text before parsing
+}
+
+/** Fills a recipe's placeholders for each place they can appear. */
+export interface RecipeFill {
+  text(text: string): string; // url, contains, waitFor.text
+  selector(text: string): string; // select, next, waitFor.selector
+  pattern(text: string): string; // extract.pattern
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { timedHttpModule } from '../common/timed-http';
+import { BrowserModule } from '../browser/browser.module';
+import { DriftModule } from '../drift/drift.module';
+import { StreamingModule } from '../streaming/streaming.module';
+import { PRICE_SOURCES, PriceSource } from './price-source.interface';
+import { PriceSourceRegistry } from './price-source.registry';
+import { DnseSource } from './dnse.source';
+import { BinanceTickerSource } from './binance-ticker.source';
+import { DojiGoldSource } from './doji-gold.source';
+import { BinancePricePageSource } from './binance-price-page.source';
+import { HtmlRecipeSource } from './html-recipe.source';
+import { RecipeEngineService } from './recipes/recipe-engine.service';
+
+// New sources only need to be added here and to ASSET_SOURCE_TYPES.
+const SOURCES = [
+  DnseSource,
+  BinanceTickerSource,
+  DojiGoldSource,
+  BinancePricePageSource,
+  HtmlRecipeSource,
+];
+
+@Module({
+  imports: [BrowserModule, DriftModule, StreamingModule, timedHttpModule()],
+  providers: [
+    ...SOURCES,
+    {
+      provide: PRICE_SOURCES,
+      useFactory: (...sources: PriceSource[]) => sources,
+      inject: SOURCES,
+    },
+    PriceSourceRegistry,
+    RecipeEngineService,
+  ],
+  exports: [PriceSourceRegistry, RecipeEngineService],
+})
+export class SourcesModule {}
@@ -0,0 +1,157 @@
+import { AddressInfo } from 'net';
+import { WebSocket as WsWebSocket, WebSocketServer } from 'ws';
+import {
+  BinanceStreamClient,
+  StreamClientOptions,
+} from './binance-stream.client';
+import { StreamTick } from './binance-stream.interface';
+import { sleep } from '../common/sleep';
+
+// Node 22 ships a global WebSocket; ws stands in for it on older runtimes
+globalThis.WebSocket ??= WsWebSocket as unknown as typeof WebSocket;
+
+const TICKER_EVENT = {
+  stream: 'btcusdt@ticker',
+  data: { e: '24hrTicker', E: 1760918400000, s: 'BTCUSDT', c: '107234.56' },
+};
+
+const KLINE_EVENT = {
+  stream: 'ethusdt@kline_1m',
+  data: { e: 'kline', E: 1760918401000, s: 'ETHUSDT', k: { c: '3875.10' } },
+};
+
+describe('BinanceStreamClient', () => {
+  let server: WebSocketServer;
+  let client: BinanceStreamClient | undefined;
+  const connections: { url: string; socket: WsWebSocket; at: number }[] = [];
+
+  beforeEach(async () => {
+    connections.length = 0;
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket, request) =>
+      connections.push({ url: request.url ?? '', socket, at: Date.now() }),
+    );
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    client?.close();
+    client = undefined;
+    jest.restoreAllMocks();
+    server.clients.forEach((socket) => socket.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function start(options: Partial<StreamClientOptions> = {}) {
+    const ticks: StreamTick[] = [];
+    const states: boolean[] = [];
+    client = new BinanceStreamClient(
+      {
+        baseUrl: `ws://localhost:${(server.address() as AddressInfo).port}`,
+        streams: ['btcusdt@ticker', 'ethusdt@kline_1m'],
+        minBackoffMs: 100,
+        maxBackoffMs: 1000,
+        staleAfterMs: 60000,
+        ...options,
+      },
+      {
+        onTick: (tick) => ticks.push(tick),
+        onConnectionChange: (connected) => states.push(connected),
+      },
+    );
+    client.connect();
+    return { client, ticks, states };
+  }
+
+  it('subscribes to every stream through the combined endpoint', async () => {
+    const { client, states } = start();
+
+    await waitFor(() => client.isConnected());
+
+    expect(connections.map((connection) => connection.url)).toEqual([
+      '/stream?streams=btcusdt@ticker/ethusdt@kline_1m',
+    ]);
+    expect(states).toEqual([true]);
+  });
+
+  it('parses ticker and kline events and skips everything else', async () => {
+    const { client, ticks } = start();
+    await waitFor(() => client.isConnected());
+
+    const [{ socket }] = connections;
+    socket.send(JSON.stringify({ result: null, id: 1 }));
+    socket.send('not json');
+    socket.send(JSON.stringify({ data: { ...TICKER_EVENT.data, c: 'NaN' } }));
+    socket.send(JSON.stringify(TICKER_EVENT));
+    socket.send(JSON.stringify(KLINE_EVENT));
+    await waitFor(() => ticks.length === 2);
+
+    expect(ticks).toMatchObject([
+      {
+        symbol: 'BTCUSDT',
+        price: 107234.56,
+        raw: '107234.56',
+        eventTime: new Date(1760918400000),
+      },
+      { symbol: 'ETHUSDT', price: 3875.1, raw: '3875.10' },
+    ]);
+    expect(client.getLastMessageAt()).toBeInstanceOf(Date);
+  });
+
+  it('reconnects after a close, backing off', async () => {
+    // Full jitter picks the top of the range, so the delays are exact
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const { client, states } = start({ minBackoffMs: 200 });
+    await waitFor(() => client.isConnected());
+
+    const closedAt = Date.now();
+    connections[0].socket.close(1012);
+    await waitFor(() => connections.length === 2 && client.isConnected());
+
+    expect(connections[1].at - closedAt).toBeGreaterThanOrEqual(190);
+    expect(client.reconnects).toBe(1);
+    expect(states).toEqual([true, false, true]);
+
+    // The second failure in a row waits twice as long
+    const closedAgainAt = Date.now();
+    connections[1].socket.close(1012);
+    await waitFor(() => connections.length === 3);
+
+    expect(connections[2].at - closedAgainAt).toBeGreaterThanOrEqual(390);
+  });
+
+  it('drops a connection that goes quiet and reconnects', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const { client, states } = start({ staleAfterMs: 200 });
+    await waitFor(() => client.isConnected());
+    const openedAt = Date.now();
+
+    await waitFor(() => connections.length === 2 && client.isConnected());
+
+    expect(Date.now() - openedAt).toBeGreaterThanOrEqual(200);
+    expect(states).toEqual([true, false, true]);
+    expect(client.reconnects).toBe(1);
+  });
+
+  it('stays down after close()', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const { client } = start();
+    await waitFor(() => client.isConnected());
+
+    client.close();
+    await sleep(200);
+
+    expect(connections).toHaveLength(1);
+    expect(client.reconnects).toBe(0);
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the stream client');
+    }
+    await sleep(10);
+  }
+}
@@ -0,0 +1,168 @@
+import { Logger } from '@nestjs/common';
+import { StreamTick } from './binance-stream.interface';
+
+export interface StreamClientOptions {
+  baseUrl: string; // e.g. wss://stream.binance.com:9443, or a local mock
+  streams: string[]; // e.g. ['btcusdt@ticker']
+  minBackoffMs: number;
+  maxBackoffMs: number;
+  staleAfterMs: number; // Reconnects when nothing arrives for this long
+}
+
+export interface StreamClientHandlers {
+  onTick: (tick: StreamTick) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+interface CombinedStreamMessage {
+  stream?: string;
+  data?: {
+    e?: string; // Event type
+    E?: number; // Event time
+    s?: string; // Symbol
+    c?: string; // Last price, ticker events
+    k?: { c?: string }; // Candle, kline events
+  };
+}
+
+/**
+ * One connection to Binance's combined stream endpoint. Reconnects with
+ * exponential backoff and full jitter whenever the socket closes, errors
+ * or goes quiet, until close() is called.
+ */
+export class BinanceStreamClient {
+  private readonly logger = new Logger(BinanceStreamClient.name);
+  private socket?: WebSocket;
+  private failures = 0;
+  private closed = false;
+  private reconnectTimer?: NodeJS.Timeout;
+  private watchdog?: NodeJS.Timeout;
+  private lastMessageAt = 0;
+  reconnects = 0;
+
+  constructor(
+    private readonly options: StreamClientOptions,
+    private readonly handlers: StreamClientHandlers,
+  ) {}
+
+  get url(): string {
+    return `${this.options.baseUrl}/stream?streams=${this.options.streams.join('/')}`;
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  getLastMessageAt(): Date | undefined {
+    return this.lastMessageAt ? new Date(this.lastMessageAt) : undefined;
+  }
+
+  connect() {
+    this.closed = false;
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.logger.log(`Connected to ${this.url}`);
+      this.lastMessageAt = Date.now();
+      this.startWatchdog();
+      this.handlers.onConnectionChange?.(true);
+    });
+    socket.addEventListener('message', (event: MessageEvent) => {
+      this.lastMessageAt = Date.now();
+      this.failures = 0;
+      this.handleMessage(String(event.data));
+    });
+    socket.addEventListener('error', () => {
+      // A close event always follows, reconnecting happens there
+      this.logger.warn(`Binance stream error on ${this.url}`);
+    });
+    socket.addEventListener('close', (event: CloseEvent) => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      this.stopWatchdog();
+      this.handlers.onConnectionChange?.(false);
+      if (!this.closed) {
+        this.scheduleReconnect(`closed with code ${event.code}`);
+      }
+    });
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.stopWatchdog();
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private handleMessage(payload: string) {
+    let message: CombinedStreamMessage;
+    try {
+      message = JSON.parse(payload) as CombinedStreamMessage;
+    } catch {
+      this.logger.warn(
+        `Ignoring non-JSON stream message: ${payload.slice(0, 80)}`,
+      );
+      return;
+    }
+
+    const data = message.data;
+    // Subscription acks and events we did not ask for carry no price
+    const raw = data?.e === 'kline' ? data.k?.c : data?.c;
+    if (!data?.s || raw === undefined) return;
+
+    const price = Number(raw);
+    if (!Number.isFinite(price) || price <= 0) {
+      this.logger.warn(`Ignoring ${data.s} stream price "${raw}"`);
+      return;
+    }
+    this.handlers.onTick({
+      symbol: data.s.toUpperCase(),
+      price,
+      raw,
+      eventTime: new Date(data.E ?? Date.now()),
+      receivedAt: new Date(),
+    });
+  }
+
+  private scheduleReconnect(reason: string) {
+    this.failures++;
+    const ceiling = Math.min(
+      this.options.maxBackoffMs,
+      this.options.minBackoffMs * 2 ** (this.failures - 1),
+    );
+    const delayMs = Math.round(Math.random() * ceiling);
+    this.logger.warn(
+      `Binance stream ${reason}, reconnecting in ${delayMs}ms (attempt ${this.failures})`,
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnects++;
+      this.connect();
+    }, delayMs);
+  }
+
+  // A half-open TCP connection never fires close, so silence counts too
+  private startWatchdog() {
+    this.stopWatchdog();
+    this.watchdog = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > this.options.staleAfterMs) {
+        this.logger.warn(
+          `No stream messages for ${this.options.staleAfterMs}ms, dropping the connection`,
+        );
+        // Detach first; the close handshake may never complete
+        const socket = this.socket;
+        this.socket = undefined;
+        this.stopWatchdog();
+        socket?.close();
+        this.handlers.onConnectionChange?.(false);
+        this.scheduleReconnect('went quiet');
+      }
+    }, this.options.staleAfterMs / 2);
+  }
+
+  private stopWatchdog() {
+    clearInterval(this.watchdog);
+    this.watchdog = undefined;
+  }
+}
@@ -0,0 +1,23 @@
+export const BINANCE_STREAM_TYPES = [
+  'ticker', // 24h rolling ticker, pushed every second
+  'miniTicker',
+  'kline_1m', // Current one-minute candle, close is the last trade
+] as const;
+
+export type BinanceStreamType = (typeof BINANCE_STREAM_TYPES)[number];
+
+export interface StreamTick {
+  symbol: string; // Upper case, e.g. BTCUSDT
+  price: number;
+  raw: string;
+  eventTime: Date; // When Binance produced the event
+  receivedAt: Date;
+}
+
+export interface StreamStatus {
+  enabled: boolean;
+  connected: boolean;
+  symbols: string[];
+  reconnects: number; // Since startup
+  lastMessageAt?: Date;
+}
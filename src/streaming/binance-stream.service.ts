@@ -0,0 +1,143 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { BinanceStreamClient } from './binance-stream.client';
+import {
+  BINANCE_STREAM_TYPES,
+  BinanceStreamType,
+  StreamStatus,
+  StreamTick,
+} from './binance-stream.interface';
+
+const DEFAULT_BINANCE_WS_URL = 'wss://stream.binance.com:9443';
+
+type TickListener = (tick: StreamTick) => void;
+
+/**
+ * Optional Binance WebSocket feed (BINANCE_STREAM_ENABLED=true). Keeps the
+ * latest price per symbol in memory; BinanceTickerSource reads it before
+ * falling back to REST, and listeners decide when a tick is worth a crawl.
+ */
+@Injectable()
+export class BinanceStreamService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(BinanceStreamService.name);
+  private readonly enabled: boolean;
+  private readonly maxAgeMs: number;
+  private readonly latest = new Map<string, StreamTick>();
+  private readonly listeners: TickListener[] = [];
+  private client?: BinanceStreamClient;
+  private symbols: string[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly assetRegistry: AssetRegistryService,
+  ) {
+    this.enabled =
+      configService.get<string>('BINANCE_STREAM_ENABLED') === 'true';
+    this.maxAgeMs = Number(
+      configService.get<string>('BINANCE_STREAM_MAX_AGE_MS') ?? 60000,
+    );
+  }
+
+  onApplicationBootstrap() {
+    if (!this.enabled) return;
+    if (typeof WebSocket === 'undefined') {
+      throw new Error('BINANCE_STREAM_ENABLED needs Node.js 22 or newer');
+    }
+
+    const type =
+      this.configService.get<BinanceStreamType>('BINANCE_STREAM_TYPE') ??
+      'ticker';
+    if (!BINANCE_STREAM_TYPES.includes(type)) {
+      throw new Error(
+        `BINANCE_STREAM_TYPE must be one of ${BINANCE_STREAM_TYPES.join(', ')}, got "${type}"`,
+      );
+    }
+    // Defaults to every enabled binance-ticker asset
+    const configured = this.configService.get<string>('BINANCE_STREAM_SYMBOLS');
+    this.symbols = configured
+      ? configured.split(',').map((symbol) => symbol.trim().toUpperCase())
+      : this.assetRegistry
+          .getEnabled()
+          .filter((asset) => asset.source === 'binance-ticker')
+          .map((asset) => asset.symbol.toUpperCase());
+    this.symbols = [...new Set(this.symbols.filter(Boolean))];
+    if (this.symbols.length === 0) {
+      this.logger.warn('Binance streaming is enabled but has no symbols');
+      return;
+    }
+
+    const num = (key: string, fallback: number) =>
+      Number(this.configService.get<string>(key) ?? fallback);
+    this.client = new BinanceStreamClient(
+      {
+        baseUrl:
+          this.configService.get<string>('BINANCE_WS_URL') ??
+          DEFAULT_BINANCE_WS_URL,
+        streams: this.symbols.map(
+          (symbol) => `${symbol.toLowerCase()}@${type}`,
+        ),
+        minBackoffMs: num('BINANCE_STREAM_MIN_BACKOFF_MS', 1000),
+        maxBackoffMs: num('BINANCE_STREAM_MAX_BACKOFF_MS', 60000),
+        staleAfterMs: num('BINANCE_STREAM_STALE_AFTER_MS', 30000),
+      },
+      {
+        onTick: (tick) => this.onTick(tick),
+        onConnectionChange: (connected) => {
+          if (!connected) {
+            this.logger.warn('Binance stream down, REST polling takes over');
+          }
+        },
+      },
+    );
+    this.logger.log(`Streaming ${type} for ${this.symbols.join(', ')}`);
+    this.client.connect();
+  }
+
+  onModuleDestroy() {
+    this.client?.close();
+  }
+
+  /** Latest streamed price, unless the stream is down or it is too old. */
+  getFresh(symbol: string): StreamTick | undefined {
+    const tick = this.latest.get(symbol.toUpperCase());
+    if (!tick || !this.client?.isConnected()) return undefined;
+    return Date.now() - tick.receivedAt.getTime() <= this.maxAgeMs
+      ? tick
+      : undefined;
+  }
+
+  onPrice(listener: TickListener) {
+    this.listeners.push(listener);
+  }
+
+  getStatus(): StreamStatus {
+    return {
+      enabled: this.enabled,
+      connected: this.client?.isConnected() ?? false,
+      symbols: this.symbols,
+      reconnects: this.client?.reconnects ?? 0,
+      lastMessageAt: this.client?.getLastMessageAt(),
+    };
+  }
+
+  private onTick(tick: StreamTick) {
+    this.latest.set(tick.symbol, tick);
+    for (const listener of this.listeners) {
+      try {
+        listener(tick);
+      } catch (error) {
+        this.logger.error(
+          `Stream listener failed for ${tick.symbol}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+}
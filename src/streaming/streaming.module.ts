@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AssetsModule } from '../assets/assets.module';
+import { BinanceStreamService } from './binance-stream.service';
+
+@Module({
+  imports: [AssetsModule],
+  providers: [BinanceStreamService],
+  exports: [BinanceStreamService],
+})
+export class StreamingModule {}
@@ -0,0 +1,22 @@
+import { BreakerSnapshot } from '../resilience/circuit-breaker';
+import { CrawlOutcome } from '../observability/crawl-run.interface';
+
+export interface CrawlRunSummary {
+  lastRunAt?: Date;
+  lastDurationMs?: number;
+  lastOutcome?: CrawlOutcome;
+  lastAttempts?: number; // Source fetch attempts; 0 when the breaker was open
+  lastError?: string;
+  lastValue?: number;
+  lastSuccessAt?: Date;
+}
+
+export interface CrawlStatus extends CrawlRunSummary {
+  id: string; // Asset id, one crawl job per asset
+  schedule: string;
+  intradaySchedule?: string;
+  running: boolean;
+  paused: boolean;
+  breaker: BreakerSnapshot; // Shared by every asset on the same source
+  nextRunAt?: Date;
+}
@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { TasksService } from './tasks.service';
+import type { CrawlStatus } from './crawl-status.interface';
+import type { CrawlRun } from '../observability/crawl-run.interface';
+import { UpdateScheduleDto } from './dto/update-schedule.dto';
+import { RunsQueryDto } from '../observability/dto/runs-query.dto';
+import { ApiKeyGuard } from '../common/api-key.guard';
+
+@Controller('crawlers')
+export class CrawlersController {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Get()
+  getStatuses(): CrawlStatus[] {
+    return this.tasksService.getStatuses();
+  }
+
+  @Get('runs')
+  getRuns(@Query() query: RunsQueryDto): CrawlRun[] {
+    return this.tasksService.getRuns(query.job, query.limit);
+  }
+
+  @Get(':id/runs')
+  getAssetRuns(
+    @Param('id') id: string,
+    @Query() query: RunsQueryDto,
+  ): CrawlRun[] {
+    return this.tasksService.getRuns(id, query.limit);
+  }
+
+  @Post('run-all')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  runAll(): Promise<CrawlStatus[]> {
+    return this.tasksService.runAll();
+  }
+
+  @Post(':id/run')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  run(@Param('id') id: string): Promise<CrawlStatus> {
+    return this.tasksService.runNow(id);
+  }
+
+  @Post(':id/pause')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  pause(@Param('id') id: string): Promise<CrawlStatus> {
+    return this.tasksService.pause(id);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(200)
+  @UseGuards(ApiKeyGuard)
+  resume(@Param('id') id: string): CrawlStatus {
+    return this.tasksService.resume(id);
+  }
+
+  @Put(':id/schedule')
+  @UseGuards(ApiKeyGuard)
+  reschedule(
+    @Param('id') id: string,
+    @Body() body: UpdateScheduleDto,
+  ): CrawlStatus {
+    return this.tasksService.reschedule(
+      id,
+      body.schedule,
+      body.intradaySchedule,
+    );
+  }
+}
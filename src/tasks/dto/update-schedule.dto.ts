@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class UpdateScheduleDto {
+  // Cron expression or a CronExpression key such as EVERY_10_MINUTES
+  @IsString()
+  @IsNotEmpty()
+  schedule: string;
+
+  // Only for assets with an intraday job; left as is when omitted
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  intradaySchedule?: string;
+}
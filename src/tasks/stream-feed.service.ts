@@ -0,0 +1,82 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { PriceHistoryService } from '../history/price-history.service';
+import { BinanceStreamService } from '../streaming/binance-stream.service';
+import { StreamTick } from '../streaming/binance-stream.interface';
+import { TasksService } from './tasks.service';
+
+/**
+ * Turns streamed ticks into crawls, throttled: a crawl runs when the price
+ * has moved BINANCE_STREAM_MIN_CHANGE_PERCENT since the stored quote, or
+ * when BINANCE_STREAM_WRITE_EVERY_MS has passed, but never more often than
+ * BINANCE_STREAM_MIN_INTERVAL_MS. The crawl reads the streamed price from
+ * the cache, so it goes through validation, history, alerts and sinks like
+ * any scheduled run.
+ */
+@Injectable()
+export class StreamFeedService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(StreamFeedService.name);
+  private readonly minChangePercent: number;
+  private readonly minIntervalMs: number;
+  private readonly writeEveryMs?: number;
+  private readonly triggeredAt = new Map<string, number>();
+
+  constructor(
+    configService: ConfigService,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly binanceStream: BinanceStreamService,
+    private readonly tasksService: TasksService,
+  ) {
+    const num = (key: string, fallback: number) =>
+      Number(configService.get<string>(key) ?? fallback);
+    this.minChangePercent = num('BINANCE_STREAM_MIN_CHANGE_PERCENT', 0.5);
+    this.minIntervalMs = num('BINANCE_STREAM_MIN_INTERVAL_MS', 60000);
+    const writeEvery = configService.get<string>(
+      'BINANCE_STREAM_WRITE_EVERY_MS',
+    );
+    this.writeEveryMs = writeEvery ? Number(writeEvery) : undefined;
+  }
+
+  onApplicationBootstrap() {
+    if (!this.binanceStream.getStatus().enabled) return;
+    this.binanceStream.onPrice((tick) => this.onTick(tick));
+  }
+
+  private onTick(tick: StreamTick) {
+    const assets = this.assetRegistry
+      .getEnabled()
+      .filter(
+        (asset) =>
+          asset.source === 'binance-ticker' &&
+          asset.symbol.toUpperCase() === tick.symbol,
+      );
+
+    const now = Date.now();
+    for (const asset of assets) {
+      // Also bounds retries while crawls keep failing or getting rejected
+      if (now - (this.triggeredAt.get(asset.id) ?? 0) < this.minIntervalMs) {
+        continue;
+      }
+      const latest = this.priceHistory.getLatest(asset.id);
+      const sinceMs = latest ? now - latest.fetchedAt.getTime() : Infinity;
+      if (sinceMs < this.minIntervalMs) continue;
+
+      const change = latest
+        ? (Math.abs(tick.price - latest.price) / latest.price) * 100
+        : Infinity;
+      const due =
+        this.writeEveryMs !== undefined && sinceMs >= this.writeEveryMs;
+      if (change < this.minChangePercent && !due) continue;
+
+      this.triggeredAt.set(asset.id, now);
+      this.logger.log(
+        latest
+          ? `${asset.id} streamed ${tick.raw}, ${change.toFixed(2)}% from the stored ${latest.price}${due ? ' (interval due)' : ''}, crawling`
+          : `${asset.id} streamed ${tick.raw} and has no stored quote, crawling`,
+      );
+      void this.tasksService.crawlAsset(asset.id);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { AssetsModule } from '../assets/assets.module';
+import { SourcesModule } from '../sources/sources.module';
+import { HistoryModule } from '../history/history.module';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { ValidationModule } from '../validation/validation.module';
+import { SinksModule } from '../sinks/sinks.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { FxModule } from '../fx/fx.module';
+import { PortfolioModule } from '../portfolio/portfolio.module';
+import { CalendarModule } from '../calendar/calendar.module';
+import { ObservabilityModule } from '../observability/observability.module';
+import { StreamingModule } from '../streaming/streaming.module';
+import { TasksService } from './tasks.service';
+import { CrawlersController } from './crawlers.controller';
+import { StreamFeedService } from './stream-feed.service';
+
+@Module({
+  imports: [
+    AssetsModule,
+    SourcesModule,
+    HistoryModule,
+    ResilienceModule,
+    ValidationModule,
+    SinksModule,
+    AlertsModule,
+    FxModule,
+    PortfolioModule,
+    CalendarModule,
+    ObservabilityModule,
+    StreamingModule,
+  ],
+  controllers: [CrawlersController],
+  providers: [TasksService, StreamFeedService],
+  exports: [TasksService],
+})
+export class TasksModule {}
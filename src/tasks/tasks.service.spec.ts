@@ -0,0 +1,285 @@
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Test } from '@nestjs/testing';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { TasksService } from './tasks.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { SinksModule } from '../sinks/sinks.module';
+import { PriceSinkDispatcher } from '../sinks/price-sink.dispatcher';
+import { Quote } from '../sources/price-source.interface';
+import { QuoteRecord } from '../history/price-history.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const VCB: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: '0 0 16 * * *',
+  exchange: 'HOSE',
+  intradaySchedule: '0 */15 * * * *',
+  sinks: [],
+};
+
+const USDT: AssetConfig = {
+  id: 'USDT',
+  source: 'binance-price-page',
+  symbol: 'tether',
+  currency: 'VND',
+  schedule: '0 */10 * * * *',
+  sinks: [],
+};
+
+const PAXG: AssetConfig = {
+  id: 'PAXG',
+  source: 'binance-ticker',
+  symbol: 'PAXGUSDT',
+  currency: 'VND',
+  convertWith: 'USDT',
+  schedule: '0 */10 * * * *',
+  sinks: [],
+};
+
+function createService(
+  assets: AssetConfig[],
+  sinkDispatcher: Pick<PriceSinkDispatcher, 'publish'> = {
+    publish: () => Promise.resolve(),
+  },
+) {
+  const registry = { assets };
+  const schedulerRegistry = new SchedulerRegistry();
+  const latest = new Map<string, Partial<QuoteRecord>>();
+  const fetchQuote = jest.fn(
+    (symbol: string): Promise<Quote> =>
+      Promise.resolve({
+        symbol,
+        price: symbol === 'tether' ? 26400 : 4200,
+        currency: symbol === 'tether' ? 'VND' : 'USDT',
+        timestamp: new Date(),
+        source: 'binance-ticker',
+      }),
+  );
+
+  const service = new TasksService(
+    new ConfigService({}),
+    {
+      getEnabled: () => registry.assets,
+      get: (id: string) => registry.assets.find((asset) => asset.id === id),
+    } as never,
+    schedulerRegistry,
+    { get: () => ({ fetchQuote }) } as never,
+    {
+      getLatest: (id: string) => latest.get(id),
+      record: jest.fn(),
+    } as never,
+    {
+      execute: async (
+        _key: string,
+        task: (signal: AbortSignal) => Promise<unknown>,
+      ) => ({
+        value: await task(new AbortController().signal),
+        attempts: 1,
+      }),
+      getBreakerState: () => ({ state: 'closed' }),
+    } as never,
+    { check: () => null } as never,
+    { add: jest.fn() } as never,
+    sinkDispatcher as never,
+    { evaluate: () => Promise.resolve() } as never,
+    { convert: jest.fn() } as never,
+    { holds: () => false } as never,
+    {
+      isTradingDay: () => true,
+      isInSession: () => true,
+      expectedSessionDate: () => '1970-01-01',
+    } as never,
+    {
+      track: jest.fn(),
+      start: () => ({
+        succeed: (value: number, attempts: number) => ({
+          startedAt: new Date(),
+          durationMs: 0,
+          outcome: 'success',
+          value,
+          attempts,
+        }),
+        fail: ({ error }: { error: unknown }) => ({
+          startedAt: new Date(),
+          durationMs: 0,
+          outcome: 'failure',
+          error: String(error),
+        }),
+      }),
+    } as never,
+  );
+  return { service, registry, schedulerRegistry, latest, fetchQuote };
+}
+
+describe('TasksService', () => {
+  let schedulerRegistry: SchedulerRegistry;
+
+  afterEach(() => {
+    schedulerRegistry?.getCronJobs().forEach((job) => void job.stop());
+  });
+
+  describe('reschedule', () => {
+    it('changes the main and the intraday job', () => {
+      const setup = createService([VCB]);
+      schedulerRegistry = setup.schedulerRegistry;
+      setup.service.reconcile();
+
+      const status = setup.service.reschedule(
+        'VCB',
+        'EVERY_DAY_AT_5PM',
+        'EVERY_5_MINUTES',
+      );
+
+      expect(status.schedule).toBe('0 17 * * *');
+      expect(status.intradaySchedule).toBe('0 */5 * * * *');
+      expect(
+        schedulerRegistry.getCronJob('crawl:VCB:intraday').cronTime.source,
+      ).toBe('0 */5 * * * *');
+    });
+
+    it('rejects an intraday schedule for an asset without one', () => {
+      const setup = createService([USDT]);
+      schedulerRegistry = setup.schedulerRegistry;
+      setup.service.reconcile();
+
+      expect(() =>
+        setup.service.reschedule('USDT', 'EVERY_HOUR', 'EVERY_MINUTE'),
+      ).toThrow('Crawler "USDT" has no intraday schedule to change');
+    });
+
+    it('keeps a paused job paused', async () => {
+      const setup = createService([VCB]);
+      schedulerRegistry = setup.schedulerRegistry;
+      setup.service.reconcile();
+      await setup.service.pause('VCB');
+
+      const status = setup.service.reschedule('VCB', 'EVERY_HOUR');
+
+      expect(status.paused).toBe(true);
+      expect(schedulerRegistry.getCronJob('crawl:VCB').isActive).toBe(false);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('keeps pauses and API schedules when the config schedule changes', async () => {
+      const setup = createService([VCB]);
+      schedulerRegistry = setup.schedulerRegistry;
+      setup.service.reconcile();
+      setup.service.reschedule('VCB', 'EVERY_DAY_AT_5PM', 'EVERY_5_MINUTES');
+      await setup.service.pause('VCB');
+
+      setup.registry.assets = [{ ...VCB, schedule: '0 30 16 * * *' }];
+      setup.service.reconcile();
+
+      const main = schedulerRegistry.getCronJob('crawl:VCB');
+      const intraday = schedulerRegistry.getCronJob('crawl:VCB:intraday');
+      expect(main.cronTime.source).toBe('0 17 * * *');
+      expect(intraday.cronTime.source).toBe('0 */5 * * * *');
+      expect(main.isActive).toBe(false);
+      expect(intraday.isActive).toBe(false);
+    });
+
+    it('forgets runtime state for removed assets', async () => {
+      const setup = createService([VCB]);
+      schedulerRegistry = setup.schedulerRegistry;
+      setup.service.reconcile();
+      await setup.service.pause('VCB');
+
+      setup.registry.assets = [];
+      setup.service.reconcile();
+      setup.registry.assets = [VCB];
+      setup.service.reconcile();
+
+      expect(schedulerRegistry.getCronJob('crawl:VCB').isActive).toBe(true);
+    });
+  });
+
+  describe('conversion rates', () => {
+    it('uses a recent stored value of the convertWith asset', async () => {
+      const setup = createService([USDT, PAXG]);
+      setup.latest.set('USDT', {
+        value: 26000,
+        fetchedAt: new Date(Date.now() - 5 * 60 * 1000),
+      });
+
+      await expect(setup.service.crawlAsset('PAXG')).resolves.toBe(
+        4200 * 26000,
+      );
+      expect(setup.fetchQuote).not.toHaveBeenCalledWith(
+        'tether',
+        'VND',
+        expect.any(AbortSignal),
+      );
+    });
+
+    it('crawls the convertWith asset again once its value is stale', async () => {
+      const setup = createService([USDT, PAXG]);
+      setup.latest.set('USDT', {
+        value: 24000,
+        fetchedAt: new Date(Date.now() - 3 * HOUR_MS),
+      });
+
+      await expect(setup.service.crawlAsset('PAXG')).resolves.toBe(
+        4200 * 26400,
+      );
+      expect(setup.fetchQuote).toHaveBeenCalledWith(
+        'tether',
+        'VND',
+        expect.any(AbortSignal),
+      );
+    });
+  });
+
+  describe('sinks', () => {
+    let stalled: Server;
+
+    afterEach(() => {
+      stalled?.closeAllConnections();
+      stalled?.close();
+    });
+
+    it('finishes the run when a webhook never answers', async () => {
+      // Accepts the request and never responds
+      stalled = createServer(() => undefined);
+      await new Promise<void>((resolve) =>
+        stalled.listen(0, '127.0.0.1', resolve),
+      );
+      const { port } = stalled.address() as AddressInfo;
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          ConfigModule.forRoot({
+            isGlobal: true,
+            ignoreEnvFile: true,
+            load: [() => ({ HTTP_TIMEOUT_MS: '100' })],
+          }),
+          SinksModule,
+        ],
+      }).compile();
+      const setup = createService(
+        [
+          {
+            ...USDT,
+            sinks: [{ type: 'webhook', url: `http://127.0.0.1:${port}/hook` }],
+          },
+        ],
+        moduleRef.get(PriceSinkDispatcher),
+      );
+
+      await expect(setup.service.crawlAsset('USDT')).resolves.toBeUndefined();
+      expect(setup.service.getStatuses()[0]).toMatchObject({
+        running: false,
+        lastOutcome: 'failure',
+      });
+
+      // Not wedged: the next run crawls again
+      await setup.service.crawlAsset('USDT');
+      expect(setup.fetchQuote).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -1,585 +1,499 @@
 import {
+  BadRequestException,
+  ConflictException,
   Injectable,
   Logger,
+  NotFoundException,
   OnApplicationBootstrap,
-  OnModuleDestroy,
 } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
-import puppeteer, { Browser } from 'puppeteer';
-import { google } from 'googleapis';
-
 import { ConfigService } from '@nestjs/config';
-import { firstValueFrom } from 'rxjs';
-import { HttpService } from '@nestjs/axios';
-import { browser } from 'globals';
-import replaceProperty = jest.replaceProperty;
-
-interface DnseResponse {
-  s: string; // Status
-  c: number[]; // Close prices
-  h: number[]; // High prices
-  l: number[]; // Low prices
-  o: number[]; // Open prices
-  t: number[]; // Timestamps
-  v: number[]; // Volume
-}
-
-interface BinanceResponse {
-  symbol: string;
-  price: string;
-}
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { resolveSchedule } from '../assets/schedule';
+import { PriceSourceRegistry } from '../sources/price-source.registry';
+import { PriceHistoryService } from '../history/price-history.service';
+import {
+  breakerKey,
+  ResilienceService,
+} from '../resilience/resilience.service';
+import {
+  CircuitOpenError,
+  RetriesExhaustedError,
+} from '../resilience/resilience.errors';
+import { PriceValidatorService } from '../validation/price-validator.service';
+import { QuarantineService } from '../validation/quarantine.service';
+import { PriceRejectedError } from '../validation/price-rejected.error';
+import { PriceSinkDispatcher } from '../sinks/price-sink.dispatcher';
+import { AlertsService } from '../alerts/alerts.service';
+import { convertWeight } from '../units/price-unit';
+import { FxService } from '../fx/fx.service';
+import { FxConversion } from '../fx/fx.interface';
+import { PortfolioService } from '../portfolio/portfolio.service';
+import { TradingCalendarService } from '../calendar/trading-calendar.service';
+import { StaleQuoteError } from '../calendar/stale-quote.error';
+import { toDateKey } from '../common/date-key';
+import { RunJournalService } from '../observability/run-journal.service';
+import { CrawlRun, RunFailure } from '../observability/crawl-run.interface';
+import { CrawlRunSummary, CrawlStatus } from './crawl-status.interface';
+
+const jobName = (assetId: string) => `crawl:${assetId}`;
+const intradayJobName = (assetId: string) => `crawl:${assetId}:intraday`;
+
+const DEFAULT_CONVERSION_RATE_MAX_AGE_MS = 60 * 60 * 1000;
+
+const schedulesOf = (asset: AssetConfig) =>
+  `${asset.schedule}|${asset.intradaySchedule ?? ''}`;
+
+const outcomeOf = (error: unknown): RunFailure['outcome'] => {
+  if (error instanceof PriceRejectedError) return 'rejected';
+  if (error instanceof StaleQuoteError) return 'stale';
+  return 'failure';
+};
+
+const attemptsOf = (error: unknown): number | undefined => {
+  if (error instanceof RetriesExhaustedError) return error.attempts;
+  if (error instanceof CircuitOpenError) return 0;
+  return undefined;
+};
 
 @Injectable()
-export class TasksService implements OnApplicationBootstrap, OnModuleDestroy {
+export class TasksService implements OnApplicationBootstrap {
   private readonly logger = new Logger(TasksService.name);
-  private browser: Browser | null = null;
+  private readonly running = new Map<string, Promise<number | undefined>>();
+  private readonly statuses = new Map<string, CrawlRunSummary>();
+  // Schedules each registered job was created with, by asset id
+  private readonly scheduled = new Map<string, string>();
+  // Runtime changes made through the API, kept when jobs are re-created
+  private readonly paused = new Set<string>();
+  private readonly overrides = new Map<string, ScheduleOverride>();
+  private readonly rateMaxAgeMs: number;
 
   constructor(
-    private readonly configService: ConfigService,
-    private readonly httpService: HttpService,
-  ) {}
-  async onModuleDestroy() {
-    await this.browser?.close();
+    configService: ConfigService,
+    private readonly assetRegistry: AssetRegistryService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly priceSources: PriceSourceRegistry,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly resilience: ResilienceService,
+    private readonly priceValidator: PriceValidatorService,
+    private readonly quarantine: QuarantineService,
+    private readonly sinkDispatcher: PriceSinkDispatcher,
+    private readonly alertsService: AlertsService,
+    private readonly fxService: FxService,
+    private readonly portfolio: PortfolioService,
+    private readonly calendar: TradingCalendarService,
+    private readonly runJournal: RunJournalService,
+  ) {
+    this.rateMaxAgeMs = Number(
+      configService.get<string>('CONVERSION_RATE_MAX_AGE_MS') ??
+        DEFAULT_CONVERSION_RATE_MAX_AGE_MS,
+    );
   }
 
   async onApplicationBootstrap() {
+    const assets = this.assetRegistry.getEnabled();
+    this.reconcile();
+
     this.logger.log(
       'Application started. Running initial crawlers sequentially...',
     );
 
     // Await them so they don't fight for system resources on startup
-
-    await this.crawlDojiHungThinhVuong9999GoldRingPrice();
-    await this.crawlE1VFVN30Price();
-    await this.crawlVCBPrice();
-    await this.crawlBinancePrice();
+    for (const asset of assets) {
+      await this.crawlAsset(asset.id);
+    }
 
     this.logger.log(
       'Initial crawl complete. Cron schedules will now take over.',
     );
   }
 
-  private async updateSheetCell(sheet: string, cell: string, value: string) {
-    try {
-      const auth = new google.auth.GoogleAuth({
-        scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-      });
-      const sheets = google.sheets({ version: 'v4', auth });
-      const spreadsheetId = this.configService.get<string>('SPREADSHEET_ID');
-
-      await sheets.spreadsheets.values.update({
-        spreadsheetId,
-        range: `${sheet}!${cell}`,
-        valueInputOption: 'USER_ENTERED',
-        requestBody: {
-          values: [[value.replaceAll('.', ',').trim()]],
-        },
-      });
-
-      this.logger.log(`Successfully updated cell ${cell} with value: ${value}`);
-    } catch (error) {
-      this.logger.error(
-        `updateSheetCell Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+  /**
+   * Brings the cron jobs in line with the registry after its assets changed:
+   * new assets get jobs, removed or disabled ones lose them and changed
+   * schedules are re-registered. Returns the ids of newly scheduled assets.
+   */
+  reconcile(): string[] {
+    const enabled = new Map(
+      this.assetRegistry.getEnabled().map((asset) => [asset.id, asset]),
+    );
+    const added: string[] = [];
+
+    for (const [id, schedules] of this.scheduled) {
+      const asset = enabled.get(id);
+      if (asset && schedulesOf(asset) === schedules) continue;
+      for (const name of [jobName(id), intradayJobName(id)]) {
+        if (this.schedulerRegistry.doesExist('cron', name)) {
+          this.schedulerRegistry.deleteCronJob(name);
+        }
+      }
+      this.scheduled.delete(id);
+      if (!asset) {
+        this.paused.delete(id);
+        this.overrides.delete(id);
+        this.logger.log(`Removed crawl job for ${id}`);
+      }
     }
-  }
-  // --- NEW: Helper method to update the Google Sheet ---
-  private async updateGoldCell(buyPrice: string | number) {
-    try {
-      await this.updateSheetCell('Detail', 'E2', buyPrice.toString());
-      this.logger.log(`Successfully updateGoldCell price: ${buyPrice}`);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`updateGoldCell Error: ${error.message}`);
-      } else {
-        this.logger.error(`updateGoldCell Error: ${String(error)}`);
+
+    for (const asset of enabled.values()) {
+      if (this.scheduled.has(asset.id)) continue;
+      if (!this.statuses.has(asset.id) && !this.running.has(asset.id)) {
+        added.push(asset.id);
       }
+      this.registerCrawlJob(asset);
     }
+    return added;
   }
 
-  private async updateE1VFVN30Cell(stockPrice: number | string) {
-    try {
-      await this.updateSheetCell('Detail', 'E18', stockPrice.toString());
-      this.logger.log(`Successfully update E1VFVN30Cell price: ${stockPrice}`);
-    } catch (error) {
-      this.logger.error(
-        `updateE1VFVN30Cell Error: ${error instanceof Error ? error.message : String(error)}`,
+  // An API reschedule or pause outlives the job being re-created
+  private registerCrawlJob(asset: AssetConfig) {
+    this.scheduled.set(asset.id, schedulesOf(asset));
+    this.runJournal.track(asset.id);
+    const override = this.overrides.get(asset.id);
+    const paused = this.paused.has(asset.id);
+
+    const schedule = override?.schedule ?? asset.schedule;
+    const job = CronJob.from({
+      cronTime: schedule,
+      onTick: () => this.onTick(asset.id, false),
+    });
+    this.schedulerRegistry.addCronJob(jobName(asset.id), job);
+    if (!paused) job.start();
+    this.logger.log(
+      `Scheduled crawl for ${asset.id} at "${schedule}"${paused ? ' (paused)' : ''}`,
+    );
+
+    if (asset.intradaySchedule) {
+      const intradaySchedule =
+        override?.intradaySchedule ?? asset.intradaySchedule;
+      const intraday = CronJob.from({
+        cronTime: intradaySchedule,
+        onTick: () => this.onTick(asset.id, true),
+      });
+      this.schedulerRegistry.addCronJob(intradayJobName(asset.id), intraday);
+      if (!paused) intraday.start();
+      this.logger.log(
+        `Scheduled intraday crawl for ${asset.id} at "${intradaySchedule}" during ${asset.exchange} sessions`,
       );
     }
   }
 
-  private async updateVCBCell(stockPrice: number | string) {
-    try {
-      await this.updateSheetCell('Detail', 'E19', stockPrice.toString());
-      this.logger.log(`Successfully update VCBCell price: ${stockPrice}`);
-    } catch (error) {
-      this.logger.error(
-        `updateVCBCell Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+  // Market assets only crawl on trading days, intraday polls only in session
+  private onTick(id: string, intraday: boolean) {
+    // Looked up per tick, the sheet sync may have changed the asset
+    const asset = this.assetRegistry.get(id);
+    if (!asset) return;
+    if (asset.exchange) {
+      if (intraday && !this.calendar.isInSession(asset.exchange)) return;
+      if (!this.calendar.isTradingDay(asset.exchange)) {
+        this.logger.log(
+          `Skipping ${asset.id}, ${asset.exchange} is not trading today`,
+        );
+        return;
+      }
     }
+    void this.crawlAsset(asset.id);
   }
 
-  private async updateUSDTCell(price: number | string) {
-    try {
-      await this.updateSheetCell('Detail', 'C9', price.toString());
-      this.logger.log(`Successfully update USDTCell price: ${price}`);
-    } catch (error) {
-      this.logger.error(
-        `updateUSDTCell Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+  // Concurrent calls for the same asset share a single run.
+  crawlAsset(id: string): Promise<number | undefined> {
+    const inFlight = this.running.get(id);
+    if (inFlight) {
+      return inFlight;
     }
-  }
 
-  private async updatePaxGoldCell(stockPrice: number | string) {
-    try {
-      await this.updateSheetCell('Detail', 'C10', stockPrice.toString());
-      this.logger.log(`Successfully update PAXGCell price: ${stockPrice}`);
-    } catch (error) {
-      this.logger.error(
-        `updatePaxGoldCell Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+    const asset = this.assetRegistry.get(id);
+    if (!asset) {
+      this.logger.error(`Failed to crawl ${id}: unknown asset`);
+      return Promise.resolve(undefined);
     }
+
+    const run = this.runCrawl(asset).finally(() => this.running.delete(id));
+    this.running.set(id, run);
+    return run;
   }
 
-  private async updateBTCCell(stockPrice: number | string) {
-    try {
-      await this.updateSheetCell('Detail', 'C11', stockPrice.toString());
-      this.logger.log(`Successfully update BTCCell price: ${stockPrice}`);
-    } catch (error) {
-      this.logger.error(
-        `updateBTCCell Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+  /** Manual run; rejected while a scheduled or manual run is in progress. */
+  async runNow(id: string): Promise<CrawlStatus> {
+    const asset = this.getEnabledAsset(id);
+    if (this.running.has(id)) {
+      throw new ConflictException(`Crawler "${id}" is already running`);
     }
+    await this.crawlAsset(id);
+    return this.getStatus(asset);
   }
 
-  private async getBrowser(): Promise<Browser> {
-    try {
-      this.browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-        ],
-      });
-      return this.browser;
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to getBrowser: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to getBrowser: ${String(error)}`);
+  /** Runs every crawler one after another, skipping those already running. */
+  async runAll(): Promise<CrawlStatus[]> {
+    for (const asset of this.assetRegistry.getEnabled()) {
+      if (this.running.has(asset.id)) {
+        this.logger.warn(`Skipping ${asset.id}, a run is already in progress`);
+        continue;
       }
-      throw error;
+      await this.crawlAsset(asset.id);
     }
+    return this.getStatuses();
   }
 
-  @Cron(CronExpression.EVERY_3_HOURS)
-  async crawlDojiHungThinhVuong9999GoldRingPrice() {
-    let browser: Browser | null = null;
-    try {
-      const start = process.hrtime.bigint();
-      this.logger.log('Launching crawler for DOJI...');
-
-      browser = await puppeteer.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
-      });
-
-      const page = await browser.newPage();
-
-      await page.goto('https://giavang.org/trong-nuoc/doji/', {
-        waitUntil: 'domcontentloaded',
-        timeout: 60000,
-      });
-
-      // 1. Wait specifically for the gold-price-box to render
-      await page
-        .waitForSelector('.gold-price-box h2', { timeout: 60000 })
-        .catch(() => {
-          this.logger.warn('Timeout waiting for .gold-price-box to appear.');
-        });
-
-      // 2. Optimized DOM evaluation
-      const goldData = await page.evaluate(() => {
-        let buyPrice: string | null = null;
-
-        // Target only the headers instead of every element on the page
-        const headers = document.querySelectorAll('.gold-price-box h2');
-
-        for (const h2 of Array.from(headers)) {
-          // Find the specific section for Gold Rings
-          if (h2.textContent?.includes('Giá vàng Nhẫn')) {
-            // The screenshot shows the price row is the immediate next sibling
-            const priceRow = h2.nextElementSibling;
-            if (!priceRow || !priceRow.classList.contains('row')) continue;
-
-            // Find the "Mua vào" label inside this specific row
-            const labels = priceRow.querySelectorAll('.gold-price-label');
-            for (const label of Array.from(labels)) {
-              if (label.textContent?.toUpperCase().includes('MUA VÀO')) {
-                // The actual price is in the next span with class 'gold-price'
-                const priceElement = label.nextElementSibling;
-                if (
-                  priceElement &&
-                  priceElement.classList.contains('gold-price')
-                ) {
-                  // Extract just the number (e.g., from "183.800 ")
-                  const text = priceElement.textContent || '';
-                  const match = text.match(/([\d.,]+)/);
-                  if (match) {
-                    buyPrice = match[1];
-                    return { buyPrice };
-                  }
-                }
-              }
-            }
-          }
-        }
-
-        return { buyPrice };
-      });
-
-      if (goldData.buyPrice) {
-        // Clean the string (e.g., "183.800" -> "183800")
-        goldData.buyPrice = goldData.buyPrice
-          .replace(/,/g, '')
-          .replaceAll('.', '');
-        goldData.buyPrice += '00';
-        this.logger.log(`Found Buy Price: ${goldData.buyPrice}`);
-
-        // Trigger the sheet update
-        await this.updateGoldCell(goldData.buyPrice);
-      } else {
-        this.logger.warn(
-          'Could not locate the Giá vàng Nhẫn or MUA VÀO value on the page.',
-        );
-      }
-
-      const end = process.hrtime.bigint();
-      const durationMs = Number(end - start) / 1_000_000;
-      this.logger.log(
-        `Crawl Doji Hung Thinh Vuong 9999 Gold Ring Price took ${durationMs.toFixed(2)}ms`,
-      );
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl DOJI: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl DOJI: ${String(error)}`);
-      }
-    } finally {
-      if (browser) {
-        await browser.close();
-      }
+  async pause(id: string): Promise<CrawlStatus> {
+    const asset = this.getEnabledAsset(id);
+    for (const job of this.getJobs(id)) {
+      await job.stop();
     }
+    this.paused.add(id);
+    this.logger.log(`Paused crawl for ${id}`);
+    return this.getStatus(asset);
   }
 
-  @Cron(CronExpression.EVERY_DAY_AT_4PM)
-  async crawlE1VFVN30Price() {
-    try {
-      const start = process.hrtime.bigint();
-      this.logger.log('Fetching E1VFVN30 price via DNSE API...');
-
-      // 1. Generate UNIX timestamps for the last 7 days to today
-      const toTime = Math.floor(Date.now() / 1000);
-      const fromTime = toTime - 10 * 24 * 60 * 60;
-
-      // 2. Using the DNSE (Entrade) public chart API
-      const apiUrl = `https://services.entrade.com.vn/chart-api/v2/ohlcs/stock?resolution=1D&symbol=E1VFVN30&from=${fromTime}&to=${toTime}`;
+  resume(id: string): CrawlStatus {
+    const asset = this.getEnabledAsset(id);
+    this.getJobs(id).forEach((job) => job.start());
+    this.paused.delete(id);
+    this.logger.log(`Resumed crawl for ${id}`);
+    return this.getStatus(asset);
+  }
 
-      const response = await firstValueFrom(
-        this.httpService.get<DnseResponse>(apiUrl),
+  /**
+   * Changes the cron expressions until the next restart; config is
+   * untouched. `intradaySchedule` only applies to assets with an intraday job.
+   */
+  reschedule(
+    id: string,
+    schedule: string,
+    intradaySchedule?: string,
+  ): CrawlStatus {
+    const asset = this.getEnabledAsset(id);
+    if (intradaySchedule !== undefined && !asset.intradaySchedule) {
+      throw new BadRequestException(
+        `Crawler "${id}" has no intraday schedule to change`,
       );
-      if (!response) {
-        this.logger.error('Failed to crawl E1VFVN30Price, response is empty');
-        return;
-      }
-
-      if (!response.data) {
-        this.logger.error(
-          'Failed to crawl E1VFVN30Price, response data is empty',
-        );
-        return;
-      }
-      if (!response.data.c || response.data.c.length === 0) {
-        this.logger.error(
-          'Failed to crawl E1VFVN30Price, no close prices found',
-        );
-        return;
-      }
-
-      const closePrices = response.data.c;
-
-      // Grab the very last closing price in the array (the most current one)
-      let rawStockPrice = closePrices[closePrices.length - 1];
-
-      // Safety check: Some APIs return 36 instead of 36000.
-      // If it's the smaller format, we multiply by 1000 to match your Google Sheet.
-      if (rawStockPrice < 1000) {
-        rawStockPrice = Math.round(rawStockPrice * 1000);
-      }
-
-      this.logger.log(`Found E1VFVN30 Price: ${rawStockPrice}`);
-
-      // Trigger the sheet update for column F3
-      await this.updateE1VFVN30Cell(rawStockPrice);
-      const end = process.hrtime.bigint();
-      const durationMs = Number(end - start) / 1_000_000;
-      this.logger.log(`Crawl E1VFVN30 Price took ${durationMs.toFixed(2)}ms`);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl E1VFVN30Price: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl E1VFVN30Price: ${String(error)}`);
-      }
     }
+    const override: ScheduleOverride = {
+      ...this.overrides.get(id),
+      schedule: toExpression(schedule),
+    };
+    if (intradaySchedule !== undefined) {
+      override.intradaySchedule = toExpression(intradaySchedule);
+    }
+    this.overrides.set(id, override);
+
+    // setTime only restarts jobs that were running, so pauses hold
+    this.getJob(id).setTime(new CronTime(override.schedule));
+    if (asset.intradaySchedule && override.intradaySchedule) {
+      this.schedulerRegistry
+        .getCronJob(intradayJobName(id))
+        .setTime(new CronTime(override.intradaySchedule));
+    }
+    this.logger.log(
+      `Rescheduled crawl for ${id} at "${override.schedule}"${override.intradaySchedule ? `, intraday at "${override.intradaySchedule}"` : ''}`,
+    );
+    return this.getStatus(asset);
   }
 
-  @Cron(CronExpression.EVERY_DAY_AT_4PM)
-  async crawlVCBPrice() {
-    try {
-      const start = process.hrtime.bigint();
-      this.logger.log('Fetching VCB price via DNSE API...');
-
-      // 1. Generate UNIX timestamps for the last 7 days to today
-      const toTime = Math.floor(Date.now() / 1000);
-      const fromTime = toTime - 10 * 24 * 60 * 60;
-
-      // 2. Using the DNSE (Entrade) public chart API
-      const apiUrl = `https://services.entrade.com.vn/chart-api/v2/ohlcs/stock?resolution=1D&symbol=VCB&from=${fromTime}&to=${toTime}`;
-
-      const response = await firstValueFrom(
-        this.httpService.get<DnseResponse>(apiUrl),
-      );
-      if (!response) {
-        this.logger.error('Failed to crawlVCBPrice, response is empty');
-        return;
-      }
-
-      if (!response.data) {
-        this.logger.error('Failed to crawlVCBPrice, response data is empty');
-        return;
-      }
-      if (!response.data.c || response.data.c.length === 0) {
-        this.logger.error('Failed to crawlVCBPrice, no close prices found');
-        return;
-      }
-
-      const closePrices = response.data.c;
-
-      // Grab the very last closing price in the array (the most current one)
-      let rawStockPrice = closePrices[closePrices.length - 1];
-
-      // Safety check: Some APIs return 36 instead of 36000.
-      // If it's the smaller format, we multiply by 1000 to match your Google Sheet.
-      if (rawStockPrice < 1000) {
-        rawStockPrice = Math.round(rawStockPrice * 1000);
-      }
+  getStatuses(): CrawlStatus[] {
+    return this.assetRegistry
+      .getEnabled()
+      .map((asset) => this.getStatus(asset));
+  }
 
-      this.logger.log(`Found VCB Price: ${rawStockPrice}`);
+  getStatus(asset: AssetConfig): CrawlStatus {
+    const job = this.schedulerRegistry.doesExist('cron', jobName(asset.id))
+      ? this.schedulerRegistry.getCronJob(jobName(asset.id))
+      : undefined;
+    const source = job?.cronTime.source;
+    return {
+      id: asset.id,
+      schedule: typeof source === 'string' ? source : asset.schedule,
+      intradaySchedule:
+        this.overrides.get(asset.id)?.intradaySchedule ??
+        asset.intradaySchedule,
+      running: this.running.has(asset.id),
+      paused: !job?.isActive,
+      breaker: this.resilience.getBreakerState(
+        breakerKey(asset.source, asset.symbol),
+      ),
+      nextRunAt: job?.isActive ? job.nextDate().toJSDate() : undefined,
+      ...this.statuses.get(asset.id),
+    };
+  }
 
-      // Trigger the sheet update for column F3
-      await this.updateVCBCell(rawStockPrice);
-      const end = process.hrtime.bigint();
-      const durationMs = Number(end - start) / 1_000_000;
-      this.logger.log(`Crawl VCB Price took ${durationMs.toFixed(2)}ms`);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl VCB Price: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl VCB Price: ${String(error)}`);
-      }
+  /** Most recent runs first, across every crawler unless `id` is given. */
+  getRuns(id?: string, limit?: number): CrawlRun[] {
+    if (id) {
+      this.getEnabledAsset(id);
     }
+    return this.runJournal.list(id, limit);
   }
 
-  @Cron(CronExpression.EVERY_10_MINUTES)
-  async crawlBinancePrice() {
-    try {
-      const usdtToVndPrice = await this.crawlUSDTPrice();
-      if (!usdtToVndPrice) {
-        this.logger.error(
-          'Could not crawl USDT price because VND price is undefined, skipping Binance crawl.',
-        );
-        return;
-      }
-      await this.crawlPAXGPrice(usdtToVndPrice);
-      await this.crawlBTCPrice(usdtToVndPrice);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl Binance: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl Binance: ${String(error)}`);
-      }
+  private getEnabledAsset(id: string): AssetConfig {
+    const asset = this.assetRegistry.get(id);
+    if (!asset || asset.enabled === false) {
+      throw new NotFoundException(`Unknown crawler "${id}"`);
     }
+    return asset;
   }
 
-  async crawlPAXGPrice(vndPrice: number) {
-    try {
-      const start = process.hrtime.bigint();
-      this.logger.log('Launching crawler for Binance PAXG...');
-      const apiUrl = `https://api.binance.com/api/v3/ticker/price?symbol=PAXGUSDT`;
-
-      const response = await firstValueFrom(
-        this.httpService.get<BinanceResponse>(apiUrl),
-      );
-      if (!response) {
-        this.logger.error('Failed to crawl Binance PAXG, response is empty');
-        return;
-      }
-
-      if (!response.data) {
-        this.logger.error(
-          'Failed to crawl Binance PAXG, response data is empty',
-        );
-        return;
-      }
-
-      const priceText = Number(response.data.price) * vndPrice;
-      if (priceText) {
-        this.logger.log(`Found PAXG Price : ${priceText}`);
-
-        await this.updatePaxGoldCell(priceText);
-      } else {
-        this.logger.warn('Could not locate PAXG price on the page.');
-      }
-      const end = process.hrtime.bigint();
-      const durationMs = Number(end - start) / 1_000_000;
-      this.logger.log(`Crawl PAXG Price took ${durationMs.toFixed(2)}ms`);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl PAXG: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl PAXG: ${String(error)}`);
-      }
-    }
+  private getJob(id: string): CronJob {
+    return this.schedulerRegistry.getCronJob(jobName(id));
   }
 
-  async crawlUSDTPrice() {
-    const browser = await this.getBrowser();
-    const page = await browser.newPage();
-    try {
-      const start = process.hrtime.bigint();
-      this.logger.log('Launching crawler for Binance USDT...');
+  private getJobs(id: string): CronJob[] {
+    return [jobName(id), intradayJobName(id)]
+      .filter((name) => this.schedulerRegistry.doesExist('cron', name))
+      .map((name) => this.schedulerRegistry.getCronJob(name));
+  }
 
-      await page.setUserAgent(
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-      );
+  private async runCrawl(asset: AssetConfig): Promise<number | undefined> {
+    const journal = this.runJournal.start(asset.id);
+    const previous = this.statuses.get(asset.id);
 
-      await page.goto('https://www.binance.com/vi/price/tether/VND', {
-        waitUntil: 'domcontentloaded',
-        timeout: 60000,
+    try {
+      this.logger.log(`Crawling ${asset.id} via ${asset.source}...`);
+      const { price, attempts } = await this.crawl(asset);
+
+      const run = journal.succeed(price, attempts);
+      this.statuses.set(asset.id, {
+        ...previous,
+        lastRunAt: run.startedAt,
+        lastDurationMs: run.durationMs,
+        lastOutcome: run.outcome,
+        lastAttempts: run.attempts,
+        lastValue: price,
+        lastSuccessAt: run.startedAt,
       });
-      await page.waitForFunction(() => {
-        return Array.from(document.querySelectorAll('span')).some((el) =>
-          el.innerText.includes('VND'),
-        );
+      return price;
+    } catch (error) {
+      const run = journal.fail({
+        outcome: outcomeOf(error),
+        error,
+        attempts: attemptsOf(error),
       });
-      const priceText = await page.evaluate(() => {
-        const spans = Array.from(document.querySelectorAll('span'));
-
-        // Example text: "₫25,990.10 VND"
-        const priceSpan = spans.find(
-          (el) => /VND/.test(el.innerText) && /₫/.test(el.innerText),
-        );
-
-        if (!priceSpan) return null;
-
-        // Extract number
-        return Number(
-          priceSpan.innerText
-            .replace(/[₫,]/g, '')
-            .replace('VND', '')
-            .trim()
-            .split('=')[1]
-            .trim(),
-        );
+      this.logger.error(`Failed to crawl ${asset.id}: ${run.error}`);
+      this.statuses.set(asset.id, {
+        ...previous,
+        lastRunAt: run.startedAt,
+        lastDurationMs: run.durationMs,
+        lastOutcome: run.outcome,
+        lastAttempts: run.attempts,
+        lastError: run.error,
       });
-
-      if (priceText) {
-        this.logger.log(`Found USDT Price: ${priceText}`);
-
-        await this.updateUSDTCell(priceText);
-      } else {
-        this.logger.warn('Could not locate USDT price on the page.');
-      }
-      const end = process.hrtime.bigint();
-      const durationMs = Number(end - start) / 1_000_000;
-      this.logger.log(`Crawl USDT Price took ${durationMs.toFixed(2)}ms`);
-      return priceText;
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl USDT: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl USDT: ${String(error)}`);
-      }
-    } finally {
-      await page?.close();
-      await browser?.close();
     }
   }
 
-  async crawlBTCPrice(vndPrice: number) {
-    try {
-      const start = process.hrtime.bigint();
-      this.logger.log('Launching crawler for Binance BTC...');
-      const apiUrl = `https://api.binance.com/api/v3/ticker/price?symbol=BTCUSDT`;
-
-      const response = await firstValueFrom(
-        this.httpService.get<BinanceResponse>(apiUrl),
+  private async crawl(
+    asset: AssetConfig,
+  ): Promise<{ price: number; attempts: number }> {
+    const source = this.priceSources.get(asset.source);
+    const { value: quote, attempts } = await this.resilience.execute(
+      breakerKey(asset.source, asset.symbol),
+      (signal) => source.fetchQuote(asset.symbol, asset.currency, signal),
+    );
+    // The close has to come from the session we expect, not an older one
+    if (asset.exchange) {
+      const expected = this.calendar.expectedSessionDate(
+        asset.exchange,
+        asset.intradaySchedule !== undefined,
       );
-      if (!response) {
-        this.logger.error('Failed to crawl Binance BTC, response is empty');
-        return;
+      const actual = toDateKey(quote.timestamp);
+      if (actual < expected) {
+        throw new StaleQuoteError(asset.id, actual, expected);
       }
+    }
 
-      if (!response.data) {
-        this.logger.error(
-          'Failed to crawl Binance BTC, response data is empty',
-        );
-        return;
-      }
+    // A quote per lượng becomes a value per chỉ when the asset asks for it
+    let price = asset.per
+      ? convertWeight(quote.price, quote.per, asset.per)
+      : quote.price;
 
-      const priceText = Number(response.data.price) * vndPrice;
+    let fx: FxConversion | undefined;
+    if (quote.currency !== asset.currency) {
+      fx = await this.convert(asset, price, quote.currency);
+      price = fx.value;
+    }
 
-      if (priceText) {
-        this.logger.log(`Found BTC Price : ${priceText}`);
+    const reason = this.priceValidator.check(asset, price);
+    if (reason) {
+      this.quarantine.add(asset, quote, price, reason);
+      throw new PriceRejectedError(asset.id, price, reason);
+    }
 
-        await this.updateBTCCell(priceText);
-      } else {
-        this.logger.warn('Could not locate BTC price on the page.');
-      }
-      const end = process.hrtime.bigint();
-      const durationMs = Number(end - start) / 1_000_000;
-      this.logger.log(`Crawl BTC Price took ${durationMs.toFixed(2)}ms`);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to crawl BTC: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to crawl BTC: ${String(error)}`);
-      }
+    this.logger.log(`Found ${asset.id} Price: ${price}`);
+    const previous = this.priceHistory.getLatest(asset.id)?.value;
+    this.priceHistory.record(asset, quote, price, fx);
+    await this.alertsService.evaluate(asset, price, previous);
+    // Net worth history only moves when a held asset gets a new price
+    if (this.portfolio.holds(asset.id)) {
+      await this.portfolio.snapshot();
     }
+
+    await this.sinkDispatcher.publish({
+      asset,
+      quote,
+      value: price,
+      recordedAt: new Date(),
+    });
+    return { price, attempts };
   }
 
-  @Cron(CronExpression.EVERY_5_MINUTES)
-  async checkHealth() {
-    try {
-      this.logger.log('Checking health...');
-      const response = await firstValueFrom(
-        this.httpService.get<string>('https://asset-crawler.onrender.com/ping'),
-      );
-      if (!response) {
-        throw new Error('response is empty');
-      }
-      if (!response.data) {
-        throw new Error('response data is empty');
-      }
-      this.logger.log(`Health check successful. Response: ${response.data}`);
-    } catch (error) {
-      if (error instanceof Error) {
-        this.logger.error(`Failed to check health: ${error.message}`);
-      } else {
-        this.logger.error(`Failed to check health: ${String(error)}`);
+  /**
+   * Uses the `convertWith` asset's price when there is one, and falls back
+   * to FX rates when that asset has no value, so a failed USDT scrape does
+   * not take every crypto price down with it.
+   */
+  private async convert(
+    asset: AssetConfig,
+    amount: number,
+    from: string,
+  ): Promise<FxConversion> {
+    if (asset.convertWith) {
+      const rate = await this.resolveRate(asset.convertWith);
+      if (rate) {
+        return {
+          value: amount * rate,
+          rate,
+          source: `asset:${asset.convertWith}`,
+          path: [from, asset.currency],
+          asOf: new Date(),
+        };
       }
+      this.logger.warn(
+        `No ${asset.convertWith} price, converting ${asset.id} with FX rates instead`,
+      );
+    }
+    return this.fxService.convert(amount, from, asset.currency);
+  }
+
+  // Prefer a run already in progress, then a recent stored value, and
+  // crawl the rate asset again once that is older than the max age.
+  private async resolveRate(id: string): Promise<number | undefined> {
+    const inFlight = this.running.get(id);
+    if (inFlight) {
+      return inFlight;
+    }
+    const latest = this.priceHistory.getLatest(id);
+    if (
+      latest &&
+      Date.now() - latest.fetchedAt.getTime() <= this.rateMaxAgeMs
+    ) {
+      return latest.value;
     }
+    return this.crawlAsset(id);
+  }
+}
+
+interface ScheduleOverride {
+  schedule: string;
+  intradaySchedule?: string;
+}
+
+function toExpression(schedule: string): string {
+  try {
+    return resolveSchedule(schedule);
+  } catch (error) {
+    throw new BadRequestException(
+      error instanceof Error ? error.message : String(error),
+    );
   }
 }
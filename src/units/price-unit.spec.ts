@@ -0,0 +1,83 @@
+import {
+  convertWeight,
+  formatUnit,
+  isWeightUnit,
+  parsePriceUnit,
+  toCanonical,
+} from './price-unit';
+
+describe('parsePriceUnit', () => {
+  it.each([
+    ['VND', { scale: 1, currency: 'VND', per: undefined }],
+    ['nghìn đồng', { scale: 1e3, currency: 'VND', per: undefined }],
+    ['triệu/lượng', { scale: 1e6, currency: 'VND', per: 'lượng' }],
+    ['Nghìn  đồng / Chỉ', { scale: 1e3, currency: 'VND', per: 'chỉ' }],
+    ['USD/troy ounce', { scale: 1, currency: 'USD', per: 'troy-ounce' }],
+    ['USD/oz', { scale: 1, currency: 'USD', per: 'troy-ounce' }],
+    ['đ/cây', { scale: 1, currency: 'VND', per: 'lượng' }],
+  ])('reads %s', (text, expected) => {
+    expect(parsePriceUnit(text)).toEqual(expected);
+  });
+
+  it('reads decomposed Vietnamese text', () => {
+    expect(parsePriceUnit('nghìn đồng/lượng'.normalize('NFD'))).toEqual({
+      scale: 1e3,
+      currency: 'VND',
+      per: 'lượng',
+    });
+  });
+
+  it('rejects unknown amounts and weights', () => {
+    expect(() => parsePriceUnit('trăm đồng')).toThrow(
+      'Unknown price unit "trăm đồng"',
+    );
+    expect(() => parsePriceUnit('USD/kg')).toThrow(
+      'Unknown weight unit "kg" in "USD/kg"',
+    );
+    expect(() => parsePriceUnit('VND/chỉ/ngày')).toThrow(
+      'Unknown price unit "VND/chỉ/ngày"',
+    );
+  });
+});
+
+describe('toCanonical', () => {
+  it('scales the amount to whole currency units', () => {
+    expect(toCanonical(183.8, 'triệu/lượng')).toEqual({
+      value: 183800000,
+      currency: 'VND',
+      per: 'lượng',
+    });
+    expect(toCanonical(26, 'nghìn đồng')).toEqual({
+      value: 26000,
+      currency: 'VND',
+      per: undefined,
+    });
+  });
+});
+
+describe('convertWeight', () => {
+  it('re-expresses a price per another weight', () => {
+    expect(convertWeight(146800000, 'lượng', 'chỉ')).toBe(14680000);
+    expect(convertWeight(14680000, 'chỉ', 'lượng')).toBe(146800000);
+    expect(convertWeight(31.1034768, 'troy-ounce', 'gram')).toBeCloseTo(1);
+    expect(convertWeight(64600, undefined, undefined)).toBe(64600);
+  });
+
+  it('refuses to mix a price per weight with one that is not', () => {
+    expect(() => convertWeight(1, 'lượng', undefined)).toThrow(
+      'Cannot convert a price per lượng to a price per unit',
+    );
+  });
+});
+
+describe('isWeightUnit and formatUnit', () => {
+  it('only knows canonical weight names', () => {
+    expect(isWeightUnit('troy-ounce')).toBe(true);
+    expect(isWeightUnit('oz')).toBe(false);
+  });
+
+  it('formats a unit as currency/weight', () => {
+    expect(formatUnit({ currency: 'VND', per: 'lượng' })).toBe('VND/lượng');
+    expect(formatUnit({ currency: 'USD' })).toBe('USD');
+  });
+});
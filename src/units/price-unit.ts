@@ -0,0 +1,119 @@
+// Grams per unit. 1 lượng (cây) = 10 chỉ = 37.5 g.
+export const WEIGHT_UNITS = {
+  chỉ: 3.75,
+  lượng: 37.5,
+  'troy-ounce': 31.1034768,
+  gram: 1,
+} as const;
+
+export type WeightUnit = keyof typeof WEIGHT_UNITS;
+
+const WEIGHT_ALIASES: Record<string, WeightUnit> = {
+  chỉ: 'chỉ',
+  chi: 'chỉ',
+  lượng: 'lượng',
+  luong: 'lượng',
+  cây: 'lượng',
+  'troy-ounce': 'troy-ounce',
+  'troy ounce': 'troy-ounce',
+  'troy oz': 'troy-ounce',
+  ozt: 'troy-ounce',
+  oz: 'troy-ounce',
+  gram: 'gram',
+  g: 'gram',
+};
+
+// Vietnamese amount words; all of them imply VND
+const VND_SCALES: Record<string, number> = {
+  đồng: 1,
+  đ: 1,
+  '₫': 1,
+  vnd: 1,
+  vnđ: 1,
+  nghìn: 1e3,
+  ngàn: 1e3,
+  'nghìn đồng': 1e3,
+  'ngàn đồng': 1e3,
+  triệu: 1e6,
+  'triệu đồng': 1e6,
+  tr: 1e6,
+  tỷ: 1e9,
+  'tỷ đồng': 1e9,
+};
+
+/** What a printed price is counted in, e.g. "nghìn đồng/lượng". */
+export interface PriceUnit {
+  scale: number; // Multiplier to whole currency units
+  currency: string;
+  per?: WeightUnit;
+}
+
+export interface CanonicalPrice {
+  value: number; // In whole currency units, per `per` when set
+  currency: string;
+  per?: WeightUnit;
+}
+
+/**
+ * Understands "VND", "nghìn đồng", "triệu/lượng", "USD/troy ounce",
+ * "nghìn đồng/chỉ" and similar. Throws on anything else.
+ */
+export function parsePriceUnit(text: string): PriceUnit {
+  const [amount, weight, ...rest] = text
+    .normalize('NFC')
+    .toLowerCase()
+    .split('/')
+    .map((part) => part.trim().replace(/\s+/g, ' '));
+  if (rest.length > 0 || !amount) {
+    throw new Error(`Unknown price unit "${text}"`);
+  }
+
+  let per: WeightUnit | undefined;
+  if (weight !== undefined) {
+    per = WEIGHT_ALIASES[weight];
+    if (!per) {
+      throw new Error(`Unknown weight unit "${weight}" in "${text}"`);
+    }
+  }
+
+  const scale = VND_SCALES[amount];
+  if (scale !== undefined) {
+    return { scale, currency: 'VND', per };
+  }
+  if (/^[a-z]{3,5}$/.test(amount)) {
+    return { scale: 1, currency: amount.toUpperCase(), per };
+  }
+  throw new Error(`Unknown price unit "${text}"`);
+}
+
+/** Scales a printed amount to whole currency units, e.g. 183.8 triệu → 183800000. */
+export function toCanonical(amount: number, unit: string): CanonicalPrice {
+  const { scale, currency, per } = parsePriceUnit(unit);
+  return { value: amount * scale, currency, per };
+}
+
+/**
+ * Re-expresses a price per `from` weight as a price per `to` weight, e.g.
+ * VND/lượng → VND/chỉ divides by 10. Both or neither must be set.
+ */
+export function convertWeight(
+  value: number,
+  from: WeightUnit | undefined,
+  to: WeightUnit | undefined,
+): number {
+  if (from === to) return value;
+  if (!from || !to) {
+    throw new Error(
+      `Cannot convert a price per ${from ?? 'unit'} to a price per ${to ?? 'unit'}`,
+    );
+  }
+  return (value * WEIGHT_UNITS[to]) / WEIGHT_UNITS[from];
+}
+
+export function isWeightUnit(unit: string): unit is WeightUnit {
+  return Object.hasOwn(WEIGHT_UNITS, unit);
+}
+
+export function formatUnit({ currency, per }: Omit<PriceUnit, 'scale'>) {
+  return per ? `${currency}/${per}` : currency;
+}
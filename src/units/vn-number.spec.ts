@@ -0,0 +1,81 @@
+import { formatNumber, parseNumber } from './vn-number';
+
+describe('parseNumber', () => {
+  it.each([
+    ['1.234.567', 'vi-VN', 1234567],
+    ['1,234,567.89', 'en-US', 1234567.89],
+    ['1.234.567,89', 'en-US', 1234567.89],
+    ['25.990,10', 'vi-VN', 25990.1],
+    ['183.800', 'vi-VN', 183800],
+    ['57.5', 'en-US', 57.5],
+  ] as const)('reads %s as a %s number', (text, locale, expected) => {
+    expect(parseNumber(text, locale)).toBe(expected);
+  });
+
+  it.each([
+    ['1,234,567', 'vi-VN', 1234567],
+    ['1.234.567', 'en-US', 1234567],
+    ['1,234', 'vi-VN', 1.234],
+  ] as const)(
+    'reads a repeated %s separator in %s as grouping',
+    (text, locale, expected) => {
+      expect(parseNumber(text, locale)).toBe(expected);
+    },
+  );
+
+  it.each([
+    ['₫26,412.35', 'en-US', 26412.35],
+    ['26,412.35 VND', 'en-US', 26412.35],
+    ['25.990.000 VNĐ', 'vi-VN', 25990000],
+    ['25.990.000đ', 'vi-VN', 25990000],
+  ] as const)('strips the currency marker in %s', (text, locale, expected) => {
+    expect(parseNumber(text, locale)).toBe(expected);
+  });
+
+  it.each([
+    ['-1.250', -1250],
+    ['−1.250', -1250],
+  ])('keeps the sign of %s', (text, expected) => {
+    expect(parseNumber(text, 'vi-VN')).toBe(expected);
+  });
+
+  it('groups thousands with spaces and no-break spaces', () => {
+    expect(parseNumber('1 234,5 đ', 'vi-VN')).toBe(1234.5);
+    expect(parseNumber('1 234 567', 'vi-VN')).toBe(1234567);
+  });
+
+  it('takes only the first of two numbers separated by a space', () => {
+    expect(parseNumber('183.800 185.300', 'vi-VN')).toBe(183800);
+    expect(parseNumber('Mua 146.800 Bán 148.800', 'vi-VN')).toBe(146800);
+    expect(parseNumber('12 3456', 'vi-VN')).toBe(12);
+  });
+
+  it('throws when there is no number', () => {
+    expect(() => parseNumber('Đang cập nhật', 'vi-VN')).toThrow(
+      'No number in "Đang cập nhật"',
+    );
+  });
+});
+
+describe('formatNumber', () => {
+  it('writes plain numbers with the locale decimal separator', () => {
+    expect(formatNumber(1234567.5, 'vi-VN')).toBe('1234567,5');
+    expect(formatNumber(1234567.5, 'en-US')).toBe('1234567.5');
+  });
+
+  it('groups thousands on request', () => {
+    expect(formatNumber(1234567.5, 'vi-VN', { grouping: true })).toBe(
+      '1.234.567,5',
+    );
+    expect(formatNumber(1234567.5, 'en-US', { grouping: true })).toBe(
+      '1,234,567.5',
+    );
+  });
+
+  it('rounds to the allowed fraction digits', () => {
+    expect(formatNumber(0.123456789, 'en-US')).toBe('0.12345679');
+    expect(formatNumber(26412.356, 'vi-VN', { maxFractionDigits: 2 })).toBe(
+      '26412,36',
+    );
+  });
+});
@@ -0,0 +1,62 @@
+export type NumberLocale = 'vi-VN' | 'en-US';
+
+export const NUMBER_LOCALES: readonly NumberLocale[] = ['vi-VN', 'en-US'];
+
+const SEPARATORS: Record<NumberLocale, { group: string; decimal: string }> = {
+  'vi-VN': { group: '.', decimal: ',' }, // 25.990,10
+  'en-US': { group: ',', decimal: '.' }, // 25,990.10
+};
+
+// Currency markers that may sit right next to the digits
+const CURRENCY_MARKERS = /₫|VNĐ|VND|đ/giu;
+
+// Digits with '.' or ',' separators. Whitespace (including no-break
+// spaces) only counts as grouping in front of exactly three digits, so
+// "183.800 185.300" stays two numbers
+const NUMBER_TOKEN =
+  /[-−]?\d{1,3}(?:\s\d{3})+(?!\d)(?:[.,]\d+)?|[-−]?\d+(?:[.,]\d+)*/u;
+
+/**
+ * Parses the first number in text such as "183.800", "₫25,990.10 VND" or
+ * "1 234,5 đ". `locale` decides what a lone '.' or ',' means; when both
+ * appear, whichever comes last is the decimal separator, and one that
+ * repeats ("1,234,567") can only be grouping. Throws when the text holds
+ * no number.
+ */
+export function parseNumber(text: string, locale: NumberLocale): number {
+  const token = NUMBER_TOKEN.exec(text.replace(CURRENCY_MARKERS, ''))?.[0];
+  if (!token) {
+    throw new Error(`No number in "${text.trim().slice(0, 80)}"`);
+  }
+
+  const compact = token.replace(/\s/gu, '').replace('−', '-');
+  let { group, decimal } = SEPARATORS[locale];
+  if (compact.includes('.') && compact.includes(',')) {
+    decimal = compact.lastIndexOf('.') > compact.lastIndexOf(',') ? '.' : ',';
+    group = decimal === '.' ? ',' : '.';
+  } else if (compact.split(decimal).length > 2) {
+    [group, decimal] = [decimal, group];
+  }
+
+  const value = Number(compact.replaceAll(group, '').replace(decimal, '.'));
+  if (!Number.isFinite(value)) {
+    throw new Error(`Could not parse "${token}" as a ${locale} number`);
+  }
+  return value;
+}
+
+export interface FormatOptions {
+  grouping?: boolean; // Defaults to false so spreadsheets read it as a number
+  maxFractionDigits?: number; // Defaults to 8
+}
+
+export function formatNumber(
+  value: number,
+  locale: NumberLocale,
+  { grouping = false, maxFractionDigits = 8 }: FormatOptions = {},
+): string {
+  return new Intl.NumberFormat(locale, {
+    useGrouping: grouping,
+    maximumFractionDigits: maxFractionDigits,
+  }).format(value);
+}
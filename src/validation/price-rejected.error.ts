@@ -0,0 +1,10 @@
+export class PriceRejectedError extends Error {
+  constructor(
+    readonly assetId: string,
+    readonly value: number,
+    readonly reason: string,
+  ) {
+    super(`Rejected ${assetId} value ${value}: ${reason}`);
+    this.name = 'PriceRejectedError';
+  }
+}
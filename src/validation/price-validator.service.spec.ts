@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import { PriceValidatorService } from './price-validator.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { QuarantinedQuote } from './quarantine.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SJC: AssetConfig = {
+  id: 'SJC',
+  source: 'doji-gold',
+  symbol: 'Giá vàng SJC',
+  currency: 'VND',
+  schedule: '0 */30 * * * *',
+  sinks: [],
+  validation: { maxChangePercent: 10 },
+};
+
+const DAILY_CLOSE: AssetConfig = {
+  id: 'VCB',
+  source: 'dnse-stock',
+  symbol: 'VCB',
+  currency: 'VND',
+  schedule: 'EVERY_DAY_AT_4PM',
+  exchange: 'HOSE',
+  sinks: [],
+  validation: { maxChangePercent: 7 },
+};
+
+function createValidator(
+  last: { value: number; ageMs: number },
+  quarantined: number[] = [],
+) {
+  const fetchedAt = new Date(Date.now() - last.ageMs);
+  const rejected: Partial<QuarantinedQuote>[] = quarantined.map((value) => ({
+    value,
+    rejectedAt: new Date(),
+  }));
+  return new PriceValidatorService(
+    new ConfigService({ PRICE_CHANGE_CONFIRMATIONS: '3' }),
+    { getLatest: () => ({ value: last.value, fetchedAt }) } as never,
+    {
+      list: (_assetId: string, limit: number) => rejected.slice(0, limit),
+    } as never,
+  );
+}
+
+describe('PriceValidatorService', () => {
+  it('rejects a large move from a recent value', () => {
+    const validator = createValidator({ value: 100, ageMs: HOUR_MS });
+
+    expect(validator.check(SJC, 130)).toBe(
+      'moved 30.00% from last value 100, limit is 10%',
+    );
+  });
+
+  it('accepts a small move', () => {
+    const validator = createValidator({ value: 100, ageMs: HOUR_MS });
+
+    expect(validator.check(SJC, 105)).toBeNull();
+  });
+
+  it('checks against the last accepted value however old it is', () => {
+    const validator = createValidator({ value: 100, ageMs: 3 * 24 * HOUR_MS });
+
+    expect(validator.check(SJC, 130)).toBe(
+      'moved 30.00% from last value 100, limit is 10%',
+    );
+  });
+
+  it("checks Monday's close against Friday's", () => {
+    // Friday 16:00 to Monday 16:00
+    const validator = createValidator({ value: 64600, ageMs: 72 * HOUR_MS });
+
+    expect(validator.check(DAILY_CLOSE, 6460)).toBe(
+      'moved 90.00% from last value 64600, limit is 7%',
+    );
+    expect(validator.check(DAILY_CLOSE, 66000)).toBeNull();
+  });
+
+  it('accepts a new level once enough quarantined values agree', () => {
+    const validator = createValidator(
+      { value: 100, ageMs: HOUR_MS },
+      [131, 129],
+    );
+
+    expect(validator.check(SJC, 130)).toBeNull();
+  });
+
+  it('keeps rejecting while the quarantined values disagree', () => {
+    const validator = createValidator(
+      { value: 100, ageMs: HOUR_MS },
+      [131, 60],
+    );
+
+    expect(validator.check(SJC, 130)).not.toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssetConfig } from '../assets/asset.interface';
+import { PriceHistoryService } from '../history/price-history.service';
+import { QuarantineService } from './quarantine.service';
+
+const DEFAULT_CHANGE_CONFIRMATIONS = 3;
+
+@Injectable()
+export class PriceValidatorService {
+  private readonly changeConfirmations: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly quarantine: QuarantineService,
+  ) {
+    this.changeConfirmations = Number(
+      configService.get<string>('PRICE_CHANGE_CONFIRMATIONS') ??
+        DEFAULT_CHANGE_CONFIRMATIONS,
+    );
+  }
+
+  /** Returns why `value` must not be written, or null when it looks sane. */
+  check(asset: AssetConfig, value: number): string | null {
+    if (!Number.isFinite(value)) {
+      return `value is ${value}`;
+    }
+    if (value <= 0) {
+      return 'value is not positive';
+    }
+
+    const { min, max, maxChangePercent } = asset.validation ?? {};
+    if (min !== undefined && value < min) {
+      return `below minimum ${min}`;
+    }
+    if (max !== undefined && value > max) {
+      return `above maximum ${max}`;
+    }
+
+    if (maxChangePercent !== undefined) {
+      return this.checkChange(asset, value, maxChangePercent);
+    }
+
+    return null;
+  }
+
+  // Compared with the last accepted value however old it is, so a daily
+  // close after a weekend is still checked. A genuine move must not be
+  // quarantined forever: a new level is accepted once it repeats
+  private checkChange(
+    asset: AssetConfig,
+    value: number,
+    maxChangePercent: number,
+  ): string | null {
+    const last = this.priceHistory.getLatest(asset.id);
+    if (!last) {
+      return null;
+    }
+    if (changePercent(last.value, value) <= maxChangePercent) {
+      return null;
+    }
+
+    const confirmations = this.quarantine
+      .list(asset.id, this.changeConfirmations - 1)
+      .filter(
+        (rejected) =>
+          rejected.rejectedAt > last.fetchedAt &&
+          rejected.value !== null &&
+          changePercent(rejected.value, value) <= maxChangePercent,
+      ).length;
+    if (confirmations >= this.changeConfirmations - 1) {
+      return null;
+    }
+
+    return `moved ${changePercent(last.value, value).toFixed(2)}% from last value ${last.value}, limit is ${maxChangePercent}%`;
+  }
+}
+
+function changePercent(from: number, to: number): number {
+  return (Math.abs(to - from) / from) * 100;
+}
@@ -0,0 +1,11 @@
+export interface QuarantinedQuote {
+  id: number;
+  assetId: string;
+  source: string;
+  raw: string | null;
+  price: number | null;
+  value: number | null; // NULL when NaN or infinite
+  reason: string;
+  quotedAt: Date;
+  rejectedAt: Date;
+}
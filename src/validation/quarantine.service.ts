@@ -0,0 +1,90 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { AssetConfig } from '../assets/asset.interface';
+import { Quote } from '../sources/price-source.interface';
+import { QuarantinedQuote } from './quarantine.interface';
+
+interface QuarantineRow {
+  id: number;
+  asset_id: string;
+  source: string;
+  raw: string | null;
+  price: number | null;
+  value: number | null;
+  reason: string;
+  quoted_at: number;
+  rejected_at: number;
+}
+
+/** Keeps rejected values around so a glitch can be inspected later. */
+@Injectable()
+export class QuarantineService implements OnModuleInit {
+  private readonly logger = new Logger(QuarantineService.name);
+
+  constructor(private readonly database: DatabaseService) {}
+
+  onModuleInit() {
+    this.database.db.exec(`
+      CREATE TABLE IF NOT EXISTS quarantined_quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asset_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        raw TEXT,
+        price REAL,
+        value REAL,
+        reason TEXT NOT NULL,
+        quoted_at INTEGER NOT NULL,
+        rejected_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS quarantined_quotes_asset
+        ON quarantined_quotes (asset_id, rejected_at);
+    `);
+  }
+
+  add(asset: AssetConfig, quote: Quote, value: number, reason: string) {
+    this.logger.warn(`Quarantined ${asset.id} value ${value}: ${reason}`);
+    try {
+      this.database.db
+        .prepare(
+          `INSERT INTO quarantined_quotes
+            (asset_id, source, raw, price, value, reason, quoted_at, rejected_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          asset.id,
+          quote.source,
+          quote.raw ?? null,
+          // NaN and Infinity are kept as NULL
+          Number.isFinite(quote.price) ? quote.price : null,
+          Number.isFinite(value) ? value : null,
+          reason,
+          quote.timestamp.getTime(),
+          Date.now(),
+        );
+    } catch (error) {
+      this.logger.error(
+        `Failed to quarantine ${asset.id} value: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  list(assetId: string, limit = 50): QuarantinedQuote[] {
+    const rows = this.database.db
+      .prepare(
+        `SELECT * FROM quarantined_quotes WHERE asset_id = ?
+         ORDER BY rejected_at DESC, id DESC LIMIT ?`,
+      )
+      .all(assetId, limit) as QuarantineRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      assetId: row.asset_id,
+      source: row.source,
+      raw: row.raw,
+      price: row.price,
+      value: row.value,
+      reason: row.reason,
+      quotedAt: new Date(row.quoted_at),
+      rejectedAt: new Date(row.rejected_at),
+    }));
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { HistoryModule } from '../history/history.module';
+import { PriceValidatorService } from './price-validator.service';
+import { QuarantineService } from './quarantine.service';
+
+@Module({
+  imports: [DatabaseModule, HistoryModule],
+  providers: [PriceValidatorService, QuarantineService],
+  exports: [PriceValidatorService, QuarantineService],
+})
+export class ValidationModule {}
@@ -0,0 +1,202 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import type { DryRunEntry } from '../src/dry-run/dry-run.interface';
+
+const FIXTURES = join(__dirname, '../src/sources/__fixtures__');
+const API_KEY = 'e2e-key';
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), 'utf8');
+}
+
+/** Serves the upstream fixtures and records every path it was asked for. */
+function startUpstream(paths: string[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://upstream');
+    paths.push(url.pathname);
+    switch (url.pathname) {
+      case '/chart-api/v2/ohlcs/stock':
+        res.setHeader('content-type', 'application/json');
+        return res.end(fixture('dnse-ohlcs-vcb.json'));
+      case '/api/v3/ticker/price':
+        res.setHeader('content-type', 'application/json');
+        return res.end(fixture('binance-ticker-btcusdt.json'));
+      case '/rates.xml':
+        return res.end(
+          '<ExrateList><Exrate CurrencyCode="USD" Buy="25,980.00" Transfer="26,010.00" Sell="26,370.00"/></ExrateList>',
+        );
+      case '/trong-nuoc/doji/':
+        res.setHeader('content-type', 'text/html; charset=utf-8');
+        return res.end(fixture('giavang-doji.html'));
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve(server)),
+  );
+}
+
+/** The shipped recipes, fetched without a browser so the spec stays local. */
+function staticRecipes(): string {
+  const { recipes } = JSON.parse(
+    readFileSync(join(__dirname, '../config/recipes.json'), 'utf8'),
+  ) as { recipes: Record<string, unknown>[] };
+  return JSON.stringify({
+    recipes: recipes.map((recipe) => ({ ...recipe, mode: 'static' })),
+  });
+}
+
+function readDryRunLog(path: string): DryRunEntry[] {
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as DryRunEntry);
+}
+
+describe('Dry run against local upstreams (e2e)', () => {
+  const paths: string[] = [];
+  let upstream: Server;
+  let app: INestApplication;
+  let dir: string;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    upstream = await startUpstream(paths);
+    baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+    dir = mkdtempSync(join(tmpdir(), 'price-crawler-e2e-'));
+
+    writeFileSync(
+      join(dir, 'assets.json'),
+      JSON.stringify({
+        assets: [
+          {
+            id: 'VCB',
+            source: 'dnse-stock',
+            symbol: 'VCB',
+            currency: 'VND',
+            schedule: 'EVERY_DAY_AT_4PM',
+            target: { sheet: 'Detail', cell: 'E19' },
+          },
+          {
+            id: 'BTC',
+            source: 'binance-ticker',
+            symbol: 'BTCUSDT',
+            currency: 'USDT',
+            schedule: 'EVERY_HOUR',
+            sinks: [{ type: 'webhook', url: `${baseUrl}/hook` }],
+          },
+          {
+            id: 'DOJI_SJC',
+            source: 'doji-gold',
+            symbol: 'Giá vàng SJC',
+            currency: 'VND',
+            schedule: 'EVERY_3_HOURS',
+            target: { sheet: 'Detail', cell: 'E3' },
+          },
+        ],
+      }),
+    );
+    writeFileSync(join(dir, 'recipes.json'), staticRecipes());
+
+    // Set before AppModule is imported: ConfigModule validates on import
+    Object.assign(process.env, {
+      DRY_RUN: 'true',
+      DRY_RUN_LOG: join(dir, 'dry-run.jsonl'),
+      DATABASE_PATH: join(dir, 'prices.db'),
+      SNAPSHOT_DIR: join(dir, 'snapshots'),
+      ASSETS_CONFIG_PATH: join(dir, 'assets.json'),
+      RECIPES_CONFIG_PATH: join(dir, 'recipes.json'),
+      ALERTS_CONFIG_PATH: join(dir, 'alerts.json'),
+      GOLD_CONFIG_PATH: join(dir, 'gold.json'),
+      REPORTS_CONFIG_PATH: join(dir, 'reports.json'),
+      DNSE_BASE_URL: baseUrl,
+      BINANCE_BASE_URL: baseUrl,
+      GIAVANG_BASE_URL: baseUrl,
+      BINANCE_WEB_BASE_URL: baseUrl,
+      VIETCOMBANK_RATES_URL: `${baseUrl}/rates.xml`,
+      SPREADSHEET_ID: '1AbcDEFghiJKLmnopQRstuVWxyz0123456789abcdEF',
+      SHEETS_FLUSH_DELAY_MS: '0',
+      API_KEY,
+    });
+    const { AppModule } =
+      jest.requireActual<typeof import('../src/app.module')>(
+        '../src/app.module',
+      );
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+  }, 60_000);
+
+  afterAll(async () => {
+    await app?.close();
+    await new Promise((resolve) => upstream?.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('crawls every asset from the overridden base URLs', () => {
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        '/chart-api/v2/ohlcs/stock',
+        '/api/v3/ticker/price',
+        '/trong-nuoc/doji/',
+      ]),
+    );
+  });
+
+  it('serves the crawled prices', async () => {
+    const server = app.getHttpServer() as Server;
+
+    const vcb = await request(server).get('/assets/VCB/price').expect(200);
+    const btc = await request(server).get('/assets/BTC/price').expect(200);
+    const sjc = await request(server).get('/assets/DOJI_SJC/price').expect(200);
+
+    expect(vcb.body).toMatchObject({ assetId: 'VCB', value: 64600 });
+    expect(btc.body).toMatchObject({ assetId: 'BTC', value: 107234.56 });
+    expect(sjc.body).toMatchObject({
+      assetId: 'DOJI_SJC',
+      currency: 'VND',
+    });
+  });
+
+  it('captures sheet writes and sinks instead of sending them', async () => {
+    // The sheet writer flushes on a timer, so give it a tick to land
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const entries = readDryRunLog(process.env.DRY_RUN_LOG as string);
+
+    const ranges = entries
+      .filter((entry) => entry.kind === 'sheets')
+      .flatMap((entry) => entry.payload as { range: string }[])
+      .map(({ range }) => range);
+    expect(ranges).toEqual(
+      expect.arrayContaining(["'Detail'!E19", "'Detail'!E3"]),
+    );
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        kind: 'sink',
+        target: `webhook ${baseUrl}/hook`,
+      }),
+    );
+    expect(paths).not.toContain('/hook');
+  });
+
+  it('re-crawls on demand through the API', async () => {
+    const before = paths.length;
+
+    await request(app.getHttpServer() as Server)
+      .post('/crawlers/VCB/run')
+      .set('x-api-key', API_KEY)
+      .expect(200);
+
+    expect(paths.slice(before)).toContain('/chart-api/v2/ohlcs/stock');
+  });
+});